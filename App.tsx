@@ -16,9 +16,13 @@ import {
   LogOut,
   UserRound,
   Moon,
-  Sun
+  Sun,
+  Cpu,
+  Database,
+  Coins,
+  FileCode2
 } from 'lucide-react';
-import { AppView, Project, AppUser } from './types';
+import { AppView, Project, AppUser, DocumentKey } from './types';
 import ProjectDashboard from './components/ProjectDashboard';
 import IdeationWizard from './components/IdeationWizard';
 import GuidancePanel from './components/GuidancePanel';
@@ -29,31 +33,47 @@ import AIChatbot from './components/AIChatbot';
 import TaskManager from './components/TaskManager';
 import AuthScreen from './components/AuthScreen';
 import ProfileModal from './components/ProfileModal';
+import AISettingsModal from './components/AISettingsModal';
+import AICacheModal from './components/AICacheModal';
+import UsageDashboardModal from './components/UsageDashboardModal';
+import PromptTemplatesModal from './components/PromptTemplatesModal';
+import AIQueueIndicator from './components/AIQueueIndicator';
+import GenerationRetryBanner from './components/GenerationRetryBanner';
 import { getCurrentUser, getUsers, logoutUser } from './services/authService';
 import { requestNotificationPermission } from './services/notificationService';
+import { recordChangedDocs } from './services/docRevisionService';
 import { useTheme } from './components/ThemeContext';
 
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<AppView>('dashboard');
+  const [focusedDocument, setFocusedDocument] = useState<DocumentKey | undefined>();
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [currentUser, setCurrentUser] = useState<AppUser | null>(getCurrentUser());
   const [teamMembers, setTeamMembers] = useState<AppUser[]>(getUsers());
   const [showProfile, setShowProfile] = useState(false);
+  const [showAISettings, setShowAISettings] = useState(false);
+  const [showAICache, setShowAICache] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
 
   const selectedProject = projects.find(p => p.id === selectedProjectId);
 
   const handleAddProject = (newProject: Project) => {
-    setProjects(prev => [...prev, newProject]);
+    const project = recordChangedDocs(undefined, newProject, { author: currentUser?.fullName || 'Unknown', source: 'ai' });
+    setProjects(prev => [...prev, project]);
     setSelectedProjectId(newProject.id);
     setActiveView('dashboard');
   };
 
+  // Document changes that arrive without a revision of their own (e.g. a rename
+  // propagated from the Guidance view) are logged as manual edits
   const handleUpdateProject = (updatedProject: Project) => {
-    setProjects(prev => prev.map(p => p.id === updatedProject.id ? updatedProject : p));
+    const meta = { author: currentUser?.fullName || 'Unknown', source: 'manual' as const };
+    setProjects(prev => prev.map(p => p.id === updatedProject.id ? recordChangedDocs(p, updatedProject, meta) : p));
   };
 
   useEffect(() => {
@@ -158,6 +178,7 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-6">
+            <AIQueueIndicator />
             <button
               onClick={toggleTheme}
               className="p-2 text-slate-500 hover:bg-slate-50 dark:text-gray-400 dark:hover:bg-gray-800 rounded-lg transition-colors"
@@ -200,6 +221,42 @@ const App: React.FC = () => {
                   >
                     <UserRound size={14} /> Profile
                   </button>
+                  <button
+                    onClick={() => {
+                      setShowAISettings(true);
+                      setUserMenuOpen(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800 flex items-center gap-2"
+                  >
+                    <Cpu size={14} /> AI Settings
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowAICache(true);
+                      setUserMenuOpen(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800 flex items-center gap-2"
+                  >
+                    <Database size={14} /> Response Cache
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowUsage(true);
+                      setUserMenuOpen(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800 flex items-center gap-2"
+                  >
+                    <Coins size={14} /> Usage &amp; Budget
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowPromptTemplates(true);
+                      setUserMenuOpen(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800 flex items-center gap-2"
+                  >
+                    <FileCode2 size={14} /> Prompt Templates
+                  </button>
                   <button
                     onClick={() => {
                       logoutUser();
@@ -217,6 +274,14 @@ const App: React.FC = () => {
 
         {/* View Content */}
         <div className="flex-1 overflow-y-auto p-8 scroll-smooth bg-white dark:bg-gray-800">
+          {selectedProject && activeView !== 'ideation' && (
+            <GenerationRetryBanner
+              project={selectedProject}
+              currentUser={currentUser}
+              teamMembers={teamMembers.map(member => member.fullName)}
+              onUpdateProject={handleUpdateProject}
+            />
+          )}
           {activeView === 'dashboard' && (
             <ProjectDashboard 
               projects={projects} 
@@ -230,16 +295,18 @@ const App: React.FC = () => {
               onComplete={handleAddProject}
               currentUser={currentUser}
               teamMembers={teamMembers}
+              projects={projects}
             />
           )}
           {activeView === 'guidance' && selectedProject && (
-            <GuidancePanel project={selectedProject} />
+            <GuidancePanel project={selectedProject} teamMembers={teamMembers} onUpdateProject={handleUpdateProject} />
           )}
           {activeView === 'docs' && selectedProject && (
             <DocumentationEditor
               project={selectedProject}
               onUpdateProject={handleUpdateProject}
               currentUser={currentUser}
+              initialDocument={focusedDocument}
             />
           )}
           {activeView === 'tasks' && selectedProject && (
@@ -264,7 +331,16 @@ const App: React.FC = () => {
         </div>
       </main>
       {/* AI Chatbot Floating Button + Full-page Overlay */}
-      <AIChatbot project={selectedProject} />
+      <AIChatbot
+        project={selectedProject}
+        userId={currentUser.id}
+        onUpdateProject={handleUpdateProject}
+        teamMembers={teamMembers.map(member => member.fullName)}
+        onOpenDocument={document => {
+          setFocusedDocument(document);
+          setActiveView('docs');
+        }}
+      />
       {showProfile && (
         <ProfileModal
           user={currentUser}
@@ -275,6 +351,18 @@ const App: React.FC = () => {
           }}
         />
       )}
+      {showAISettings && (
+        <AISettingsModal onClose={() => setShowAISettings(false)} />
+      )}
+      {showAICache && (
+        <AICacheModal onClose={() => setShowAICache(false)} />
+      )}
+      {showUsage && (
+        <UsageDashboardModal projects={projects} onClose={() => setShowUsage(false)} />
+      )}
+      {showPromptTemplates && (
+        <PromptTemplatesModal onClose={() => setShowPromptTemplates(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { AICacheSettings } from '../types';
+import {
+  CachedResponse,
+  clearCache,
+  deleteCachedResponse,
+  enforceLimits,
+  getCacheSettings,
+  listCachedResponses,
+  saveCacheSettings,
+} from '../services/aiCacheService';
+import { formatBytes } from '../services/fileUploadService';
+import { ChevronDown, ChevronUp, Trash2, X } from 'lucide-react';
+
+interface Props {
+  onClose: () => void;
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 60_000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (60 * 24))}d ago`;
+}
+
+const AICacheModal: React.FC<Props> = ({ onClose }) => {
+  const [settings, setSettings] = useState<AICacheSettings>(getCacheSettings());
+  const [entries, setEntries] = useState<CachedResponse[]>([]);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [status, setStatus] = useState('');
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCachedResponses());
+    } catch (err: any) {
+      setStatus(`Could not open the cache: ${err.message}`);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+
+  const updateSettings = (patch: Partial<AICacheSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveCacheSettings(next);
+  };
+
+  const handlePurgeExpired = async () => {
+    const removed = await enforceLimits();
+    setStatus(removed > 0 ? `Removed ${removed} expired or over-limit entries.` : 'Nothing to purge.');
+    refresh();
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Delete every cached AI response? Replay-only mode will have nothing to serve.')) return;
+    await clearCache();
+    setStatus('Cache cleared.');
+    refresh();
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteCachedResponse(key);
+    refresh();
+  };
+
+  const inputClass = 'mt-1 w-full rounded-xl border border-slate-200 dark:border-gray-600 px-3 py-2 text-sm bg-white dark:bg-gray-800 text-slate-900 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 dark:text-white">Response Cache</h3>
+            <p className="text-[11px] text-slate-400">{entries.length} entries · {formatBytes(totalSize)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 border-b border-slate-100 dark:border-gray-700">
+          <label className="flex items-center justify-between gap-4 text-sm text-slate-700 dark:text-gray-200">
+            <span>
+              Cache AI responses
+              <span className="block text-[11px] text-slate-400">Identical requests are answered instantly without calling the model.</span>
+            </span>
+            <input type="checkbox" checked={settings.enabled} onChange={e => updateSettings({ enabled: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm text-slate-700 dark:text-gray-200">
+            <span>
+              Replay only (offline)
+              <span className="block text-[11px] text-slate-400">Never touch the network; requests that were not cached fail with a clear message.</span>
+            </span>
+            <input type="checkbox" checked={settings.replayOnly} onChange={e => updateSettings({ replayOnly: e.target.checked })} className="w-4 h-4 accent-indigo-600" />
+          </label>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Expire after (hours)</label>
+              <input type="number" min={1} value={settings.ttlHours} onChange={e => updateSettings({ ttlHours: Math.max(1, Number(e.target.value) || 1) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Max entries</label>
+              <input type="number" min={10} value={settings.maxEntries} onChange={e => updateSettings({ maxEntries: Math.max(10, Number(e.target.value) || 10) })} className={inputClass} />
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Max size (MB)</label>
+              <input type="number" min={1} value={settings.maxSizeMB} onChange={e => updateSettings({ maxSizeMB: Math.max(1, Number(e.target.value) || 1) })} className={inputClass} />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handlePurgeExpired} className="px-3 py-2 text-sm font-medium rounded-xl border border-slate-200 dark:border-gray-600 text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800">
+              Purge expired
+            </button>
+            <button onClick={handleClearAll} className="px-3 py-2 text-sm font-medium rounded-xl border border-red-100 text-red-500 hover:bg-red-50">
+              Clear all
+            </button>
+            {status && <span className="text-xs text-slate-400 ml-2">{status}</span>}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {entries.length === 0 && (
+            <p className="text-sm text-slate-400 text-center py-8">No cached responses yet.</p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.key} className="rounded-xl border border-slate-100 dark:border-gray-700">
+              <div className="flex items-center gap-3 px-4 py-2.5">
+                <span className="text-[10px] font-bold uppercase tracking-wide text-indigo-600 bg-indigo-50 dark:bg-indigo-900/30 px-2 py-0.5 rounded">{entry.purpose}</span>
+                <button
+                  onClick={() => setExpandedKey(expandedKey === entry.key ? null : entry.key)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="text-sm text-slate-700 dark:text-gray-200 truncate">{entry.preview || '(no user prompt)'}</p>
+                  <p className="text-[11px] text-slate-400">{entry.model} · {formatBytes(entry.size)} · used {formatAge(entry.lastUsedAt)}</p>
+                </button>
+                {expandedKey === entry.key ? <ChevronUp size={14} className="text-slate-400" /> : <ChevronDown size={14} className="text-slate-400" />}
+                <button onClick={() => handleDelete(entry.key)} className="p-1.5 text-slate-400 hover:text-red-500 rounded" title="Delete entry">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {expandedKey === entry.key && (
+                <pre className="mx-4 mb-3 p-3 max-h-60 overflow-auto bg-slate-50 dark:bg-gray-900 rounded-lg text-[11px] text-slate-600 dark:text-gray-300 whitespace-pre-wrap">
+                  {entry.response}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AICacheModal;
@@ -1,10 +1,9 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Project } from '../types';
+import { ChatCitation, ChatThread, ChatToolCallState, DocumentKey, Project, StoredChatMessage } from '../types';
 import {
   MessageCircle,
   X,
   Send,
-  Loader2,
   Bot,
   User,
   Sparkles,
@@ -21,19 +20,45 @@ import {
   Lightbulb,
   Mic,
   MicOff,
+  Square,
+  Plus,
+  Pencil,
+  Download,
+  MessagesSquare,
+  Wand2,
+  FileText,
 } from 'lucide-react';
 import { geminiService } from '../services/geminiService';
+import { isAbortError } from '../services/llmProvider';
+import {
+  compactThread,
+  createThread,
+  deleteThread,
+  getThreads,
+  getUnsummarizedMessages,
+  renameThread,
+  saveThread,
+  titleFromMessage,
+} from '../services/chatThreadService';
+import { exportChatThreadMarkdown } from '../services/exportService';
+import { applyToolCall, describeToolCall, extractToolCalls } from '../services/chatTools';
+import { recordChangedDocs } from '../services/docRevisionService';
+import { getCurrentUser } from '../services/authService';
+import { citationsFromReply, retrievePassages } from '../services/retrievalService';
 import ParticleOrb from './ParticleOrb';
 
 interface Props {
   project?: Project | null;
+  userId: string;
+  /** When provided, the assistant may propose project changes for the user to confirm */
+  onUpdateProject?: (project: Project) => void;
+  teamMembers?: string[];
+  /** Navigate to a generated document when one of its citations is clicked */
+  onOpenDocument?: (document: DocumentKey) => void;
 }
 
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
+interface ChatMessage extends StoredChatMessage {
+  streaming?: boolean;
 }
 
 const SUGGESTION_CHIPS = [
@@ -141,9 +166,13 @@ function renderMarkdown(text: string): React.ReactNode {
 
 // ── Main Component ─────────────────────────────────────────────────────────
 
-const AIChatbot: React.FC<Props> = ({ project }) => {
+const AIChatbot: React.FC<Props> = ({ project, userId, onUpdateProject, teamMembers = [], onOpenDocument }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [showScroll, setShowScroll] = useState(false);
@@ -156,6 +185,22 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const projectId = project?.id ?? null;
+  // A reply that finishes after a project switch must not repaint the new project's threads
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+  const activeThread = threads.find(t => t.id === activeThreadId) || null;
+
+  // Threads are scoped to the selected project; reopen the most recent one on switch
+  useEffect(() => {
+    abortRef.current?.abort();
+    const stored = getThreads(userId, projectId);
+    setThreads(stored);
+    setActiveThreadId(stored[0]?.id ?? null);
+    setMessages(stored[0]?.messages ?? []);
+  }, [userId, projectId]);
 
   // Initialize Speech Recognition
   useEffect(() => {
@@ -250,6 +295,7 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
   useEffect(() => {
       return () => {
           stopListening();
+          abortRef.current?.abort();
       }
   }, []);
 
@@ -292,40 +338,115 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
       id: Math.random().toString(36).substr(2, 9),
       role: 'user',
       content: text,
-      timestamp: new Date(),
+      timestamp: new Date().toISOString(),
     };
 
     setMessages(prev => [...prev, userMsg]);
     setInput('');
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const assistantId = Math.random().toString(36).substr(2, 9);
+    let streamed = '';
+    const passages = project ? retrievePassages(project, text) : [];
+
+    // Threads are created lazily so opening the chat never leaves empty entries behind
+    let thread = activeThread || createThread(userId, projectId, titleFromMessage(text));
+    thread = { ...thread, messages: [...thread.messages, userMsg] };
+    setActiveThreadId(thread.id);
+
     try {
-      const history = [...messages, userMsg].map(m => ({
+      thread = await compactThread(thread);
+      // Proposed actions aren't part of the visible text, so restate their outcome for the model
+      const history = getUnsummarizedMessages(thread).map(m => ({
         role: m.role,
-        content: m.content,
+        content: m.toolCalls?.length
+          ? `${m.content}\n\n${m.toolCalls.map(t => `[Proposed action ${t.call.name}: ${t.status}]`).join('\n')}`
+          : m.content,
       }));
 
-      const response = await geminiService.chatWithAI(history, project);
-
-      const assistantMsg: ChatMessage = {
-        id: Math.random().toString(36).substr(2, 9),
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, assistantMsg]);
+      const options = { summary: thread.summary, tools: !!(project && onUpdateProject), passages, signal: controller.signal };
+      for await (const delta of geminiService.streamChatWithAI(history, project, options)) {
+        const isFirst = streamed === '';
+        streamed += delta;
+        // The bubble is added on the first token so the typing indicator shows until then
+        setMessages(prev => isFirst
+          ? [...prev, { id: assistantId, role: 'assistant', content: streamed, timestamp: new Date().toISOString(), streaming: true }]
+          : prev.map(m => m.id === assistantId ? { ...m, content: streamed } : m));
+      }
     } catch (err: any) {
-      const errorMsg: ChatMessage = {
+      // Error bubbles are shown but never saved to the thread
+      if (!isAbortError(err)) {
+        const errorMsg: ChatMessage = {
+          id: Math.random().toString(36).substr(2, 9),
+          role: 'assistant',
+          content: `Sorry, I encountered an error: ${err.message}. Please check your API key and try again.`,
+          timestamp: new Date().toISOString(),
+        };
+        setMessages(prev => [...prev, errorMsg]);
+      }
+    } finally {
+      const { text: reply, calls } = extractToolCalls(streamed);
+      const toolCalls: ChatToolCallState[] = calls.map(call => ({
         id: Math.random().toString(36).substr(2, 9),
-        role: 'assistant',
-        content: `Sorry, I encountered an error: ${err.message}. Please check your API key and try again.`,
-        timestamp: new Date(),
+        call,
+        status: 'pending',
+      }));
+      const citations = citationsFromReply(reply, passages);
+      const final = {
+        content: reply,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        citations: citations.length > 0 ? citations : undefined,
       };
-      setMessages(prev => [...prev, errorMsg]);
-    } finally {
+      if (streamed) {
+        thread.messages.push({ id: assistantId, role: 'assistant', timestamp: new Date().toISOString(), ...final });
+      }
+      saveThread(userId, thread);
+      if (projectIdRef.current === projectId) {
+        setThreads(getThreads(userId, projectId));
+        setMessages(prev => prev.map(m => m.id === assistantId ? { ...m, ...final, streaming: false } : m));
+      }
+      abortRef.current = null;
       setIsLoading(false);
     }
-  }, [input, isLoading, messages, project]);
+  }, [input, isLoading, activeThread, project, projectId, userId, onUpdateProject]);
+
+  const openCitation = (citation: ChatCitation) => {
+    if (citation.document && onOpenDocument) {
+      onOpenDocument(citation.document);
+      setIsOpen(false);
+    } else if (citation.url) {
+      window.open(citation.url, '_blank', 'noopener');
+    }
+  };
+
+  const resolveToolCall = (messageId: string, toolCall: ChatToolCallState, apply: boolean) => {
+    if (apply) {
+      if (!project || !onUpdateProject) return;
+      try {
+        const author = getCurrentUser()?.fullName || 'Unknown';
+        onUpdateProject(recordChangedDocs(project, applyToolCall(project, toolCall.call, teamMembers), { author, source: 'ai', note: 'Chat assistant action' }));
+      } catch (err: any) {
+        alert(err.message);
+        return;
+      }
+    }
+
+    const status: ChatToolCallState['status'] = apply ? 'applied' : 'dismissed';
+    const update = (list: ChatMessage[]) => list.map(m => m.id === messageId
+      ? { ...m, toolCalls: m.toolCalls?.map(t => t.id === toolCall.id ? { ...t, status } : t) }
+      : m);
+    setMessages(prev => update(prev));
+    if (activeThread) {
+      saveThread(userId, { ...activeThread, messages: update(activeThread.messages) });
+      setThreads(getThreads(userId, projectId));
+    }
+  };
+
+  const stopGenerating = () => {
+    abortRef.current?.abort();
+  };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -334,8 +455,38 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
     }
   };
 
-  const clearChat = () => {
+  const selectThread = (thread: ChatThread) => {
+    if (isLoading) return;
+    setActiveThreadId(thread.id);
+    setMessages(thread.messages);
+  };
+
+  const startNewChat = () => {
+    if (isLoading) return;
+    setActiveThreadId(null);
     setMessages([]);
+    inputRef.current?.focus();
+  };
+
+  const commitRename = (thread: ChatThread) => {
+    renameThread(userId, thread, renameValue);
+    setThreads(getThreads(userId, projectId));
+    setRenamingId(null);
+  };
+
+  const removeThread = (thread: ChatThread) => {
+    if (!window.confirm(`Delete "${thread.title}"? This cannot be undone.`)) return;
+    deleteThread(userId, thread);
+    setThreads(getThreads(userId, projectId));
+    if (thread.id === activeThreadId) startNewChat();
+  };
+
+  const clearChat = () => {
+    if (activeThread) {
+      removeThread(activeThread);
+    } else {
+      setMessages([]);
+    }
   };
 
   // ── Floating Icon (closed state) — Pixelated Orb Animation ───
@@ -400,10 +551,19 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {activeThread && (
+            <button
+              onClick={() => exportChatThreadMarkdown(activeThread, project?.title)}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+              title="Export chat as Markdown"
+            >
+              <Download size={18} />
+            </button>
+          )}
           <button
             onClick={clearChat}
             className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all"
-            title="Clear chat"
+            title="Delete chat"
           >
             <Trash2 size={18} />
           </button>
@@ -417,6 +577,80 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
         </div>
       </header>
 
+      <div className="flex-1 flex min-h-0">
+      {/* ── Thread List ─────────────────────────────────────────────── */}
+      <aside className="hidden md:flex w-64 shrink-0 flex-col border-r border-slate-200 dark:border-gray-700 bg-white/70 dark:bg-black/40">
+        <div className="p-3">
+          <button
+            onClick={startNewChat}
+            disabled={isLoading}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white text-sm font-medium rounded-xl transition-all"
+          >
+            <Plus size={15} /> New chat
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto px-2 pb-3 space-y-1">
+          {threads.length === 0 && (
+            <p className="text-xs text-slate-400 text-center mt-6 px-4">
+              {project ? `No saved chats for ${project.title} yet.` : 'No saved chats yet.'}
+            </p>
+          )}
+          {threads.map(thread => (
+            <div
+              key={thread.id}
+              className={`group flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer text-sm transition-all ${
+                thread.id === activeThreadId
+                  ? 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-200'
+                  : 'text-slate-600 dark:text-gray-300 hover:bg-slate-100 dark:hover:bg-gray-800'
+              }`}
+              onClick={() => selectThread(thread)}
+            >
+              <MessagesSquare size={14} className="shrink-0 opacity-60" />
+              {renamingId === thread.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={e => setRenameValue(e.target.value)}
+                  onClick={e => e.stopPropagation()}
+                  onBlur={() => commitRename(thread)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename(thread);
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-white dark:bg-gray-800 border border-indigo-300 rounded px-1.5 py-0.5 text-sm outline-none"
+                />
+              ) : (
+                <span className="flex-1 min-w-0 truncate">{thread.title}</span>
+              )}
+              <div className="hidden group-hover:flex items-center gap-0.5 shrink-0">
+                <button
+                  onClick={e => { e.stopPropagation(); setRenamingId(thread.id); setRenameValue(thread.title); }}
+                  className="p-1 text-slate-400 hover:text-slate-700 rounded"
+                  title="Rename"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={e => { e.stopPropagation(); exportChatThreadMarkdown(thread, project?.title); }}
+                  className="p-1 text-slate-400 hover:text-indigo-600 rounded"
+                  title="Export as Markdown"
+                >
+                  <Download size={12} />
+                </button>
+                <button
+                  onClick={e => { e.stopPropagation(); removeThread(thread); }}
+                  className="p-1 text-slate-400 hover:text-rose-500 rounded"
+                  title="Delete"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+
+      <div className="flex-1 flex flex-col min-w-0 relative">
       {/* ── Messages Area ───────────────────────────────────────────── */}
       <div
         ref={scrollRef}
@@ -477,13 +711,73 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
                           : 'bg-white dark:bg-gray-800 border border-slate-200 dark:border-gray-700 text-slate-700 dark:text-white rounded-tl-md shadow-sm'
                       }`}
                     >
-                      {msg.role === 'assistant' ? renderMarkdown(msg.content) : msg.content}
+                      {msg.role === 'assistant'
+                        ? renderMarkdown(msg.streaming ? extractToolCalls(msg.content).text : msg.content)
+                        : msg.content}
+                      {msg.streaming && <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-indigo-400 animate-pulse" />}
                     </div>
+                    {msg.citations && !msg.streaming && (
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {msg.citations.map(citation => (
+                          <button
+                            key={citation.index}
+                            onClick={() => openCitation(citation)}
+                            title={citation.excerpt}
+                            className="flex items-center gap-1 px-2 py-1 bg-white dark:bg-gray-800 border border-slate-200 dark:border-gray-700 rounded-lg text-[11px] text-slate-500 hover:text-indigo-600 hover:border-indigo-300 transition-all max-w-[16rem]"
+                          >
+                            <span className="font-bold text-indigo-500">[{citation.index}]</span>
+                            <FileText size={11} className="shrink-0" />
+                            <span className="truncate">{citation.label}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {/* Proposed project actions — nothing changes until the user applies them */}
+                    {msg.toolCalls?.map(toolCall => {
+                      const preview = project ? describeToolCall(toolCall.call, project) : null;
+                      return (
+                        <div key={toolCall.id} className="mt-2 bg-indigo-50/70 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-xl px-4 py-3 text-[13px]">
+                          <div className="flex items-center gap-2 font-semibold text-indigo-800 dark:text-indigo-200">
+                            <Wand2 size={14} className="shrink-0" />
+                            {preview?.title || toolCall.call.name}
+                          </div>
+                          {preview && preview.details.length > 0 && (
+                            <ul className="mt-1.5 ml-6 space-y-0.5 text-xs text-slate-600 dark:text-gray-300">
+                              {preview.details.map((line, i) => <li key={i}>{line}</li>)}
+                            </ul>
+                          )}
+                          {toolCall.status === 'pending' ? (
+                            <div className="flex items-center gap-2 mt-2.5 ml-6">
+                              <button
+                                onClick={() => resolveToolCall(msg.id, toolCall, true)}
+                                disabled={!preview || !!preview.error || !onUpdateProject}
+                                className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-xs font-medium rounded-lg transition-all"
+                              >
+                                Apply
+                              </button>
+                              <button
+                                onClick={() => resolveToolCall(msg.id, toolCall, false)}
+                                className="px-3 py-1 text-slate-500 hover:text-slate-700 hover:bg-white text-xs font-medium rounded-lg transition-all"
+                              >
+                                Dismiss
+                              </button>
+                              {(preview?.error || !project) && (
+                                <span className="text-[11px] text-rose-500">{preview?.error || 'Open the project to apply this'}</span>
+                              )}
+                            </div>
+                          ) : (
+                            <div className={`mt-2 ml-6 text-[11px] font-medium ${toolCall.status === 'applied' ? 'text-emerald-600' : 'text-slate-400'}`}>
+                              {toolCall.status === 'applied' ? 'Applied to project' : 'Dismissed'}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
                     <div className={`flex items-center gap-2 mt-1.5 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                       <span className="text-[10px] text-slate-300">
-                        {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                       </span>
-                      {msg.role === 'assistant' && (
+                      {msg.role === 'assistant' && !msg.streaming && (
                         <button
                           onClick={() => copyToClipboard(msg.content, msg.id)}
                           className="p-1 text-slate-300 hover:text-slate-500 transition-colors rounded"
@@ -502,8 +796,8 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
                 </div>
               ))}
 
-              {/* Loading indicator — orbit animation */}
-              {isLoading && (
+              {/* Loading indicator — orbit animation, until the first token arrives */}
+              {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
                 <div className="flex gap-3 items-start">
                   <div className="shrink-0 w-8 h-8 relative mt-0.5">
                     <div className="absolute inset-[-3px] rounded-full border border-indigo-300/20 orbit-ring" style={{ animationDuration: '4s' }} />
@@ -594,13 +888,23 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
                 >
                 {isListening ? <MicOff size={16} /> : <Mic size={16} />}
                 </button>
+                {isLoading ? (
+                <button
+                onClick={stopGenerating}
+                className="w-9 h-9 bg-slate-800 hover:bg-slate-900 text-white rounded-xl flex items-center justify-center transition-all shadow-sm"
+                title="Stop generating"
+                >
+                <Square size={13} fill="currentColor" />
+                </button>
+                ) : (
                 <button
                 onClick={() => sendMessage()}
-                disabled={!input.trim() || isLoading}
+                disabled={!input.trim()}
                 className="w-9 h-9 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-200 disabled:text-slate-400 text-white rounded-xl flex items-center justify-center transition-all shadow-sm disabled:shadow-none"
                 >
-                {isLoading ? <Loader2 size={16} className="animate-spin" /> : <Send size={15} />}
+                <Send size={15} />
                 </button>
+                )}
             </div>
           </div>
           <p className="text-[10px] text-slate-300 text-center mt-2">
@@ -608,6 +912,8 @@ const AIChatbot: React.FC<Props> = ({ project }) => {
           </p>
         </div>
       </div>
+      </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { AIPurpose } from '../types';
+import { SchedulerSnapshot, subscribeScheduler } from '../services/requestScheduler';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+const PURPOSE_LABELS: Record<AIPurpose, string> = {
+  ideas: 'Project ideas',
+  comparison: 'Idea comparison',
+  docs: 'Documentation',
+  guidance: 'Tech guidance',
+  viva: 'Viva questions',
+  tasks: 'Task breakdown',
+  chat: 'Chat',
+};
+
+/** Header pill showing AI calls in flight; hidden while the queue is empty */
+const AIQueueIndicator: React.FC = () => {
+  const [queue, setQueue] = useState<SchedulerSnapshot | null>(null);
+  const [open, setOpen] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeScheduler(setQueue), []);
+
+  const hasRetries = !!queue?.jobs.some(job => job.state === 'retrying');
+
+  // Tick once a second so retry countdowns stay current
+  useEffect(() => {
+    if (!hasRetries) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRetries]);
+
+  if (!queue || queue.jobs.length === 0) return null;
+
+  const total = queue.completed + queue.failed + queue.jobs.length;
+  const done = queue.completed + queue.failed;
+  const running = queue.jobs.filter(job => job.state === 'running').length;
+  const queued = queue.jobs.length - running;
+
+  const describe = (job: SchedulerSnapshot['jobs'][number]) => {
+    if (job.state === 'running') return job.attempt > 1 ? `Running (attempt ${job.attempt}/${queue.maxAttempts})` : 'Running';
+    if (job.state === 'retrying') {
+      const seconds = Math.max(0, Math.ceil(((job.retryAt || now) - now) / 1000));
+      return `${job.lastError} — retrying in ${seconds}s`;
+    }
+    return 'Waiting';
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-medium border ${
+          hasRetries
+            ? 'bg-amber-50 border-amber-200 text-amber-700 dark:bg-amber-900/20 dark:border-amber-700 dark:text-amber-300'
+            : 'bg-indigo-50 border-indigo-100 text-indigo-700 dark:bg-black dark:border-gray-600 dark:text-white'
+        }`}
+        aria-label="AI request queue"
+      >
+        {hasRetries ? <RefreshCw size={13} className="animate-spin" /> : <Loader2 size={13} className="animate-spin" />}
+        AI {done}/{total}
+        {queued > 0 && <span className="text-[10px] opacity-70">· {queued} queued</span>}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white dark:bg-black border border-slate-200 dark:border-gray-600 rounded-xl shadow-lg z-50 p-3 space-y-2">
+          <div className="h-1.5 rounded-full bg-slate-100 dark:bg-gray-800 overflow-hidden">
+            <div className="h-full bg-indigo-600 transition-all" style={{ width: `${Math.round((done / total) * 100)}%` }} />
+          </div>
+          {queue.failed > 0 && <p className="text-[11px] text-red-500">{queue.failed} failed</p>}
+          {queue.jobs.map(job => (
+            <div key={job.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-medium text-slate-700 dark:text-gray-200">{PURPOSE_LABELS[job.purpose]}</span>
+              <span className={job.state === 'retrying' ? 'text-amber-600 truncate' : 'text-slate-400'}>{describe(job)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIQueueIndicator;
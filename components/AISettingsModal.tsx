@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { LLMProviderKind, LLMSettings } from '../types';
+import { getLLMSettings, getProviders, saveLLMSettings } from '../services/llmProvider';
+import { X } from 'lucide-react';
+
+interface Props {
+  onClose: () => void;
+}
+
+const PROVIDER_HINTS: Record<LLMProviderKind, string> = {
+  'openrouter': 'Hosted models via openrouter.ai. Leave the key empty to use the one from .env.',
+  'openai-compatible': 'Any server exposing /v1/chat/completions — Ollama, llama.cpp server, vLLM.',
+  'mock': 'Deterministic canned responses. Works fully offline; useful for demos and tests.',
+};
+
+const AISettingsModal: React.FC<Props> = ({ onClose }) => {
+  const [settings, setSettings] = useState<LLMSettings>(getLLMSettings());
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    saveLLMSettings(settings);
+    onClose();
+  };
+
+  const inputClass = 'mt-1 w-full rounded-xl border border-slate-200 dark:border-gray-600 px-4 py-2.5 text-sm bg-white dark:bg-gray-800 text-slate-900 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white">AI Settings</h3>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+            <X size={18} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Provider</label>
+            <select
+              value={settings.provider}
+              onChange={e => setSettings({ ...settings, provider: e.target.value as LLMProviderKind })}
+              className={inputClass}
+            >
+              {getProviders().map(p => (
+                <option key={p.kind} value={p.kind}>{p.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-[11px] text-slate-400">{PROVIDER_HINTS[settings.provider]}</p>
+          </div>
+          {settings.provider !== 'mock' && (
+            <>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Model</label>
+                <input
+                  value={settings.model}
+                  onChange={e => setSettings({ ...settings, model: e.target.value })}
+                  placeholder={settings.provider === 'openrouter' ? 'google/gemini-2.0-flash-001' : 'llama3.1:8b'}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              {settings.provider === 'openai-compatible' && (
+                <div>
+                  <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Base URL</label>
+                  <input
+                    value={settings.baseUrl}
+                    onChange={e => setSettings({ ...settings, baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              )}
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">
+                  API Key <span className="font-normal text-slate-400">(optional)</span>
+                </label>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={e => setSettings({ ...settings, apiKey: e.target.value })}
+                  className={inputClass}
+                  autoComplete="off"
+                />
+              </div>
+            </>
+          )}
+          <button
+            type="submit"
+            className="w-full bg-indigo-600 text-white rounded-xl py-2.5 text-sm font-semibold hover:bg-indigo-700"
+          >
+            Save Settings
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsModal;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { ArchitectureModel } from '../types';
+import { ARCHITECTURE_LAYERS, edgeEndpoints, layoutArchitecture, truncateLabel } from '../services/architectureService';
+
+interface Props {
+  model: ArchitectureModel;
+  selectedId?: string | null;
+  onSelect?: (componentId: string) => void;
+}
+
+/** Same layout as the SVG/PDF exports, drawn inline so components can be clicked */
+const ArchitectureDiagram: React.FC<Props> = ({ model, selectedId, onSelect }) => {
+  const layout = layoutArchitecture(model);
+
+  return (
+    <svg viewBox={`0 0 ${layout.width} ${layout.height}`} className="w-full h-auto" style={{ maxHeight: layout.height }} fontFamily="Helvetica, Arial, sans-serif">
+      <defs>
+        <marker id="architecture-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+          <path d="M0,0 L10,5 L0,10 z" fill="#64748b" />
+        </marker>
+      </defs>
+
+      {layout.lanes.map(lane => (
+        <g key={lane.layer.id}>
+          <rect x={16} y={lane.y + 4} width={layout.width - 32} height={lane.height - 8} rx={12} fill={lane.layer.fill} />
+          <text x={28} y={lane.y + lane.height / 2 + 4} fontSize={11} fontWeight="bold" fill={lane.layer.stroke}>
+            {lane.layer.label.toUpperCase()}
+          </text>
+        </g>
+      ))}
+
+      {model.edges.map(edge => {
+        const from = layout.nodes[edge.from];
+        const to = layout.nodes[edge.to];
+        if (!from || !to) return null;
+        const { x1, y1, x2, y2 } = edgeEndpoints(from, to);
+        return (
+          <g key={edge.id}>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#64748b" strokeWidth={1.5} markerEnd="url(#architecture-arrow)" />
+            {edge.label && (
+              <text x={(x1 + x2) / 2 + 4} y={(y1 + y2) / 2} fontSize={10} fill="#475569">{truncateLabel(edge.label, 18)}</text>
+            )}
+          </g>
+        );
+      })}
+
+      {model.components.map(component => {
+        const box = layout.nodes[component.id];
+        const layer = ARCHITECTURE_LAYERS.find(l => l.id === component.layer)!;
+        const selected = component.id === selectedId;
+        return (
+          <g
+            key={component.id}
+            onClick={() => onSelect?.(component.id)}
+            className={onSelect ? 'cursor-pointer' : undefined}
+          >
+            <title>{component.description || component.name}</title>
+            <rect
+              x={box.x}
+              y={box.y}
+              width={box.width}
+              height={box.height}
+              rx={10}
+              fill={selected ? layer.fill : '#ffffff'}
+              stroke={layer.stroke}
+              strokeWidth={selected ? 3 : 1.5}
+            />
+            <text x={box.x + box.width / 2} y={box.y + (component.technology ? 24 : 32)} textAnchor="middle" fontSize={12} fontWeight="bold" fill="#1e293b">
+              {truncateLabel(component.name)}
+            </text>
+            {component.technology && (
+              <text x={box.x + box.width / 2} y={box.y + 40} textAnchor="middle" fontSize={10} fill="#64748b">
+                {truncateLabel(component.technology, 26)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ArchitectureDiagram;
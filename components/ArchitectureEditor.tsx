@@ -0,0 +1,200 @@
+import React, { useRef, useState } from 'react';
+import { ArchitectureComponent, ArchitectureLayer, ArchitectureModel, Project } from '../types';
+import { geminiService } from '../services/geminiService';
+import {
+  ARCHITECTURE_LAYERS,
+  ARCHITECTURE_MARKER,
+  createComponent,
+  createEdge,
+  embedArchitectureMarker,
+  removeComponent,
+} from '../services/architectureService';
+import { exportArchitectureMermaid, exportArchitecturePng, exportArchitectureSvg } from '../services/exportService';
+import ArchitectureDiagram from './ArchitectureDiagram';
+import { FileText, Loader2, Network, Plus, Sparkles, Trash2, X } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  onUpdateProject: (project: Project) => void;
+}
+
+const inputClass = 'w-full rounded-xl border border-slate-200 px-3 py-2 text-xs bg-white text-slate-800';
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40';
+
+const ArchitectureEditor: React.FC<Props> = ({ project, onUpdateProject }) => {
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [edgeDraft, setEdgeDraft] = useState({ from: '', to: '', label: '' });
+  // A generated diagram lands on the project as it is when generation finishes
+  const projectRef = useRef(project);
+  projectRef.current = project;
+
+  const model = project.architecture;
+  const selected = model?.components.find(c => c.id === selectedId) || null;
+  const embedded = project.designDoc?.includes(ARCHITECTURE_MARKER);
+
+  const saveModel = (next: ArchitectureModel, base: Project = project) => {
+    onUpdateProject({ ...base, architecture: { ...next, updatedAt: new Date().toISOString() } });
+  };
+
+  const handleGenerate = async () => {
+    if (model && !window.confirm('Replace the current diagram, including your edits, with a newly generated one?')) return;
+    setGenerating(true);
+    setError('');
+    try {
+      const generated = await geminiService.generateArchitecture(project, !!model);
+      // Drop the result if another project was opened in the meantime
+      if (projectRef.current.id !== project.id) return;
+      saveModel(generated, projectRef.current);
+      setSelectedId(null);
+    } catch (err: any) {
+      setError(err?.message || 'Could not generate the diagram. Try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const updateComponent = (patch: Partial<ArchitectureComponent>) => {
+    if (!model || !selected) return;
+    saveModel({ ...model, components: model.components.map(c => c.id === selected.id ? { ...c, ...patch } : c) });
+  };
+
+  const handleAddComponent = () => {
+    const component = createComponent('New component', 'application');
+    saveModel({ components: [...(model?.components || []), component], edges: model?.edges || [], updatedAt: '' });
+    setSelectedId(component.id);
+  };
+
+  const handleDeleteComponent = () => {
+    if (!model || !selected) return;
+    saveModel(removeComponent(model, selected.id));
+    setSelectedId(null);
+  };
+
+  const handleAddEdge = () => {
+    if (!model || !edgeDraft.from || !edgeDraft.to || edgeDraft.from === edgeDraft.to) return;
+    saveModel({ ...model, edges: [...model.edges, createEdge(edgeDraft.from, edgeDraft.to, edgeDraft.label.trim())] });
+    setEdgeDraft({ from: '', to: '', label: '' });
+  };
+
+  const nameOf = (id: string) => model?.components.find(c => c.id === id)?.name || '?';
+
+  return (
+    <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center gap-3 mb-8">
+        <div className="bg-indigo-50 p-2 rounded-lg text-indigo-600"><Network size={24} /></div>
+        <h3 className="text-2xl font-bold text-slate-800">Architecture Diagram</h3>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <button onClick={handleGenerate} disabled={generating} className={buttonClass}>
+            {generating ? <Loader2 size={13} className="animate-spin" /> : <Sparkles size={13} />}
+            {model ? 'Regenerate' : 'Generate from strategy'}
+          </button>
+          {model && (
+            <>
+              <button onClick={() => exportArchitectureSvg(project, model)} className={buttonClass}>SVG</button>
+              <button
+                onClick={() => exportArchitecturePng(project, model).catch((err: Error) => setError(err.message))}
+                className={buttonClass}
+              >
+                PNG
+              </button>
+              <button onClick={() => exportArchitectureMermaid(project, model)} className={buttonClass}>Mermaid</button>
+              <button
+                onClick={() => onUpdateProject({ ...project, designDoc: embedArchitectureMarker(project.designDoc || '') })}
+                disabled={embedded}
+                className={buttonClass}
+                title="Show the diagram in the design doc and its PDF export"
+              >
+                <FileText size={13} /> {embedded ? 'In design doc' : 'Add to design doc'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-4">{error}</p>}
+
+      {!model ? (
+        <div className="p-6 bg-slate-50 rounded-[32px] text-sm text-slate-400 italic">
+          Turn the system architecture above and the tech stack into a layered component diagram you can edit and export.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="p-4 bg-slate-50 border border-slate-100 rounded-[32px] overflow-x-auto">
+            <ArchitectureDiagram model={model} selectedId={selectedId} onSelect={id => setSelectedId(id === selectedId ? null : id)} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Selected component */}
+            <div className="p-5 border border-slate-100 rounded-3xl space-y-2">
+              <div className="flex items-center justify-between">
+                <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Component</h5>
+                <button onClick={handleAddComponent} className="flex items-center gap-1 text-[11px] font-semibold text-indigo-600 hover:underline">
+                  <Plus size={12} /> Add
+                </button>
+              </div>
+              {selected ? (
+                <>
+                  <input value={selected.name} onChange={e => updateComponent({ name: e.target.value })} placeholder="Name" className={inputClass} />
+                  <input value={selected.technology} onChange={e => updateComponent({ technology: e.target.value })} placeholder="Technology" className={inputClass} />
+                  <select value={selected.layer} onChange={e => updateComponent({ layer: e.target.value as ArchitectureLayer })} className={inputClass}>
+                    {ARCHITECTURE_LAYERS.map(layer => <option key={layer.id} value={layer.id}>{layer.label}</option>)}
+                  </select>
+                  <textarea value={selected.description} onChange={e => updateComponent({ description: e.target.value })} rows={2} placeholder="What it does" className={inputClass} />
+                  <button onClick={handleDeleteComponent} className="flex items-center gap-1 text-[11px] font-semibold text-red-500 hover:underline">
+                    <Trash2 size={12} /> Delete component
+                  </button>
+                </>
+              ) : (
+                <p className="text-xs text-slate-400">Click a box in the diagram to edit it.</p>
+              )}
+            </div>
+
+            {/* Connections */}
+            <div className="p-5 border border-slate-100 rounded-3xl space-y-2">
+              <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Connections</h5>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {model.edges.map(edge => (
+                  <div key={edge.id} className="flex items-center gap-2 text-xs text-slate-600">
+                    <span className="truncate">{nameOf(edge.from)} → {nameOf(edge.to)}{edge.label && <span className="text-slate-400"> ({edge.label})</span>}</span>
+                    <button
+                      onClick={() => saveModel({ ...model, edges: model.edges.filter(e => e.id !== edge.id) })}
+                      className="ml-auto text-slate-300 hover:text-red-500"
+                      title="Remove connection"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+                {model.edges.length === 0 && <p className="text-xs text-slate-400">No connections yet.</p>}
+              </div>
+              <div className="grid grid-cols-2 gap-2 pt-2">
+                <select value={edgeDraft.from} onChange={e => setEdgeDraft({ ...edgeDraft, from: e.target.value })} className={inputClass}>
+                  <option value="">From…</option>
+                  {model.components.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <select value={edgeDraft.to} onChange={e => setEdgeDraft({ ...edgeDraft, to: e.target.value })} className={inputClass}>
+                  <option value="">To…</option>
+                  {model.components.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              </div>
+              <div className="flex gap-2">
+                <input value={edgeDraft.label} onChange={e => setEdgeDraft({ ...edgeDraft, label: e.target.value })} placeholder="Label (e.g. REST)" className={inputClass} />
+                <button
+                  onClick={handleAddEdge}
+                  disabled={!edgeDraft.from || !edgeDraft.to || edgeDraft.from === edgeDraft.to}
+                  className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-xs font-semibold rounded-xl"
+                >
+                  Connect
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArchitectureEditor;
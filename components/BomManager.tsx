@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import { BillOfMaterials, BomItem, BomItemStatus, Project } from '../types';
+import { geminiService } from '../services/geminiService';
+import {
+  BOM_STATUSES,
+  bomTotals,
+  createBomItem,
+  effectiveBudget,
+  emptyBom,
+  formatMoney,
+  lineTotal,
+  mergeGeneratedBom,
+  sanitizeBomItem,
+  suggestedBudget,
+} from '../services/bomService';
+import { exportBomToCsv, exportBomToXlsx } from '../services/exportService';
+import { CircuitBoard, Loader2, Plus, Sparkles, Trash2 } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  onUpdateProject: (project: Project) => void;
+}
+
+const inputClass = 'w-full rounded-lg border border-slate-200 px-2 py-1.5 text-xs bg-white text-slate-800';
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40';
+
+const BomManager: React.FC<Props> = ({ project, onUpdateProject }) => {
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+  // A generated draft is merged into the parts list as it is when generation finishes
+  const projectRef = useRef(project);
+  projectRef.current = project;
+
+  const bom = project.bom || emptyBom();
+  const totals = bomTotals(bom);
+  const budget = effectiveBudget(bom, project.profile);
+  const suggested = suggestedBudget(project.profile);
+  const money = (amount: number) => formatMoney(amount, bom.currency);
+  const hasAiItems = bom.items.some(item => item.provenance === 'ai' && item.status === 'planned');
+
+  const saveBom = (next: BillOfMaterials, base: Project = project) => onUpdateProject({ ...base, bom: next });
+
+  const updateItem = (id: string, patch: Partial<BomItem>) => {
+    saveBom({
+      ...bom,
+      items: bom.items.map(item => item.id === id ? sanitizeBomItem({ ...item, ...patch, provenance: 'manual' }) : item),
+    });
+  };
+
+  // Status changes are bookkeeping, not edits to the AI's suggestion, so provenance stays
+  const setStatus = (id: string, status: BomItemStatus) => {
+    saveBom({ ...bom, items: bom.items.map(item => item.id === id ? { ...item, status } : item) });
+  };
+
+  const handleGenerate = async () => {
+    if (hasAiItems && !window.confirm('Replace the AI-suggested parts that are still only planned? Parts you edited, ordered or received are kept.')) return;
+    setGenerating(true);
+    setError('');
+    try {
+      const items = await geminiService.generateBom(project, bom.currency, bom.items.length > 0);
+      // Drop the draft if another project was opened in the meantime
+      const latest = projectRef.current;
+      if (latest.id !== project.id) return;
+      saveBom(mergeGeneratedBom(latest.bom, items), latest);
+    } catch (err: any) {
+      setError(err?.message || 'Could not generate the bill of materials. Try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleBudgetChange = (value: string) => {
+    const amount = parseFloat(value);
+    saveBom({ ...bom, budget: value.trim() === '' || Number.isNaN(amount) ? undefined : Math.max(0, amount) });
+  };
+
+  const percentOf = (amount: number) => budget ? Math.min(100, (amount / budget) * 100) : 0;
+  const overBudget = budget !== undefined && totals.total > budget;
+
+  return (
+    <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center gap-3 mb-8">
+        <div className="bg-amber-50 p-2 rounded-lg text-amber-600"><CircuitBoard size={24} /></div>
+        <h3 className="text-2xl font-bold text-slate-800">Bill of Materials</h3>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <button onClick={handleGenerate} disabled={generating} className={buttonClass}>
+            {generating ? <Loader2 size={13} className="animate-spin" /> : <Sparkles size={13} />}
+            {bom.items.length ? 'Regenerate' : 'Generate from blueprint'}
+          </button>
+          <button onClick={() => saveBom({ ...bom, items: [...bom.items, createBomItem({ provenance: 'manual' })] })} className={buttonClass}>
+            <Plus size={13} /> Add part
+          </button>
+          {bom.items.length > 0 && (
+            <>
+              <button onClick={() => exportBomToCsv(project)} className={buttonClass}>CSV</button>
+              <button onClick={() => exportBomToXlsx(project)} className={buttonClass}>XLSX</button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-4">{error}</p>}
+
+      {/* Running total against budget */}
+      <div className="p-5 bg-slate-50 border border-slate-100 rounded-3xl mb-6">
+        <div className="flex flex-wrap items-end gap-6 mb-3">
+          <div>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Total</p>
+            <p className={`text-2xl font-bold ${overBudget ? 'text-rose-600' : 'text-slate-800'}`}>{money(totals.total)}</p>
+          </div>
+          <div className="text-xs text-slate-500 space-y-0.5">
+            <p>Committed (ordered + received): <span className="font-semibold text-slate-700">{money(totals.committed)}</span></p>
+            <p>Still planned: <span className="font-semibold text-slate-700">{money(totals.byStatus.planned)}</span></p>
+          </div>
+          <div className="ml-auto flex items-end gap-2">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              Currency
+              <input
+                value={bom.currency}
+                onChange={e => saveBom({ ...bom, currency: e.target.value })}
+                className={`${inputClass} w-16 mt-1`}
+              />
+            </label>
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              Budget
+              <input
+                type="number"
+                min={0}
+                value={bom.budget ?? ''}
+                onChange={e => handleBudgetChange(e.target.value)}
+                placeholder={suggested !== undefined ? String(suggested) : 'Amount'}
+                className={`${inputClass} w-28 mt-1`}
+              />
+            </label>
+          </div>
+        </div>
+        {budget !== undefined ? (
+          <>
+            <div className="h-2.5 rounded-full bg-slate-200 overflow-hidden flex">
+              <div className="h-full bg-emerald-500" style={{ width: `${percentOf(totals.committed)}%` }} />
+              <div className="h-full bg-indigo-300" style={{ width: `${Math.max(0, percentOf(totals.total) - percentOf(totals.committed))}%` }} />
+            </div>
+            <p className={`text-xs mt-2 ${overBudget ? 'text-rose-600 font-semibold' : 'text-slate-500'}`}>
+              {overBudget
+                ? `${money(totals.total - budget)} over the ${money(budget)} budget`
+                : `${money(budget - totals.total)} left of ${money(budget)}`}
+              {bom.budget === undefined && ` (suggested from "${project.profile?.budgetConstraint}")`}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-slate-400">Set a budget to track spending against it.</p>
+        )}
+      </div>
+
+      {bom.items.length === 0 ? (
+        <div className="p-6 bg-slate-50 rounded-[32px] text-sm text-slate-400 italic">
+          {project.profile?.hasHardwareComponent
+            ? 'Generate a starting parts list from the blueprint, or add parts by hand.'
+            : 'No hardware in this project\'s profile. Add parts here if the build needs any.'}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                <th className="pb-2 pr-2">Component</th>
+                <th className="pb-2 pr-2 w-16">Qty</th>
+                <th className="pb-2 pr-2 w-24">Unit cost</th>
+                <th className="pb-2 pr-2">Vendor</th>
+                <th className="pb-2 pr-2 w-28">Status</th>
+                <th className="pb-2 pr-2 text-right">Line total</th>
+                <th className="pb-2 w-6" />
+              </tr>
+            </thead>
+            <tbody>
+              {bom.items.map(item => (
+                <tr key={item.id} className="border-t border-slate-100 align-top">
+                  <td className="py-2 pr-2">
+                    <input value={item.name} onChange={e => updateItem(item.id, { name: e.target.value })} placeholder="Part name" className={inputClass} />
+                    <input value={item.purpose} onChange={e => updateItem(item.id, { purpose: e.target.value })} placeholder="Used for…" className={`${inputClass} mt-1 text-slate-500`} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input type="number" min={1} value={item.quantity} onChange={e => updateItem(item.id, { quantity: Number(e.target.value) })} className={inputClass} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input type="number" min={0} value={item.unitCost} onChange={e => updateItem(item.id, { unitCost: Number(e.target.value) })} className={inputClass} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <input value={item.vendor} onChange={e => updateItem(item.id, { vendor: e.target.value })} placeholder="Vendor" className={inputClass} />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <select
+                      value={item.status}
+                      onChange={e => setStatus(item.id, e.target.value as BomItemStatus)}
+                      className={`${inputClass} font-semibold ${BOM_STATUSES.find(s => s.id === item.status)?.className}`}
+                    >
+                      {BOM_STATUSES.map(status => <option key={status.id} value={status.id}>{status.label}</option>)}
+                    </select>
+                    {item.provenance === 'ai' && (
+                      <span className="inline-block mt-1 text-[9px] font-bold uppercase tracking-wider text-violet-600">AI estimate</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-right font-semibold text-slate-700 whitespace-nowrap">{money(lineTotal(item))}</td>
+                  <td className="py-2">
+                    <button
+                      onClick={() => saveBom({ ...bom, items: bom.items.filter(i => i.id !== item.id) })}
+                      className="text-slate-300 hover:text-red-500 mt-1.5"
+                      title="Remove part"
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BomManager;
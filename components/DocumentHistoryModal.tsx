@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { AppUser, DocRevision, DocumentKey, Project } from '../types';
+import {
+  cherryPickSection,
+  diffLines,
+  DiffLine,
+  diffStats,
+  getRevisions,
+  recordRevision,
+  sideBySide,
+  splitSections,
+} from '../services/docRevisionService';
+import { getDocumentText } from '../services/documentTypes';
+import { History, RotateCcw, X } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  docKey: DocumentKey;
+  docLabel: string;
+  currentUser: AppUser;
+  onUpdateProject: (project: Project) => void;
+  onClose: () => void;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-slate-600',
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-red-50 text-red-700 line-through decoration-red-300',
+};
+
+const LINE_PREFIX: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '−' };
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const DiffRow: React.FC<{ line?: DiffLine }> = ({ line }) => (
+  <div className={`px-3 py-0.5 whitespace-pre-wrap break-words min-h-[1.5em] ${line ? LINE_STYLES[line.type] : 'bg-slate-50'}`}>
+    {line && <><span className="select-none text-slate-400 mr-2">{LINE_PREFIX[line.type]}</span>{line.text}</>}
+  </div>
+);
+
+const DocumentHistoryModal: React.FC<Props> = ({ project, docKey, docLabel, currentUser, onUpdateProject, onClose }) => {
+  const revisions = getRevisions(project, docKey);
+  const current = getDocumentText(project, docKey);
+  const [selectedId, setSelectedId] = useState<string | null>(revisions[revisions.length - 1]?.id ?? null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [mode, setMode] = useState<'inline' | 'side'>('inline');
+
+  const selectedIndex = Math.max(0, revisions.findIndex(r => r.id === selectedId));
+  const selected: DocRevision | undefined = revisions[selectedIndex];
+  // Defaults to the revision just before the selected one
+  const compare = revisions.find(r => r.id === compareId) ?? revisions[selectedIndex - 1];
+  const lines = selected ? diffLines(compare?.text ?? '', selected.text) : [];
+  const stats = diffStats(lines);
+
+  const currentSections = new Map(splitSections(current).map(s => [s.key, s.text]));
+  const pickableSections = selected ? splitSections(selected.text).filter(s => currentSections.get(s.key) !== s.text) : [];
+
+  const numberOf = (revision: DocRevision) => revisions.indexOf(revision) + 1;
+
+  const handleRestore = () => {
+    if (!selected || !window.confirm(`Replace the current ${docLabel} with version #${numberOf(selected)}? The current text stays in the history.`)) return;
+    onUpdateProject(recordRevision(project, docKey, selected.text, {
+      author: currentUser.fullName,
+      source: 'manual',
+      note: `Restored version #${numberOf(selected)} from ${formatTime(selected.createdAt)}`,
+    }));
+  };
+
+  const handleCherryPick = (sectionKey: string, title: string) => {
+    if (!selected) return;
+    onUpdateProject(recordRevision(project, docKey, cherryPickSection(current, selected.text, sectionKey), {
+      author: currentUser.fullName,
+      source: 'manual',
+      note: `"${title}" taken from version #${numberOf(selected)}`,
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-6xl w-full h-[88vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800 dark:text-white">
+            <History size={18} /> {docLabel} history
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+            <X size={18} />
+          </button>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="p-6 text-sm text-slate-400">No revisions yet. Regenerating or editing the document starts its history.</p>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            {/* ── Revisions ─────────────────────────────────────────── */}
+            <aside className="w-64 shrink-0 border-r border-slate-100 dark:border-gray-700 p-3 overflow-y-auto space-y-1.5">
+              {[...revisions].reverse().map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => {
+                    setSelectedId(revision.id);
+                    setCompareId(null);
+                  }}
+                  className={`w-full text-left rounded-xl border px-3 py-2 ${
+                    revision.id === selected?.id ? 'border-indigo-300 bg-indigo-50/60' : 'border-slate-100 dark:border-gray-700 hover:bg-slate-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-bold text-slate-700 dark:text-gray-200">#{numberOf(revision)}</span>
+                    <span className={`text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${
+                      revision.source === 'ai' ? 'bg-violet-50 text-violet-600' : 'bg-slate-100 text-slate-600'
+                    }`}>
+                      {revision.source === 'ai' ? 'AI' : 'Manual'}
+                    </span>
+                    {revision.text === current && <span className="ml-auto text-[10px] font-medium text-emerald-600">current</span>}
+                  </div>
+                  {revision.note && <p className="text-[11px] text-slate-500 mt-0.5">{revision.note}</p>}
+                  <p className="text-[10px] text-slate-400 mt-0.5">{revision.author} · {formatTime(revision.createdAt)}</p>
+                </button>
+              ))}
+            </aside>
+
+            {/* ── Diff ──────────────────────────────────────────────── */}
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex flex-wrap items-center gap-3 px-5 py-3 border-b border-slate-100 dark:border-gray-700 text-xs">
+                  <span className="text-slate-500">Compare</span>
+                  <select
+                    value={compare?.id ?? ''}
+                    onChange={e => setCompareId(e.target.value || null)}
+                    className="rounded-lg border border-slate-200 px-2 py-1 bg-white text-slate-700"
+                  >
+                    {selectedIndex === 0 && <option value="">(empty)</option>}
+                    {revisions.filter(r => r.id !== selected.id).map(r => (
+                      <option key={r.id} value={r.id}>#{numberOf(r)} · {r.author} · {formatTime(r.createdAt)}</option>
+                    ))}
+                  </select>
+                  <span className="text-slate-500">with #{numberOf(selected)}</span>
+                  <span className="font-semibold text-emerald-600">+{stats.added}</span>
+                  <span className="font-semibold text-red-500">−{stats.removed}</span>
+                  <div className="ml-auto flex bg-slate-100 rounded-lg p-0.5">
+                    {(['inline', 'side'] as const).map(m => (
+                      <button
+                        key={m}
+                        onClick={() => setMode(m)}
+                        className={`px-2.5 py-1 rounded-md font-semibold ${mode === m ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+                      >
+                        {m === 'inline' ? 'Inline' : 'Side by side'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto font-mono text-xs leading-relaxed">
+                  {mode === 'inline'
+                    ? lines.map((line, i) => <DiffRow key={i} line={line} />)
+                    : sideBySide(lines).map((row, i) => (
+                      <div key={i} className="grid grid-cols-2 divide-x divide-slate-100">
+                        <DiffRow line={row.left} />
+                        <DiffRow line={row.right} />
+                      </div>
+                    ))}
+                </div>
+
+                <div className="px-5 py-4 border-t border-slate-100 dark:border-gray-700 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={handleRestore}
+                      disabled={selected.text === current}
+                      className="flex items-center gap-1.5 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-xs font-semibold rounded-xl"
+                    >
+                      <RotateCcw size={13} /> Restore #{numberOf(selected)}
+                    </button>
+                    <span className="text-[11px] text-slate-400">Or take a single section from this version:</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 max-h-24 overflow-y-auto">
+                    {pickableSections.length === 0 && <span className="text-[11px] text-slate-400">Every section matches the current text.</span>}
+                    {pickableSections.map(section => (
+                      <button
+                        key={section.key || 'preamble'}
+                        onClick={() => handleCherryPick(section.key, section.title)}
+                        className="px-2.5 py-1 text-[11px] font-medium rounded-lg border border-slate-200 text-slate-600 hover:border-indigo-200 hover:text-indigo-700"
+                        title={currentSections.has(section.key) ? 'Replace the current section with this one' : 'Not in the current text; insert it'}
+                      >
+                        {section.title}{!currentSections.has(section.key) && ' (add)'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentHistoryModal;
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArchitectureModel, CitationStyle, Reference } from '../types';
+import { missingOutlineEntries, nextNumbers, normalizeMarkdown, renumberHeadings } from '../services/docFormatService';
+import { ARCHITECTURE_MARKER } from '../services/architectureService';
+import { citationMarker, unknownCitations } from '../services/citationService';
+import FormattedDocContent from './FormattedDocContent';
+import { AlertTriangle, Bold, Check, Heading1, Heading2, Italic, List, ListOrdered, Loader2, Network, Quote, Tag } from 'lucide-react';
+
+interface Props {
+  /** Stored document text; read once when the editor opens */
+  value: string;
+  architecture?: ArchitectureModel;
+  /** The project's reference library, offered by the Cite tool and used by the preview */
+  references?: Reference[];
+  citationStyle?: CitationStyle;
+  /** Receives the normalised text after a pause in typing and when the editor closes */
+  onSave: (text: string) => void;
+}
+
+const AUTOSAVE_DELAY_MS = 800;
+
+const toolClass = 'p-1.5 rounded-lg text-slate-500 hover:bg-white hover:text-slate-800 hover:shadow-sm';
+
+const DocumentMarkdownEditor: React.FC<Props> = ({ value, architecture, references = [], citationStyle, onSave }) => {
+  const [draft, setDraft] = useState(value);
+  const [citing, setCiting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const baselineRef = useRef(value);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const timerRef = useRef<number | null>(null);
+  const pendingRef = useRef<string | null>(null);
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+
+  const flush = () => {
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = null;
+    if (pendingRef.current !== null) onSaveRef.current(normalizeMarkdown(pendingRef.current));
+    pendingRef.current = null;
+    setSaving(false);
+  };
+
+  // Save whatever is still pending when the editor closes or switches document
+  useEffect(() => () => flush(), []);
+
+  const update = (text: string) => {
+    setDraft(text);
+    pendingRef.current = text;
+    setSaving(true);
+    if (timerRef.current !== null) window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(flush, AUTOSAVE_DELAY_MS);
+  };
+
+  /** Replace the selection, keeping focus and placing the cursor after the inserted text */
+  const replaceSelection = (build: (selected: string, start: number) => string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const inserted = build(draft.slice(selectionStart, selectionEnd), selectionStart);
+    update(draft.slice(0, selectionStart) + inserted + draft.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + inserted.length;
+    });
+  };
+
+  /** Insert a block on its own line below the cursor */
+  const insertBlock = (block: string) => {
+    replaceSelection((selected, start) => {
+      const atLineStart = start === 0 || draft[start - 1] === '\n';
+      return `${atLineStart ? '' : '\n'}${block}${selected}\n`;
+    });
+  };
+
+  const numbers = nextNumbers(draft);
+  const normalized = normalizeMarkdown(draft);
+  const missing = missingOutlineEntries(baselineRef.current, normalized);
+  const needsRenumber = renumberHeadings(normalized) !== normalized;
+  const unknownKeys = unknownCitations(normalized, references);
+
+  const insertCitation = (reference: Reference) => {
+    replaceSelection(() => citationMarker(reference));
+    setCiting(false);
+  };
+
+  const tools = [
+    { icon: Tag, title: 'Section label (BACKGROUND:)', run: () => insertBlock('LABEL: ') },
+    { icon: Heading1, title: `Numbered heading (${numbers.heading}.)`, run: () => insertBlock(`${numbers.heading}. Heading`) },
+    { icon: Heading2, title: `Sub-heading (${numbers.subheading})`, run: () => insertBlock(`${numbers.subheading} Sub-heading`) },
+    { icon: List, title: 'Bullet', run: () => insertBlock('- ') },
+    { icon: ListOrdered, title: `Requirement (FR${numbers.requirement})`, run: () => insertBlock(`- FR${numbers.requirement}: `) },
+    { icon: Bold, title: 'Bold', run: () => replaceSelection(selected => `**${selected || 'bold'}**`) },
+    { icon: Italic, title: 'Italic', run: () => replaceSelection(selected => `*${selected || 'italic'}*`) },
+    { icon: Network, title: 'Architecture diagram', run: () => insertBlock(ARCHITECTURE_MARKER) },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-1 p-1.5 bg-slate-50 border border-slate-100 rounded-xl">
+        {tools.map(tool => (
+          <button key={tool.title} onClick={tool.run} title={tool.title} aria-label={tool.title} className={toolClass}>
+            <tool.icon size={15} />
+          </button>
+        ))}
+        <div className="relative">
+          <button onClick={() => setCiting(!citing)} title="Cite a reference" aria-label="Cite a reference" className={toolClass}>
+            <Quote size={15} />
+          </button>
+          {citing && (
+            <div className="absolute left-0 top-full mt-1 z-20 w-80 max-h-64 overflow-y-auto bg-white border border-slate-200 rounded-xl shadow-lg p-1">
+              {references.length === 0 && (
+                <p className="px-3 py-2 text-xs text-slate-400">The reference library is empty. Add entries with the References button.</p>
+              )}
+              {references.map(reference => (
+                <button
+                  key={reference.id}
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={() => insertCitation(reference)}
+                  className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-50"
+                >
+                  <span className="block text-xs font-semibold text-slate-700 truncate">{reference.title}</span>
+                  <span className="block text-[10px] font-mono text-slate-400">{citationMarker(reference)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {needsRenumber && (
+          <button
+            onClick={() => update(renumberHeadings(normalized))}
+            className="ml-2 px-2.5 py-1 text-[11px] font-semibold rounded-lg bg-amber-50 text-amber-700 border border-amber-100 hover:bg-amber-100"
+          >
+            Renumber headings
+          </button>
+        )}
+        <span className="ml-auto flex items-center gap-1 pr-2 text-[11px] font-semibold text-slate-400">
+          {saving ? <><Loader2 size={12} className="animate-spin" /> Saving…</> : <><Check size={12} /> Saved</>}
+        </span>
+      </div>
+
+      {unknownKeys.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>Not in the reference library: {unknownKeys.map(key => `[@${key}]`).join(', ')}. Add them there or fix the cite key.</span>
+        </div>
+      )}
+
+      {missing.length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800">
+          <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+          <span>
+            No longer found: {missing.map(entry => entry.text).join(', ')}. Labels must stay upper-case with a colon, and headings must
+            start with their number, for the section to show up in the preview and PDF.
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={e => update(e.target.value)}
+          onBlur={flush}
+          spellCheck
+          className="min-h-[60vh] w-full p-5 rounded-2xl border border-slate-200 bg-white text-sm font-mono leading-relaxed text-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+          aria-label="Document text"
+        />
+        <div className="min-h-[60vh] max-h-[80vh] overflow-y-auto p-5 rounded-2xl border border-slate-100 bg-slate-50/40">
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Preview</p>
+          <FormattedDocContent text={normalized} architecture={architecture} references={references} citationStyle={citationStyle} />
+        </div>
+      </div>
+      <p className="text-[11px] text-slate-400">
+        Markdown works too: <code># 2. Heading</code>, <code>## Background</code> (becomes a label), <code>**bold**</code>, <code>*italic*</code>,{' '}
+        <code>`code`</code> and <code>* bullets</code>. Cite with <code>[@key]</code> or <code>[@a; @b]</code>.
+      </p>
+    </div>
+  );
+};
+
+export default DocumentMarkdownEditor;
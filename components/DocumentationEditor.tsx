@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { AppUser, FileAttachment, Project } from '../types';
+import { AppUser, DocumentKey, FileAttachment, Project } from '../types';
 import { 
   Download, 
   Copy, 
@@ -10,140 +10,143 @@ import {
   FileCheck,
   Type,
   Paperclip,
-  Trash2
+  Trash2,
+  RefreshCcw,
+  Square,
+  PencilLine,
+  Eye,
+  History,
+  Sparkles,
+  ChevronDown,
+  ClipboardList,
+  Library,
+  FlaskConical,
+  BookOpen,
+  BookMarked,
+  type LucideIcon
 } from 'lucide-react';
 import { uploadFile, getAttachmentIcon, formatBytes } from '../services/fileUploadService';
-import { exportProjectDocumentationPDF } from '../services/exportService';
-
-// ── Structured document renderer ────────────────────────────────────────────
-// Parses the strict academic formatting and renders with proper visual hierarchy
-
-const FormattedDocContent: React.FC<{ text: string }> = ({ text }) => {
-  if (!text) return <p className="text-slate-400 italic">No content generated yet.</p>;
-
-  const lines = text.split('\n');
-  const elements: React.ReactNode[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trim();
-
-    if (trimmed === '') {
-      elements.push(<div key={i} className="h-3" />);
-      continue;
-    }
-
-    // Section labels like "BACKGROUND:", "PROBLEM STATEMENT:", "EXPECTED RESULTS:", etc.
-    if (/^[A-Z][A-Z &/]+:/.test(trimmed) && !trimmed.startsWith('- ') && !trimmed.startsWith('FR')) {
-      const colonIdx = trimmed.indexOf(':');
-      const label = trimmed.slice(0, colonIdx);
-      const rest = trimmed.slice(colonIdx + 1).trim();
-
-      elements.push(
-        <div key={i} className="mt-6 mb-2">
-          <span className="inline-block bg-indigo-50 text-indigo-700 text-xs font-bold uppercase tracking-widest px-3 py-1.5 rounded-lg border border-indigo-100">
-            {label}
-          </span>
-          {rest && <p className="mt-2 text-slate-700 leading-relaxed">{rest}</p>}
-        </div>
-      );
-      continue;
-    }
-
-    // Top-level numbered headings: "1. Introduction", "2. Problem Definition"
-    if (/^\d+\.\s+[A-Z]/.test(trimmed) && !/^\d+\.\d+/.test(trimmed)) {
-      elements.push(
-        <h3 key={i} className="text-xl font-bold text-slate-900 mt-8 mb-3 pb-2 border-b border-slate-100">
-          {trimmed}
-        </h3>
-      );
-      continue;
-    }
-
-    // Sub-numbered headings: "1.1 Purpose", "2.1 Existing System", "4.2 Scalability"
-    if (/^\d+\.\d+\s+/.test(trimmed)) {
-      elements.push(
-        <h4 key={i} className="text-base font-semibold text-slate-800 mt-5 mb-2 ml-2">
-          {trimmed}
-        </h4>
-      );
-      continue;
-    }
-
-    // Functional requirement lines: "- FR1:", "- FR2:", or standalone "FR1:"
-    if (/^-?\s*FR\d+:/.test(trimmed)) {
-      const label = trimmed.match(/FR\d+/)?.[0] || '';
-      const rest = trimmed.replace(/^-?\s*FR\d+:\s*/, '');
-      elements.push(
-        <div key={i} className="flex gap-3 ml-4 my-1.5">
-          <span className="shrink-0 bg-rose-50 text-rose-600 text-[10px] font-bold px-2 py-0.5 rounded border border-rose-100 mt-0.5">{label}</span>
-          <span className="text-slate-700">{rest}</span>
-        </div>
-      );
-      continue;
-    }
-
-    // Arrow-notation data flow: "- Step 1 →", "Step 2 →"
-    if (/^-?\s*Step\s+\d+\s*→/i.test(trimmed)) {
-      const rest = trimmed.replace(/^-?\s*/, '');
-      elements.push(
-        <div key={i} className="flex items-start gap-3 ml-4 my-1.5 bg-blue-50/50 border border-blue-100 rounded-lg px-3 py-2">
-          <span className="text-blue-500 mt-0.5 shrink-0">→</span>
-          <span className="text-slate-700 text-sm">{rest}</span>
-        </div>
-      );
-      continue;
-    }
-
-    // Bullet points: "- item"
-    if (/^-\s+/.test(trimmed)) {
-      elements.push(
-        <div key={i} className="flex items-start gap-2.5 ml-4 my-1">
-          <span className="text-indigo-400 mt-1.5 shrink-0 text-[6px]">●</span>
-          <span className="text-slate-700">{trimmed.slice(2)}</span>
-        </div>
-      );
-      continue;
-    }
-
-    // Regular paragraph
-    elements.push(
-      <p key={i} className="text-slate-700 leading-relaxed my-1">{trimmed}</p>
-    );
-  }
-
-  return <>{elements}</>;
-};
+import {
+  exportProjectDocumentationDocx,
+  exportProjectDocumentationLatex,
+  exportProjectDocumentationMarkdown,
+  exportProjectDocumentationPDF,
+} from '../services/exportService';
+import { geminiService, cleanDocumentText } from '../services/geminiService';
+import { isAbortError } from '../services/llmProvider';
+import { getRevisions, recordRevision } from '../services/docRevisionService';
+import { DOCUMENT_TYPES, getDocumentText, getDocumentType } from '../services/documentTypes';
+import { renderCitations } from '../services/citationService';
+import FormattedDocContent from './FormattedDocContent';
+import DocumentMarkdownEditor from './DocumentMarkdownEditor';
+import DocumentHistoryModal from './DocumentHistoryModal';
+import ReferenceLibraryModal from './ReferenceLibraryModal';
 
 interface Props {
   project: Project;
   onUpdateProject: (project: Project) => void;
   currentUser: AppUser;
+  /** Document to show first, e.g. when following a chat citation */
+  initialDocument?: DocumentKey;
 }
 
-const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, currentUser }) => {
-  const [activeTab, setActiveTab] = useState<'abstract' | 'prd' | 'dd'>('abstract');
+const TAB_ICONS: Partial<Record<DocumentKey, LucideIcon>> = {
+  abstract: Type,
+  prd: FileCheck,
+  designDoc: Settings,
+  srs: ClipboardList,
+  literatureSurvey: Library,
+  testPlan: FlaskConical,
+  userManual: BookOpen,
+  finalReport: BookMarked,
+};
+
+const EXPORT_FORMATS: { label: string; run: (project: Project, section: DocumentKey | 'all') => void | Promise<void> }[] = [
+  { label: 'PDF', run: exportProjectDocumentationPDF },
+  { label: 'Word (.docx)', run: exportProjectDocumentationDocx },
+  { label: 'LaTeX for Overleaf (.zip)', run: exportProjectDocumentationLatex },
+  { label: 'Markdown', run: exportProjectDocumentationMarkdown },
+];
+
+const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, currentUser, initialDocument }) => {
+  const [activeTab, setActiveTab] = useState<DocumentKey>('abstract');
   const [attachments, setAttachments] = useState<FileAttachment[]>(project.documentationAttachments || []);
   const [uploading, setUploading] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showReferences, setShowReferences] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Generation and uploads take a while; their results go into the project as it is when they finish
+  const projectRef = useRef(project);
+  projectRef.current = project;
 
   useEffect(() => {
     setAttachments(project.documentationAttachments || []);
   }, [project.id]);
 
-  const content = {
-    abstract: project.abstract,
-    prd: project.prd,
-    dd: project.designDoc
-  };
+  useEffect(() => {
+    if (initialDocument) setActiveTab(initialDocument);
+  }, [initialDocument]);
+
+  // Stop any in-flight generation when leaving the editor or switching project
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, [project.id]);
 
-  const handleExport = () => {
-    exportProjectDocumentationPDF(project, activeTab);
+  const activeType = getDocumentType(activeTab);
+  const content = getDocumentText(project, activeTab);
+  const revisionCount = getRevisions(project, activeTab).length;
+  const references = project.references || [];
+
+  const handleExport = async (format: typeof EXPORT_FORMATS[number], section: DocumentKey | 'all') => {
+    setShowExportMenu(false);
+    try {
+      await format.run(project, section);
+    } catch (err: any) {
+      alert(err.message || 'Export failed');
+    }
   };
 
   const handleCopy = async () => {
-    const text = content[activeTab] || '';
-    await navigator.clipboard.writeText(text);
+    await navigator.clipboard.writeText(renderCitations(content, references, project.citationStyle));
+  };
+
+  const handleRegenerate = async () => {
+    const field = activeTab;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreamingText('');
+
+    let text = '';
+    try {
+      const profile = {
+        department: project.profile?.department || currentUser.department || 'CSE',
+        techPreferences: project.techStack.map(t => t.name),
+      };
+      for await (const delta of geminiService.streamDocument(field, project, profile, controller.signal, true)) {
+        text += delta;
+        setStreamingText(text);
+      }
+      onUpdateProject(recordRevision(projectRef.current, field, cleanDocumentText(text), { author: currentUser.fullName, source: 'ai' }));
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        alert(err.message || 'Generation failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setStreamingText(null);
+    }
+  };
+
+  const handleSaveEdit = (text: string) => {
+    onUpdateProject(recordRevision(project, activeTab, text, { author: currentUser.fullName, source: 'manual' }));
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
   const handleAttachFiles = async (files: FileList | null) => {
@@ -155,10 +158,12 @@ const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, curren
         const att = await uploadFile(files[i], currentUser.fullName);
         uploaded.push(att);
       }
-      const updated = [...attachments, ...uploaded];
+      const latest = projectRef.current;
+      if (latest.id !== project.id) return;
+      const updated = [...(latest.documentationAttachments || []), ...uploaded];
       setAttachments(updated);
       onUpdateProject({
-        ...project,
+        ...latest,
         documentationAttachments: updated,
       });
     } catch (err: any) {
@@ -179,27 +184,77 @@ const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, curren
 
   return (
     <div className="h-full flex flex-col space-y-6">
-      <div className="flex items-center justify-between">
-        <div className="flex bg-white dark:bg-gray-200 p-1 rounded-2xl border border-slate-200 dark:border-gray-300 shadow-sm">
-          {[
-            { id: 'abstract', label: 'Abstract', icon: Type },
-            { id: 'prd', label: 'PRD', icon: FileCheck },
-            { id: 'dd', label: 'Design Doc', icon: Settings },
-          ].map((tab) => (
-            <button
-              key={tab.id}
-              onClick={() => setActiveTab(tab.id as any)}
-              className={`flex items-center gap-2 px-6 py-2 rounded-xl text-sm font-semibold transition-all ${
-                activeTab === tab.id ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-500 dark:text-gray-700 hover:text-slate-800 hover:bg-slate-50'
-              }`}
-            >
-              <tab.icon size={16} />
-              {tab.label}
-            </button>
-          ))}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap bg-white dark:bg-gray-200 p-1 rounded-2xl border border-slate-200 dark:border-gray-300 shadow-sm">
+          {DOCUMENT_TYPES.map((type) => {
+            const Icon = TAB_ICONS[type.key] || FileText;
+            const empty = !getDocumentText(project, type.key).trim();
+            return (
+              <button
+                key={type.key}
+                onClick={() => setActiveTab(type.key)}
+                disabled={streamingText !== null}
+                title={type.description}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold transition-all ${
+                  activeTab === type.key
+                    ? 'bg-indigo-600 text-white shadow-md'
+                    : `${empty ? 'text-slate-400' : 'text-slate-500'} dark:text-gray-700 hover:text-slate-800 hover:bg-slate-50`
+                }`}
+              >
+                <Icon size={16} />
+                {type.label}
+              </button>
+            );
+          })}
         </div>
 
         <div className="flex items-center gap-3">
+          {streamingText !== null ? (
+            <button
+              onClick={handleStop}
+              className="flex items-center gap-2 bg-rose-600 text-white px-4 py-2.5 rounded-xl font-bold hover:bg-rose-700 transition-all shadow-lg"
+            >
+              <Square size={14} fill="currentColor" /> Stop
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => setEditing(!editing)}
+                className={`flex items-center gap-2 px-4 py-2.5 rounded-xl font-bold border transition-all ${
+                  editing ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-700 border-slate-200 hover:border-indigo-200 hover:text-indigo-700'
+                }`}
+              >
+                {editing ? <><Eye size={16} /> Done</> : <><PencilLine size={16} /> Edit</>}
+              </button>
+              <button
+                onClick={handleRegenerate}
+                disabled={editing}
+                className="flex items-center gap-2 bg-white text-slate-700 px-4 py-2.5 rounded-xl font-bold border border-slate-200 hover:border-indigo-200 hover:text-indigo-700 transition-all disabled:opacity-40 disabled:pointer-events-none"
+              >
+                {content.trim() ? <><RefreshCcw size={16} /> Regenerate</> : <><Sparkles size={16} /> Generate</>}
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setShowHistory(true)}
+            disabled={editing || streamingText !== null}
+            className="flex items-center gap-1.5 p-2 text-slate-500 hover:bg-white hover:shadow-sm rounded-xl transition-all border border-transparent hover:border-slate-200 disabled:opacity-40"
+            aria-label="Revision history"
+            title="Revision history"
+          >
+            <History size={20} />
+            {revisionCount > 0 && <span className="text-xs font-bold">{revisionCount}</span>}
+          </button>
+          <button
+            onClick={() => setShowReferences(true)}
+            disabled={streamingText !== null}
+            className="flex items-center gap-1.5 p-2 text-slate-500 hover:bg-white hover:shadow-sm rounded-xl transition-all border border-transparent hover:border-slate-200 disabled:opacity-40"
+            aria-label="Reference library"
+            title="Reference library"
+          >
+            <BookMarked size={20} />
+            {references.length > 0 && <span className="text-xs font-bold">{references.length}</span>}
+          </button>
           <button
             onClick={handleCopy}
             className="p-2 text-slate-500 hover:bg-white hover:shadow-sm rounded-xl transition-all border border-transparent hover:border-slate-200"
@@ -207,12 +262,36 @@ const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, curren
           >
             <Copy size={20} />
           </button>
-          <button
-            onClick={handleExport}
-            className="flex items-center gap-2 bg-slate-800 text-white px-5 py-2.5 rounded-xl font-bold hover:bg-slate-900 transition-all shadow-lg"
-          >
-            <Download size={18} /> Export PDF
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className="flex items-center gap-2 bg-slate-800 text-white px-5 py-2.5 rounded-xl font-bold hover:bg-slate-900 transition-all shadow-lg"
+            >
+              <Download size={18} /> Export <ChevronDown size={16} />
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 top-full mt-2 z-30 w-80 bg-white border border-slate-200 rounded-2xl shadow-xl p-2">
+                {EXPORT_FORMATS.map(format => (
+                  <div key={format.label} className="flex items-center gap-2 px-2 py-1.5 rounded-xl hover:bg-slate-50">
+                    <span className="flex-1 text-sm font-semibold text-slate-700">{format.label}</span>
+                    <button
+                      onClick={() => handleExport(format, activeTab)}
+                      disabled={!content.trim()}
+                      className="px-2 py-1 text-[11px] font-semibold rounded-lg border border-slate-200 text-slate-600 hover:border-indigo-200 hover:text-indigo-700 disabled:opacity-40"
+                    >
+                      {activeType.label}
+                    </button>
+                    <button
+                      onClick={() => handleExport(format, 'all')}
+                      className="px-2 py-1 text-[11px] font-semibold rounded-lg border border-slate-200 text-slate-600 hover:border-indigo-200 hover:text-indigo-700"
+                    >
+                      All
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -220,7 +299,7 @@ const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, curren
         <div className="p-4 border-b border-slate-100 bg-slate-50/50 dark:bg-gray-100 flex items-center justify-between shrink-0">
           <div className="flex items-center gap-2 text-slate-500 text-xs font-bold uppercase tracking-widest">
             <FileText size={14} />
-            Editor Mode: Read-Only (Generated)
+            {streamingText !== null ? 'Generating…' : editing ? 'Editor Mode: Editing (autosaved)' : 'Editor Mode: Read-Only (Generated)'}
           </div>
           <button className="text-slate-400 hover:text-slate-600" aria-label="Expand editor">
             <Maximize2 size={16} />
@@ -228,11 +307,25 @@ const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, curren
         </div>
         <div className="flex-1 p-10 overflow-y-auto text-base leading-relaxed text-slate-700 selection:bg-indigo-100 selection:text-indigo-900 font-sans">
           <h2 className="text-3xl font-bold text-slate-900 dark:text-gray-900 mb-8 pb-4 border-b border-slate-100 dark:border-gray-200">
-            {activeTab === 'abstract' && 'Academic Abstract'}
-            {activeTab === 'prd' && 'Product Requirements Document'}
-            {activeTab === 'dd' && 'System Design Document'}
+            {activeType.title}
           </h2>
-          <FormattedDocContent text={content[activeTab] || ''} />
+          {editing ? (
+            <DocumentMarkdownEditor
+              key={`${project.id}-${activeTab}`}
+              value={content}
+              architecture={project.architecture}
+              references={references}
+              citationStyle={project.citationStyle}
+              onSave={handleSaveEdit}
+            />
+          ) : (
+            <FormattedDocContent
+              text={streamingText ?? content}
+              architecture={project.architecture}
+              references={references}
+              citationStyle={project.citationStyle}
+            />
+          )}
         </div>
       </div>
 
@@ -293,6 +386,19 @@ const DocumentationEditor: React.FC<Props> = ({ project, onUpdateProject, curren
           </div>
         )}
       </div>
+      {showReferences && (
+        <ReferenceLibraryModal project={project} onUpdateProject={onUpdateProject} onClose={() => setShowReferences(false)} />
+      )}
+      {showHistory && (
+        <DocumentHistoryModal
+          project={project}
+          docKey={activeTab}
+          docLabel={activeType.label}
+          currentUser={currentUser}
+          onUpdateProject={onUpdateProject}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 };
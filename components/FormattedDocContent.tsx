@@ -0,0 +1,132 @@
+import React from 'react';
+import { ArchitectureModel, CitationStyle, Reference } from '../types';
+import { classifyDocLine, parseInline } from '../services/docFormatService';
+import { renderCitations } from '../services/citationService';
+import ArchitectureDiagram from './ArchitectureDiagram';
+
+// ── Structured document renderer ────────────────────────────────────────────
+// Parses the strict academic formatting and renders with proper visual hierarchy
+
+const Inline: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseInline(text).map((run, i) => {
+      if (run.style === 'bold') return <strong key={i} className="font-semibold text-slate-900">{run.text}</strong>;
+      if (run.style === 'italic') return <em key={i}>{run.text}</em>;
+      if (run.style === 'code') return <code key={i} className="px-1 py-0.5 rounded bg-slate-100 text-[0.9em] font-mono text-slate-800">{run.text}</code>;
+      return <React.Fragment key={i}>{run.text}</React.Fragment>;
+    })}
+  </>
+);
+
+interface Props {
+  text: string;
+  architecture?: ArchitectureModel;
+  /** When given, [@key] markers are resolved and the cited entries listed under References */
+  references?: Reference[];
+  citationStyle?: CitationStyle;
+}
+
+const FormattedDocContent: React.FC<Props> = ({ text, architecture, references, citationStyle }) => {
+  if (!text) return <p className="text-slate-400 italic">No content generated yet.</p>;
+
+  const lines = (references ? renderCitations(text, references, citationStyle) : text).split('\n');
+  const elements: React.ReactNode[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+
+    switch (classifyDocLine(trimmed)) {
+      case 'blank':
+        elements.push(<div key={i} className="h-3" />);
+        break;
+
+      // Placeholder for the diagram built in the Guidance view
+      case 'diagram':
+        elements.push(architecture?.components.length ? (
+          <div key={i} className="my-4 p-4 bg-slate-50 border border-slate-100 rounded-2xl">
+            <ArchitectureDiagram model={architecture} />
+          </div>
+        ) : (
+          <p key={i} className="text-xs text-slate-400 italic my-2">Architecture diagram not created yet — generate it from the Guidance view.</p>
+        ));
+        break;
+
+      // Section labels like "BACKGROUND:", "PROBLEM STATEMENT:", "EXPECTED RESULTS:", etc.
+      case 'label': {
+        const colonIdx = trimmed.indexOf(':');
+        const label = trimmed.slice(0, colonIdx);
+        const rest = trimmed.slice(colonIdx + 1).trim();
+        elements.push(
+          <div key={i} className="mt-6 mb-2">
+            <span className="inline-block bg-indigo-50 text-indigo-700 text-xs font-bold uppercase tracking-widest px-3 py-1.5 rounded-lg border border-indigo-100">
+              {label}
+            </span>
+            {rest && <p className="mt-2 text-slate-700 leading-relaxed"><Inline text={rest} /></p>}
+          </div>
+        );
+        break;
+      }
+
+      // Top-level numbered headings: "1. Introduction", "2. Problem Definition"
+      case 'heading':
+        elements.push(
+          <h3 key={i} className="text-xl font-bold text-slate-900 mt-8 mb-3 pb-2 border-b border-slate-100">
+            {trimmed}
+          </h3>
+        );
+        break;
+
+      // Sub-numbered headings: "1.1 Purpose", "2.1 Existing System", "4.2 Scalability"
+      case 'subheading':
+        elements.push(
+          <h4 key={i} className="text-base font-semibold text-slate-800 mt-5 mb-2 ml-2">
+            {trimmed}
+          </h4>
+        );
+        break;
+
+      // Functional requirement lines: "- FR1:", "- FR2:", or standalone "FR1:"
+      case 'requirement': {
+        const label = trimmed.match(/FR\d+/)?.[0] || '';
+        const rest = trimmed.replace(/^-?\s*FR\d+:\s*/, '');
+        elements.push(
+          <div key={i} className="flex gap-3 ml-4 my-1.5">
+            <span className="shrink-0 bg-rose-50 text-rose-600 text-[10px] font-bold px-2 py-0.5 rounded border border-rose-100 mt-0.5">{label}</span>
+            <span className="text-slate-700"><Inline text={rest} /></span>
+          </div>
+        );
+        break;
+      }
+
+      // Arrow-notation data flow: "- Step 1 →", "Step 2 →"
+      case 'step':
+        elements.push(
+          <div key={i} className="flex items-start gap-3 ml-4 my-1.5 bg-blue-50/50 border border-blue-100 rounded-lg px-3 py-2">
+            <span className="text-blue-500 mt-0.5 shrink-0">→</span>
+            <span className="text-slate-700 text-sm"><Inline text={trimmed.replace(/^-?\s*/, '')} /></span>
+          </div>
+        );
+        break;
+
+      // Bullet points: "- item"
+      case 'bullet':
+        elements.push(
+          <div key={i} className="flex items-start gap-2.5 ml-4 my-1">
+            <span className="text-indigo-400 mt-1.5 shrink-0 text-[6px]">●</span>
+            <span className="text-slate-700"><Inline text={trimmed.slice(2)} /></span>
+          </div>
+        );
+        break;
+
+      // Regular paragraph
+      default:
+        elements.push(
+          <p key={i} className="text-slate-700 leading-relaxed my-1"><Inline text={trimmed} /></p>
+        );
+    }
+  }
+
+  return <>{elements}</>;
+};
+
+export default FormattedDocContent;
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { AppUser, Project } from '../types';
+import { applyRetryResult, GENERATION_STEP_LABELS, retryFailedGenerations } from '../services/projectGenerationService';
+import { recordChangedDocs } from '../services/docRevisionService';
+import { AlertTriangle, Loader2, RefreshCw, X } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  currentUser: AppUser;
+  teamMembers: string[];
+  onUpdateProject: (project: Project) => void;
+}
+
+/** Lists generators that failed during project creation and lets the user re-run them */
+const GenerationRetryBanner: React.FC<Props> = ({ project, currentUser, teamMembers, onUpdateProject }) => {
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState('');
+  // A retry can take minutes; its results are applied to the project as it is when it finishes
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  const failed = project.failedGenerations || [];
+
+  if (failed.length === 0) return null;
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    setError('');
+    try {
+      const result = await retryFailedGenerations(project, {
+        profile: {
+          department: project.profile?.department || currentUser.department || 'CSE',
+          techPreferences: project.techStack.map(t => t.name),
+        },
+        teamMembers: teamMembers.length > 0 ? teamMembers : [currentUser.fullName],
+        fallbackAssignee: currentUser.fullName,
+      });
+      const latest = projectRef.current;
+      if (latest.id !== project.id) return;
+      onUpdateProject(recordChangedDocs(latest, applyRetryResult(latest, result), { author: currentUser.fullName, source: 'ai' }));
+      if (result.failedGenerations?.length) {
+        setError('Some parts failed again. The AI provider may still be busy — try again in a minute.');
+      }
+    } catch (err: any) {
+      setError(err?.message || 'Retry failed. Try again.');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    onUpdateProject({ ...project, failedGenerations: undefined });
+  };
+
+  return (
+    <div className="mb-6 flex items-start gap-3 rounded-2xl border border-amber-200 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 px-5 py-4">
+      <AlertTriangle size={18} className="text-amber-600 shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold text-amber-800 dark:text-amber-200">Some parts of this project were not generated</p>
+        <p className="text-xs text-amber-700 dark:text-amber-300 mt-0.5">
+          {failed.map(step => GENERATION_STEP_LABELS[step]).join(', ')} failed while the project was created.
+        </p>
+        {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      </div>
+      <button
+        onClick={handleRetry}
+        disabled={retrying}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg bg-amber-600 hover:bg-amber-700 disabled:opacity-60 text-white"
+      >
+        {retrying ? <Loader2 size={13} className="animate-spin" /> : <RefreshCw size={13} />}
+        {retrying ? 'Retrying...' : 'Retry'}
+      </button>
+      <button
+        onClick={handleDismiss}
+        disabled={retrying}
+        className="p-1.5 rounded-lg text-amber-600 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+        title="Dismiss"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default GenerationRetryBanner;
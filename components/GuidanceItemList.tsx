@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Bot, Edit3, Plus, Trash2, UserPen } from 'lucide-react';
+import {
+  draftFromItem,
+  EDITABLE_FIELDS,
+  EditableDraft,
+  EditableItem,
+  EditableItemOf,
+  EditableSection,
+  emptyItem,
+  itemFromDraft,
+  markEdited,
+} from '../services/guidanceEditService';
+
+/** What the user just did to the list; the panel uses it to ask about tasks and docs */
+export type GuidanceItemChange<T extends EditableItem = EditableItem> =
+  | { kind: 'added'; item: T }
+  | { kind: 'updated'; before: T; after: T }
+  | { kind: 'removed'; item: T }
+  | { kind: 'moved' };
+
+interface Props<S extends EditableSection> {
+  section: S;
+  items: EditableItemOf<S>[];
+  onChange: (items: EditableItemOf<S>[], change: GuidanceItemChange<EditableItemOf<S>>) => void;
+  renderItem: (item: EditableItemOf<S>, index: number) => React.ReactNode;
+  cardClassName: string | ((item: EditableItemOf<S>) => string);
+  addLabel: string;
+  emptyMessage?: React.ReactNode;
+}
+
+const inputClass = 'w-full rounded-xl border border-slate-200 px-3 py-2 text-xs bg-white text-slate-800';
+
+function ItemForm<T extends EditableItem>({ section, initial, onSave, onCancel }: {
+  section: EditableSection;
+  initial: T;
+  onSave: (item: T) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<EditableDraft>(() => draftFromItem(section, initial));
+
+  return (
+    <div className="space-y-2">
+      {EDITABLE_FIELDS[section].map(field => (
+        <div key={field.key}>
+          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{field.label}</label>
+          {field.multiline ? (
+            <textarea
+              value={draft[field.key] || ''}
+              onChange={e => setDraft({ ...draft, [field.key]: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          ) : (
+            <input
+              value={draft[field.key] || ''}
+              onChange={e => setDraft({ ...draft, [field.key]: e.target.value })}
+              className={inputClass}
+            />
+          )}
+        </div>
+      ))}
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onCancel} className="px-3 py-1.5 text-xs font-medium rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(itemFromDraft(section, initial, draft))}
+          disabled={!draft.name?.trim()}
+          className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-xs font-semibold rounded-xl"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const SortableItem: React.FC<{
+  id: string;
+  item: EditableItem;
+  className: string;
+  onEdit: () => void;
+  onDelete: () => void;
+  children: React.ReactNode;
+}> = ({ id, item, className, onEdit, onDelete, children }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id });
+  const manual = item.provenance === 'manual';
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={`${className} ${isDragging ? 'opacity-50 shadow-lg' : ''}`}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <div {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing text-slate-300 hover:text-slate-500 text-xs" title="Drag to reorder">
+          ⋮⋮
+        </div>
+        <span
+          title={manual ? 'Added or edited by your team' : 'Suggested by the AI'}
+          className={`flex items-center gap-1 text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded-md ${
+            manual ? 'bg-sky-50 text-sky-700' : 'bg-violet-50 text-violet-600'
+          }`}
+        >
+          {manual ? <UserPen size={10} /> : <Bot size={10} />} {manual ? 'Manual' : 'AI'}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={onEdit} className="text-slate-400 hover:text-indigo-600" title="Edit">
+            <Edit3 size={13} />
+          </button>
+          <button onClick={onDelete} className="text-slate-400 hover:text-red-500" title="Remove">
+            <Trash2 size={13} />
+          </button>
+        </div>
+      </div>
+      {children}
+    </div>
+  );
+};
+
+function GuidanceItemList<S extends EditableSection>({ section, items, onChange, renderItem, cardClassName, addLabel, emptyMessage }: Props<S>) {
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+  const ids = items.map((_, i) => `${section}-${i}`);
+  const classFor = (item: EditableItemOf<S>) => typeof cardClassName === 'function' ? cardClassName(item) : cardClassName;
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+    onChange(arrayMove(items, ids.indexOf(String(active.id)), ids.indexOf(String(over.id))), { kind: 'moved' });
+  };
+
+  const handleSave = (index: number | 'new', draft: EditableItemOf<S>) => {
+    if (index === 'new') {
+      const item = markEdited(section, null, draft);
+      onChange([...items, item], { kind: 'added', item });
+    } else {
+      const after = markEdited(section, items[index], draft);
+      onChange(items.map((item, i) => i === index ? after : item), { kind: 'updated', before: items[index], after });
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (index: number) => {
+    if (!window.confirm(`Remove "${items[index].name}"?`)) return;
+    onChange(items.filter((_, i) => i !== index), { kind: 'removed', item: items[index] });
+  };
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext items={ids} strategy={verticalListSortingStrategy}>
+        {items.map((item, i) => editing === i ? (
+          <div key={ids[i]} className={classFor(item)}>
+            <ItemForm section={section} initial={item} onSave={draft => handleSave(i, draft)} onCancel={() => setEditing(null)} />
+          </div>
+        ) : (
+          <SortableItem
+            key={ids[i]}
+            id={ids[i]}
+            item={item}
+            className={classFor(item)}
+            onEdit={() => setEditing(i)}
+            onDelete={() => handleDelete(i)}
+          >
+            {renderItem(item, i)}
+          </SortableItem>
+        ))}
+      </SortableContext>
+      {items.length === 0 && editing !== 'new' && emptyMessage}
+      {editing === 'new' ? (
+        <div className={classFor(emptyItem(section))}>
+          <ItemForm section={section} initial={emptyItem(section)} onSave={draft => handleSave('new', draft)} onCancel={() => setEditing(null)} />
+        </div>
+      ) : (
+        <button
+          onClick={() => setEditing('new')}
+          className="w-full flex items-center justify-center gap-1.5 py-3 rounded-3xl border-2 border-dashed border-slate-200 text-xs font-semibold text-slate-400 hover:text-indigo-600 hover:border-indigo-200 transition-all"
+        >
+          <Plus size={14} /> {addLabel}
+        </button>
+      )}
+    </DndContext>
+  );
+}
+
+export default GuidanceItemList;
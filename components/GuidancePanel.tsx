@@ -1,6 +1,29 @@
 
-import React from 'react';
-import { Project } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { AppUser, GuidanceSection, Project, UrlVerification, UrlVerifierSettings } from '../types';
+import {
+  applyLinkVerifications,
+  getVerifierSettings,
+  saveVerifierSettings,
+  summarizeLinks,
+  verifyProjectLinks,
+  verifyUrl,
+} from '../services/urlVerificationService';
+import { applySectionItems } from '../services/guidanceSectionService';
+import {
+  EditableItem,
+  EditableSection,
+  findDependents,
+  flagTasksForReview,
+  PendingPropagation,
+  renameInDesignDoc,
+  renameInTasks,
+} from '../services/guidanceEditService';
+import SectionRegenerateModal from './SectionRegenerateModal';
+import GuidanceItemList, { GuidanceItemChange } from './GuidanceItemList';
+import ArchitectureEditor from './ArchitectureEditor';
+import LearningPathPlanner from './LearningPathPlanner';
+import BomManager from './BomManager';
 import { 
   Code2, 
   Binary, 
@@ -18,14 +41,160 @@ import {
   FileText,
   Workflow,
   ShieldCheck,
-  Server
+  Server,
+  CheckCircle2,
+  AlertTriangle,
+  HelpCircle,
+  Link2,
+  Loader2,
+  RefreshCw,
+  Sparkles,
+  Trash2
 } from 'lucide-react';
 
 interface Props {
   project: Project;
+  teamMembers: AppUser[];
+  onUpdateProject: (project: Project) => void;
 }
 
-const GuidancePanel: React.FC<Props> = ({ project }) => {
+type LinkListKey = 'sources' | 'learningResources' | 'datasets';
+
+const VerificationBadge: React.FC<{ verification?: UrlVerification }> = ({ verification }) => {
+  if (!verification) return null;
+  const tooltip = [verification.httpStatus && `HTTP ${verification.httpStatus}`, verification.note, `Checked ${new Date(verification.checkedAt).toLocaleString()}`]
+    .filter(Boolean)
+    .join(' · ');
+  if (verification.status === 'verified') {
+    return <span title={tooltip} className="flex items-center gap-1 text-[10px] font-bold text-emerald-600 uppercase"><CheckCircle2 size={12} /> Verified</span>;
+  }
+  if (verification.status === 'broken') {
+    return <span title={tooltip} className="flex items-center gap-1 text-[10px] font-bold text-red-600 uppercase"><AlertTriangle size={12} /> Broken</span>;
+  }
+  return <span title={tooltip} className="flex items-center gap-1 text-[10px] font-bold text-amber-600 uppercase"><HelpCircle size={12} /> Unverified</span>;
+};
+
+/** Point the entry linking to `from` at `to`; null when no entry links there any more */
+function relink<K extends 'uri' | 'url', T extends Record<K, string> & { verification?: UrlVerification }>(
+  items: T[], key: K, from: string, to: string, verification: UrlVerification
+): T[] | null {
+  const index = items.findIndex(item => item[key] === from);
+  if (index < 0) return null;
+  return items.map((item, i) => i === index ? { ...item, [key]: to, verification } : item);
+}
+
+const GuidancePanel: React.FC<Props> = ({ project, teamMembers, onUpdateProject }) => {
+  const [checking, setChecking] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [checkError, setCheckError] = useState('');
+  const [verifier, setVerifier] = useState<UrlVerifierSettings>(getVerifierSettings());
+  const abortRef = useRef<AbortController | null>(null);
+  // Link checks and section regeneration take a while; their results are merged into whatever the project looks like when they finish
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  const [regenerating, setRegenerating] = useState<GuidanceSection | null>(null);
+  const [propagation, setPropagation] = useState<PendingPropagation | null>(null);
+
+  useEffect(() => setPropagation(null), [project.id]);
+
+  // Stop a running check when the user leaves the panel or switches project
+  useEffect(() => () => abortRef.current?.abort(), [project.id]);
+
+  const summary = summarizeLinks(project);
+  const linkCount = summary.verified + summary.broken + summary.unverified + summary.unchecked;
+
+  const updateVerifier = (patch: Partial<UrlVerifierSettings>) => {
+    const next = { ...verifier, ...patch };
+    setVerifier(next);
+    saveVerifierSettings(next);
+  };
+
+  const handleVerify = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setChecking(true);
+    setCheckError('');
+    setProgress({ done: 0, total: linkCount });
+    try {
+      const results = await verifyProjectLinks(project, (done, total) => setProgress({ done, total }), controller.signal);
+      onUpdateProject(applyLinkVerifications(projectRef.current, results));
+    } catch (err: any) {
+      if (!controller.signal.aborted) setCheckError(err.message || 'Link check failed.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleRemove = (list: LinkListKey, index: number, label: string) => {
+    if (!window.confirm(`Remove "${label}" from this project?`)) return;
+    onUpdateProject({ ...project, [list]: (project[list] || []).filter((_, i) => i !== index) });
+    // Datasets are blueprint items, so tasks and the design doc may still rely on the removed one
+    if (list === 'datasets') setPropagation(findDependents(project, 'datasets', project.datasets[index].name));
+  };
+
+  const handleReplace = async (list: LinkListKey, label: string, currentUrl: string) => {
+    const url = window.prompt(`New link for "${label}":`, currentUrl)?.trim();
+    if (!url || url === currentUrl) return;
+    const verification = await verifyUrl(url);
+    // Find the entry again: it may have moved or been removed while the new link was checked
+    const latest = projectRef.current;
+    if (latest.id !== project.id) return;
+    let patch: Partial<Project> | null = null;
+    if (list === 'sources') {
+      const sources = relink(latest.sources || [], 'uri', currentUrl, url, verification);
+      if (sources) patch = { sources };
+    } else if (list === 'learningResources') {
+      const learningResources = relink(latest.learningResources || [], 'url', currentUrl, url, verification);
+      if (learningResources) patch = { learningResources };
+    } else {
+      const datasets = relink(latest.datasets, 'url', currentUrl, url, verification);
+      if (datasets) patch = { datasets };
+    }
+    if (patch) onUpdateProject({ ...latest, ...patch });
+  };
+
+  const handleItemsChange = (section: EditableSection, items: EditableItem[], change: GuidanceItemChange) => {
+    onUpdateProject({ ...project, [section]: items });
+    if (change.kind === 'updated') setPropagation(findDependents(project, section, change.before.name, change.after.name));
+    else if (change.kind === 'removed') setPropagation(findDependents(project, section, change.item.name));
+  };
+
+  /** Apply one propagation step and keep the prompt open for whatever is left */
+  const handlePropagate = (target: 'tasks' | 'doc') => {
+    if (!propagation) return;
+    if (target === 'tasks') {
+      onUpdateProject(propagation.newName ? renameInTasks(project, propagation) : flagTasksForReview(project, propagation));
+    } else {
+      onUpdateProject(renameInDesignDoc(project, propagation));
+    }
+    const remaining = target === 'tasks' ? { ...propagation, taskIds: [] } : { ...propagation, docMentions: 0 };
+    setPropagation(remaining.taskIds.length || remaining.docMentions ? remaining : null);
+  };
+
+  const renderRegenerateButton = (section: GuidanceSection) => (
+    <button
+      onClick={() => setRegenerating(section)}
+      title="Regenerate this section only"
+      className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-xl border border-slate-200 text-slate-500 hover:text-indigo-600 hover:border-indigo-200 hover:bg-indigo-50 transition-all"
+    >
+      <Sparkles size={13} /> Regenerate
+    </button>
+  );
+
+  const renderBrokenActions = (list: LinkListKey, index: number, label: string, url: string, verification?: UrlVerification) => {
+    if (verification?.status !== 'broken') return null;
+    return (
+      <div className="flex items-center gap-3 mt-3">
+        <button onClick={() => handleReplace(list, label, url)} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-700 uppercase">
+          <RefreshCw size={11} /> Replace
+        </button>
+        <button onClick={() => handleRemove(list, index, label)} className="flex items-center gap-1 text-[10px] font-bold text-red-500 hover:text-red-600 uppercase">
+          <Trash2 size={11} /> Remove
+        </button>
+      </div>
+    );
+  };
+
   const getResourceIcon = (type: string) => {
     switch (type.toLowerCase()) {
       case 'tutorial': return <Youtube size={16} className="text-rose-500" />;
@@ -37,6 +206,18 @@ const GuidancePanel: React.FC<Props> = ({ project }) => {
 
   return (
     <div className="max-w-7xl mx-auto space-y-12 animate-in fade-in duration-700 pb-20">
+      {regenerating && (
+        <SectionRegenerateModal
+          project={project}
+          section={regenerating}
+          onAccept={items => {
+            onUpdateProject(applySectionItems(projectRef.current, regenerating, items));
+            setRegenerating(null);
+          }}
+          onClose={() => setRegenerating(null)}
+        />
+      )}
+
       {/* Dynamic Header */}
       <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-sm relative overflow-hidden">
         <div className="absolute top-0 right-0 w-64 h-64 bg-indigo-50 rounded-full -mr-32 -mt-32 blur-3xl opacity-50" />
@@ -53,26 +234,118 @@ const GuidancePanel: React.FC<Props> = ({ project }) => {
         </div>
       </div>
 
+      {/* Propagation prompt after a rename or removal */}
+      {propagation && (
+        <div className="bg-amber-50 border border-amber-200 p-6 rounded-[32px] flex flex-col md:flex-row md:items-center gap-4">
+          <Info size={20} className="text-amber-600 flex-shrink-0" />
+          <p className="text-sm text-amber-900 flex-1">
+            {propagation.newName
+              ? <>"{propagation.oldName}" is now "{propagation.newName}", but </>
+              : <>"{propagation.oldName}" was removed, but </>}
+            {[
+              propagation.taskIds.length > 0 && `${propagation.taskIds.length} task${propagation.taskIds.length === 1 ? '' : 's'}`,
+              propagation.docMentions > 0 && `the design doc (${propagation.docMentions} mention${propagation.docMentions === 1 ? '' : 's'})`,
+            ].filter(Boolean).join(' and ')} still refer to it. Update them too?
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {propagation.taskIds.length > 0 && (
+              <button onClick={() => handlePropagate('tasks')} className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 text-white text-xs font-semibold rounded-xl">
+                {propagation.newName ? 'Rename in tasks' : 'Flag tasks for review'}
+              </button>
+            )}
+            {propagation.docMentions > 0 && propagation.newName && (
+              <button onClick={() => handlePropagate('doc')} className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 text-white text-xs font-semibold rounded-xl">
+                Rename in design doc
+              </button>
+            )}
+            {propagation.docMentions > 0 && !propagation.newName && (
+              <span className="text-[11px] text-amber-700">Revise the design doc from Documentation.</span>
+            )}
+            <button onClick={() => setPropagation(null)} className="px-3 py-1.5 text-xs font-medium rounded-xl border border-amber-200 text-amber-800 hover:bg-amber-100">
+              Leave as is
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-10">
         {/* Left Sidebar (4/12) */}
         <div className="lg:col-span-4 space-y-10">
-          
+
+          {/* Link Check */}
+          <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-sm">
+            <div className="flex items-center gap-3 mb-6">
+              <div className="bg-slate-100 p-2 rounded-lg text-slate-600"><Link2 size={24} /></div>
+              <h3 className="text-xl font-bold text-slate-800">Link Check</h3>
+            </div>
+            <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+              <div className="p-2 bg-emerald-50 rounded-2xl"><p className="text-lg font-bold text-emerald-700">{summary.verified}</p><p className="text-[10px] font-bold text-emerald-600 uppercase">Verified</p></div>
+              <div className="p-2 bg-red-50 rounded-2xl"><p className="text-lg font-bold text-red-700">{summary.broken}</p><p className="text-[10px] font-bold text-red-600 uppercase">Broken</p></div>
+              <div className="p-2 bg-amber-50 rounded-2xl"><p className="text-lg font-bold text-amber-700">{summary.unverified + summary.unchecked}</p><p className="text-[10px] font-bold text-amber-600 uppercase">Unverified</p></div>
+            </div>
+            <div className="flex items-center gap-2">
+              <select
+                value={verifier.mode}
+                onChange={e => updateVerifier({ mode: e.target.value as UrlVerifierSettings['mode'] })}
+                disabled={checking}
+                className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-xs bg-white text-slate-700"
+              >
+                <option value="browser">Check from browser</option>
+                <option value="proxy">Check via proxy</option>
+                <option value="offline">Offline (syntax only)</option>
+              </select>
+              {checking ? (
+                <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-1.5 px-3 py-2 text-xs font-semibold rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50">
+                  <Loader2 size={13} className="animate-spin" /> {progress.done}/{progress.total} · Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleVerify}
+                  disabled={linkCount === 0}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-xs font-semibold rounded-xl"
+                >
+                  Verify links
+                </button>
+              )}
+            </div>
+            {verifier.mode === 'proxy' && (
+              <input
+                value={verifier.proxyUrl}
+                onChange={e => updateVerifier({ proxyUrl: e.target.value })}
+                placeholder="http://localhost:8787/check"
+                className="mt-2 w-full rounded-xl border border-slate-200 px-3 py-2 text-xs font-mono bg-white text-slate-700"
+              />
+            )}
+            {checkError && <p className="mt-2 text-[11px] text-red-600">{checkError}</p>}
+            {summary.broken > 0 && !checking && (
+              <p className="mt-3 text-[11px] text-slate-500">Broken links can be replaced or removed below.</p>
+            )}
+          </div>
+
           {/* Tech Stack Components */}
           <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-sm">
             <div className="flex items-center gap-3 mb-8">
               <div className="bg-indigo-50 p-2 rounded-lg text-indigo-600"><Code2 size={24} /></div>
               <h3 className="text-xl font-bold text-slate-800">Tech Stack</h3>
+              {renderRegenerateButton('techStack')}
             </div>
             <div className="space-y-4">
-              {project.techStack.map((tech, i) => (
-                <div key={i} className="group p-5 bg-slate-50 border border-slate-100 rounded-3xl hover:border-indigo-200 transition-all hover:bg-white hover:shadow-md">
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm font-bold text-indigo-700">{tech.name}</span>
-                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400 bg-white border border-slate-200 px-2 py-0.5 rounded-lg">{tech.role}</span>
-                  </div>
-                  <p className="text-xs text-slate-500 leading-relaxed">{tech.description}</p>
-                </div>
-              ))}
+              <GuidanceItemList
+                section="techStack"
+                items={project.techStack}
+                onChange={(items, change) => handleItemsChange('techStack', items, change)}
+                cardClassName="group p-5 bg-slate-50 border border-slate-100 rounded-3xl hover:border-indigo-200 transition-all hover:bg-white hover:shadow-md"
+                addLabel="Add technology"
+                renderItem={tech => (
+                  <>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-bold text-indigo-700">{tech.name}</span>
+                      <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400 bg-white border border-slate-200 px-2 py-0.5 rounded-lg">{tech.role}</span>
+                    </div>
+                    <p className="text-xs text-slate-500 leading-relaxed">{tech.description}</p>
+                  </>
+                )}
+              />
             </div>
           </div>
 
@@ -81,25 +354,37 @@ const GuidancePanel: React.FC<Props> = ({ project }) => {
             <div className="flex items-center gap-3 mb-8">
               <div className="bg-rose-50 p-2 rounded-lg text-rose-600"><Database size={24} /></div>
               <h3 className="text-xl font-bold text-slate-800">Data Engineering</h3>
+              {renderRegenerateButton('datasets')}
             </div>
             <div className="space-y-4">
-              {project.datasets?.map((ds, i) => (
-                <div key={i} className="p-5 bg-slate-50 border border-slate-100 rounded-3xl group">
-                  <h4 className="text-sm font-bold text-slate-800 mb-1">{ds.name}</h4>
-                  <p className="text-[11px] text-slate-500 mb-3 line-clamp-2">{ds.description}</p>
-                  <a 
-                    href={ds.url} 
-                    target="_blank" 
-                    rel="noopener noreferrer"
-                    className="flex items-center gap-1.5 text-[10px] font-bold text-rose-600 hover:text-rose-700 transition-colors uppercase tracking-wider"
-                  >
-                    <ExternalLink size={12} /> Source: {ds.source}
-                  </a>
-                </div>
-              ))}
-              {!project.datasets?.length && (
-                <div className="p-4 bg-slate-50 rounded-2xl text-xs text-slate-400 italic">No specific datasets identified. Consider generating synthetic data or using web scraping.</div>
-              )}
+              <GuidanceItemList
+                section="datasets"
+                items={project.datasets || []}
+                onChange={(items, change) => handleItemsChange('datasets', items, change)}
+                cardClassName={item => `p-5 bg-slate-50 border rounded-3xl group ${item.verification?.status === 'broken' ? 'border-red-200' : 'border-slate-100'}`}
+                addLabel="Add dataset"
+                emptyMessage={
+                  <div className="p-4 bg-slate-50 rounded-2xl text-xs text-slate-400 italic">No specific datasets identified. Consider generating synthetic data or using web scraping.</div>
+                }
+                renderItem={(ds, i) => (
+                  <>
+                    <div className="flex items-start justify-between gap-2 mb-1">
+                      <h4 className="text-sm font-bold text-slate-800">{ds.name}</h4>
+                      <VerificationBadge verification={ds.verification} />
+                    </div>
+                    <p className="text-[11px] text-slate-500 mb-3 line-clamp-2">{ds.description}</p>
+                    <a
+                      href={ds.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1.5 text-[10px] font-bold text-rose-600 hover:text-rose-700 transition-colors uppercase tracking-wider"
+                    >
+                      <ExternalLink size={12} /> Source: {ds.source}
+                    </a>
+                    {renderBrokenActions('datasets', i, ds.name, ds.url, ds.verification)}
+                  </>
+                )}
+              />
             </div>
           </div>
 
@@ -111,23 +396,45 @@ const GuidancePanel: React.FC<Props> = ({ project }) => {
             </div>
             <div className="space-y-4">
               {project.learningResources?.map((resource, i) => (
-                <a 
+                <div
                   key={i}
-                  href={resource.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex flex-col p-5 bg-white border border-slate-100 rounded-3xl hover:border-emerald-300 hover:shadow-md transition-all group"
+                  className={`flex flex-col p-5 bg-white border rounded-3xl hover:shadow-md transition-all group ${resource.verification?.status === 'broken' ? 'border-red-200' : 'border-slate-100 hover:border-emerald-300'}`}
                 >
-                  <div className="flex items-center gap-2 mb-2">
+                  <a href={resource.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 mb-2">
                     {getResourceIcon(resource.type)}
                     <span className="text-xs font-bold text-slate-700 group-hover:text-emerald-700 line-clamp-1">{resource.title}</span>
-                    <ExternalLink size={12} className="ml-auto text-slate-300 group-hover:text-emerald-400" />
-                  </div>
+                    <ExternalLink size={12} className="ml-auto flex-shrink-0 text-slate-300 group-hover:text-emerald-400" />
+                  </a>
                   <p className="text-[11px] text-slate-400 line-clamp-2 leading-relaxed">{resource.description}</p>
-                </a>
+                  {resource.verification && <div className="mt-2"><VerificationBadge verification={resource.verification} /></div>}
+                  {renderBrokenActions('learningResources', i, resource.title, resource.url, resource.verification)}
+                </div>
               ))}
             </div>
           </div>
+
+          {/* References */}
+          {!!project.sources?.length && (
+            <div className="bg-white p-8 rounded-[40px] border border-slate-200 shadow-sm">
+              <div className="flex items-center gap-3 mb-8">
+                <div className="bg-blue-50 p-2 rounded-lg text-blue-600"><Globe size={24} /></div>
+                <h3 className="text-xl font-bold text-slate-800">References</h3>
+              </div>
+              <div className="space-y-3">
+                {project.sources.map((source, i) => (
+                  <div key={i} className={`p-4 bg-slate-50 border rounded-2xl ${source.verification?.status === 'broken' ? 'border-red-200' : 'border-slate-100'}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-xs font-bold text-slate-700 hover:text-blue-700 line-clamp-2">
+                        {source.title || source.uri}
+                      </a>
+                      <VerificationBadge verification={source.verification} />
+                    </div>
+                    {renderBrokenActions('sources', i, source.title || source.uri, source.uri, source.verification)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Right Main Content (8/12) */}
@@ -158,33 +465,44 @@ const GuidancePanel: React.FC<Props> = ({ project }) => {
             </div>
           </div>
 
+          {/* Architecture Diagram */}
+          <ArchitectureEditor project={project} onUpdateProject={onUpdateProject} />
+
           {/* Algorithms Deep Dive */}
           <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-sm">
             <div className="flex items-center gap-3 mb-10">
               <div className="bg-rose-50 p-2 rounded-lg text-rose-600"><Binary size={24} /></div>
               <h3 className="text-2xl font-bold text-slate-800">Core Algorithms & Logic</h3>
+              {renderRegenerateButton('algorithms')}
             </div>
             <div className="space-y-6">
-              {project.algorithms.map((algo, i) => (
-                <div key={i} className="p-8 bg-slate-50 border border-slate-100 rounded-[32px] hover:bg-white hover:shadow-xl hover:border-rose-200 transition-all group">
-                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
-                    <h4 className="text-xl font-bold text-slate-800 group-hover:text-rose-700 transition-colors flex items-center gap-2">
-                       <span className="w-8 h-8 rounded-full bg-rose-100 text-rose-600 flex items-center justify-center text-xs font-bold">{i+1}</span>
-                       {algo.name}
-                    </h4>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-                    <div>
-                      <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Theoretical Overview</h5>
-                      <p className="text-sm text-slate-600 leading-relaxed">{algo.description}</p>
+              <GuidanceItemList
+                section="algorithms"
+                items={project.algorithms}
+                onChange={(items, change) => handleItemsChange('algorithms', items, change)}
+                cardClassName="p-8 bg-slate-50 border border-slate-100 rounded-[32px] hover:bg-white hover:shadow-xl hover:border-rose-200 transition-all group"
+                addLabel="Add algorithm"
+                renderItem={(algo, i) => (
+                  <>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                      <h4 className="text-xl font-bold text-slate-800 group-hover:text-rose-700 transition-colors flex items-center gap-2">
+                        <span className="w-8 h-8 rounded-full bg-rose-100 text-rose-600 flex items-center justify-center text-xs font-bold">{i+1}</span>
+                        {algo.name}
+                      </h4>
                     </div>
-                    <div className="p-5 bg-white border border-slate-100 rounded-2xl">
-                      <h5 className="text-[10px] font-bold text-rose-500 uppercase tracking-widest mb-3 flex items-center gap-1.5"><Code2 size={12}/> Implementation Logic</h5>
-                      <p className="text-xs text-slate-500 font-mono leading-relaxed bg-slate-50 p-3 rounded-lg">{algo.implementationLogic}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                      <div>
+                        <h5 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Theoretical Overview</h5>
+                        <p className="text-sm text-slate-600 leading-relaxed">{algo.description}</p>
+                      </div>
+                      <div className="p-5 bg-white border border-slate-100 rounded-2xl">
+                        <h5 className="text-[10px] font-bold text-rose-500 uppercase tracking-widest mb-3 flex items-center gap-1.5"><Code2 size={12}/> Implementation Logic</h5>
+                        <p className="text-xs text-slate-500 font-mono leading-relaxed bg-slate-50 p-3 rounded-lg">{algo.implementationLogic}</p>
+                      </div>
                     </div>
-                  </div>
-                </div>
-              ))}
+                  </>
+                )}
+              />
             </div>
           </div>
 
@@ -193,6 +511,7 @@ const GuidancePanel: React.FC<Props> = ({ project }) => {
             <div className="flex items-center gap-3 mb-12">
               <div className="bg-orange-50 p-2 rounded-lg text-orange-600"><Map size={24} /></div>
               <h3 className="text-2xl font-bold text-slate-800">Development Roadmap</h3>
+              {renderRegenerateButton('roadmap')}
             </div>
             
             <div className="relative space-y-12 before:absolute before:left-[23px] before:top-2 before:bottom-2 before:w-1 before:bg-slate-100">
@@ -214,6 +533,12 @@ const GuidancePanel: React.FC<Props> = ({ project }) => {
             </div>
           </div>
 
+          {/* Learning Path */}
+          <LearningPathPlanner project={project} teamMembers={teamMembers} onUpdateProject={onUpdateProject} />
+
+          {/* Hardware Bill of Materials */}
+          <BomManager project={project} onUpdateProject={onUpdateProject} />
+
         </div>
       </div>
     </div>
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { IdeaEvaluation, Project, UserProfile } from '../types';
+import { geminiService } from '../services/geminiService';
+import {
+  CriterionWeights,
+  DEFAULT_WEIGHTS,
+  getCriterionWeights,
+  IDEA_CRITERIA,
+  rankEvaluations,
+  saveCriterionWeights,
+  weightedScore,
+} from '../services/ideaComparisonService';
+import { exportIdeaComparisonPDF } from '../services/exportService';
+import { Download, Loader2, RotateCcw, Scale, Trophy } from 'lucide-react';
+
+export interface IdeaCandidate {
+  id: string;
+  idea: Partial<Project>;
+}
+
+interface Props {
+  candidates: IdeaCandidate[];
+  profile: UserProfile;
+  userId: string;
+  /** Kept by the wizard so scores survive hiding the panel; null until scored */
+  evaluations: IdeaEvaluation[] | null;
+  onEvaluations: (evaluations: IdeaEvaluation[]) => void;
+  onSelect: (idea: Partial<Project>, id: string) => void;
+  disabled?: boolean;
+}
+
+function scoreColor(score: number): string {
+  if (score >= 8) return 'bg-emerald-50 text-emerald-700';
+  if (score >= 5) return 'bg-amber-50 text-amber-700';
+  return 'bg-rose-50 text-rose-700';
+}
+
+const IdeaComparisonPanel: React.FC<Props> = ({ candidates, profile, userId, evaluations, onEvaluations, onSelect, disabled }) => {
+  const [weights, setWeights] = useState<CriterionWeights>(() => getCriterionWeights(userId));
+  const [scoring, setScoring] = useState(false);
+  const [error, setError] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const updateWeights = (next: CriterionWeights) => {
+    setWeights(next);
+    saveCriterionWeights(userId, next);
+  };
+
+  const handleScore = async () => {
+    setScoring(true);
+    setError('');
+    try {
+      onEvaluations(await geminiService.compareIdeas(candidates.map(c => c.idea), profile));
+    } catch (err: any) {
+      setError(err?.message || 'Scoring failed. Try again.');
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  if (!evaluations) {
+    return (
+      <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex-1">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Scale size={18} className="text-indigo-600" /> Compare before committing</h3>
+          <p className="text-sm text-slate-500">
+            Score all {candidates.length} ideas on feasibility, novelty, data availability, hardware cost and fit to your {profile.preferredComplexity.toLowerCase()} complexity preference.
+          </p>
+          {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+        </div>
+        <button
+          onClick={handleScore}
+          disabled={scoring || disabled}
+          className="flex items-center gap-2 bg-indigo-600 text-white px-5 py-2.5 rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all disabled:opacity-60"
+        >
+          {scoring ? <Loader2 size={16} className="animate-spin" /> : <Scale size={16} />}
+          {scoring ? 'Scoring ideas...' : 'Score & compare'}
+        </button>
+      </div>
+    );
+  }
+
+  const ranking = rankEvaluations(evaluations, weights);
+  const best = ranking[0];
+
+  return (
+    <div className="p-6 bg-white rounded-3xl border border-slate-200 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Scale size={18} className="text-indigo-600" /> Idea comparison</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleScore}
+            disabled={scoring || disabled}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-60"
+          >
+            {scoring ? <Loader2 size={13} className="animate-spin" /> : <RotateCcw size={13} />} Re-score
+          </button>
+          <button
+            onClick={() => exportIdeaComparisonPDF(evaluations, weights, profile)}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50"
+          >
+            <Download size={13} /> Export PDF
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {/* ── Weights ──────────────────────────────────────────────── */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        {IDEA_CRITERIA.map(criterion => (
+          <label key={criterion.id} className="text-xs text-slate-600" title={criterion.description}>
+            <span className="flex justify-between font-semibold">
+              {criterion.label}
+              <span className="text-indigo-600">×{weights[criterion.id]}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={5}
+              value={weights[criterion.id]}
+              onChange={e => updateWeights({ ...weights, [criterion.id]: Number(e.target.value) })}
+              className="w-full accent-indigo-600"
+            />
+          </label>
+        ))}
+      </div>
+      <button onClick={() => updateWeights({ ...DEFAULT_WEIGHTS })} className="text-[11px] text-slate-400 hover:text-indigo-600">
+        Reset weights
+      </button>
+
+      {/* ── Matrix ───────────────────────────────────────────────── */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="text-left text-[11px] uppercase tracking-wide text-slate-400 font-semibold p-2 w-40">Criterion</th>
+              {candidates.map((candidate, i) => (
+                <th key={candidate.id} className={`text-left align-top p-2 rounded-xl ${i === best ? 'bg-indigo-50' : ''}`}>
+                  <span className="block text-xs font-bold text-slate-800 leading-snug">{candidate.idea.title}</span>
+                  {i === best && <span className="inline-flex items-center gap-1 text-[10px] font-bold text-indigo-600 uppercase mt-1"><Trophy size={10} /> Top pick</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {IDEA_CRITERIA.map(criterion => (
+              <tr key={criterion.id}>
+                <td className="p-2 text-xs font-semibold text-slate-600" title={criterion.description}>{criterion.label}</td>
+                {evaluations.map((evaluation, i) => {
+                  const cellKey = `${criterion.id}-${i}`;
+                  const { score, rationale } = evaluation.scores[criterion.id];
+                  return (
+                    <td key={cellKey} className="p-0 align-top">
+                      <button
+                        onClick={() => setExpanded(expanded === cellKey ? null : cellKey)}
+                        className={`w-full text-left p-2 rounded-xl ${scoreColor(score)}`}
+                        title={rationale}
+                      >
+                        <span className="font-bold">{score}</span><span className="text-[10px] opacity-60">/10</span>
+                        {expanded === cellKey && <span className="block mt-1 text-[11px] leading-snug text-slate-600">{rationale}</span>}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="p-2 text-xs font-bold text-slate-800">Weighted score</td>
+              {evaluations.map((evaluation, i) => (
+                <td key={i} className="p-2">
+                  <span className="text-lg font-bold text-slate-800">{weightedScore(evaluation, weights)}</span>
+                  <span className="text-[10px] text-slate-400"> /100 · #{ranking.indexOf(i) + 1}</span>
+                </td>
+              ))}
+            </tr>
+            <tr>
+              <td />
+              {candidates.map(candidate => (
+                <td key={candidate.id} className="p-2">
+                  <button
+                    onClick={() => onSelect(candidate.idea, candidate.id)}
+                    disabled={disabled}
+                    className="w-full px-3 py-2 text-xs font-bold rounded-xl bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-60"
+                  >
+                    Choose
+                  </button>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[11px] text-slate-400">Click a score to read the rationale. Weights are saved for your next session.</p>
+    </div>
+  );
+};
+
+export default IdeaComparisonPanel;
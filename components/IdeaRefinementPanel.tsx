@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { IdeaNode, IdeaOperation, Project, UserProfile } from '../types';
+import { geminiService } from '../services/geminiService';
+import { addRefinedIdeas, childrenByParent, descendantIds, getIdeaNodes, toggleStar } from '../services/ideaLineageService';
+import { ChevronDown, ChevronRight, GitBranch, GitMerge, Loader2, Shuffle, Star, Target } from 'lucide-react';
+
+interface Props {
+  userId: string;
+  /** Lineage roots for the ideas currently on screen */
+  rootIds: string[];
+  nodes: IdeaNode[];
+  onNodesChange: (nodes: IdeaNode[]) => void;
+  profile: UserProfile;
+  onSelect: (idea: Partial<Project>, id: string) => void;
+  disabled?: boolean;
+}
+
+const QUICK_INSTRUCTIONS = ['Make it hardware-free', 'Narrow to healthcare', 'Lower the cost', 'Add a mobile app', 'Use only public datasets'];
+
+const OPERATION_LABELS: Record<IdeaOperation, string> = {
+  generated: 'Generated',
+  variation: 'Variation',
+  narrow: 'Narrowed',
+  merge: 'Merged',
+};
+
+const IdeaRefinementPanel: React.FC<Props> = ({ userId, rootIds, nodes, onNodesChange, profile, onSelect, disabled }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [instruction, setInstruction] = useState('');
+  const [running, setRunning] = useState<IdeaOperation | null>(null);
+  const [error, setError] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const children = childrenByParent(nodes);
+  const inSession = descendantIds(nodes, rootIds);
+  const earlierStarred = nodes.filter(n => n.starred && !inSession.has(n.id));
+  const selected = selectedIds.map(id => byId.get(id)).filter((n): n is IdeaNode => !!n);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleRefine = async (operation: Exclude<IdeaOperation, 'generated'>) => {
+    setRunning(operation);
+    setError('');
+    try {
+      const ideas = await geminiService.refineIdeas(selected.map(n => n.idea), operation, instruction, profile);
+      const created = addRefinedIdeas(userId, selected, ideas, operation, instruction);
+      onNodesChange(getIdeaNodes(userId));
+      setSelectedIds([]);
+      setExpandedId(created[0]?.id || null);
+    } catch (err: any) {
+      setError(err?.message || 'Refinement failed. Try again.');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const renderNode = (node: IdeaNode, depth: number, showChildren = true): React.ReactNode => {
+    const isExpanded = expandedId === node.id;
+    const mergedFrom = node.operation === 'merge'
+      ? node.parentIds.map(id => byId.get(id)?.idea.title).filter(Boolean).join(' + ')
+      : '';
+    return (
+      <div key={node.id}>
+        <div className="flex items-start gap-2 py-1.5" style={{ paddingLeft: depth * 20 }}>
+          <input
+            type="checkbox"
+            checked={selectedIds.includes(node.id)}
+            onChange={() => toggleSelected(node.id)}
+            className="mt-1 w-4 h-4 accent-indigo-600"
+          />
+          <button onClick={() => onNodesChange(toggleStar(userId, node.id))} title={node.starred ? 'Unstar' : 'Star'} className="mt-0.5">
+            <Star size={15} className={node.starred ? 'text-amber-500 fill-amber-400' : 'text-slate-300 hover:text-amber-400'} />
+          </button>
+          <div className="flex-1 min-w-0">
+            <button onClick={() => setExpandedId(isExpanded ? null : node.id)} className="flex items-center gap-1 text-left text-sm font-semibold text-slate-800">
+              {isExpanded ? <ChevronDown size={14} className="shrink-0" /> : <ChevronRight size={14} className="shrink-0" />}
+              {node.idea.title}
+            </button>
+            <div className="flex flex-wrap items-center gap-1.5 mt-0.5 ml-5">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">{OPERATION_LABELS[node.operation]}</span>
+              {node.instruction && <span className="text-[11px] text-slate-500 italic">“{node.instruction}”</span>}
+              {mergedFrom && <span className="text-[11px] text-slate-400">from {mergedFrom}</span>}
+            </div>
+            {isExpanded && (
+              <div className="ml-5 mt-2 space-y-1.5 text-xs text-slate-600">
+                <p><span className="font-semibold text-slate-700">Problem:</span> {node.idea.problemStatement}</p>
+                <p><span className="font-semibold text-slate-700">Innovation:</span> {node.idea.innovationAngle}</p>
+                <p><span className="font-semibold text-slate-700">Solution:</span> {node.idea.solutionIdea}</p>
+                <button
+                  onClick={() => onSelect(node.idea, node.id)}
+                  disabled={disabled}
+                  className="mt-1 px-3 py-1.5 text-xs font-bold rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-60"
+                >
+                  Create project from this idea
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+        {showChildren && (children.get(node.id) || []).map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const actionClass = 'flex items-center gap-1.5 px-3 py-2 text-xs font-bold rounded-xl border transition-all disabled:opacity-40';
+
+  return (
+    <div className="p-6 bg-white rounded-3xl border border-slate-200 space-y-5">
+      <div>
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><GitBranch size={18} className="text-indigo-600" /> Refine ideas</h3>
+        <p className="text-sm text-slate-500">Tick one idea to get variations or a narrower scope, or tick several to merge them. Star favourites to keep them for later sessions.</p>
+      </div>
+
+      <div className="space-y-2">
+        <input
+          value={instruction}
+          onChange={e => setInstruction(e.target.value)}
+          placeholder='Optional instruction, e.g. "make it hardware-free"'
+          className="w-full bg-slate-50 border border-slate-200 px-4 py-2.5 rounded-xl text-sm text-slate-800 outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <div className="flex flex-wrap gap-1.5">
+          {QUICK_INSTRUCTIONS.map(text => (
+            <button key={text} onClick={() => setInstruction(text)} className="px-2.5 py-1 rounded-full text-[11px] border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-600">
+              {text}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 pt-1">
+          <button onClick={() => handleRefine('variation')} disabled={!!running || disabled || selected.length !== 1} className={`${actionClass} border-indigo-200 text-indigo-600 hover:bg-indigo-50`}>
+            {running === 'variation' ? <Loader2 size={13} className="animate-spin" /> : <Shuffle size={13} />} Variations
+          </button>
+          <button onClick={() => handleRefine('narrow')} disabled={!!running || disabled || selected.length !== 1} className={`${actionClass} border-indigo-200 text-indigo-600 hover:bg-indigo-50`}>
+            {running === 'narrow' ? <Loader2 size={13} className="animate-spin" /> : <Target size={13} />} Narrow
+          </button>
+          <button onClick={() => handleRefine('merge')} disabled={!!running || disabled || selected.length < 2} className={`${actionClass} border-indigo-200 text-indigo-600 hover:bg-indigo-50`}>
+            {running === 'merge' ? <Loader2 size={13} className="animate-spin" /> : <GitMerge size={13} />} Merge {selected.length > 1 ? selected.length : ''}
+          </button>
+          <span className="text-[11px] text-slate-400">{selected.length} selected</span>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {rootIds.map(id => byId.get(id)).filter((n): n is IdeaNode => !!n).map(root => renderNode(root, 0))}
+      </div>
+
+      {earlierStarred.length > 0 && (
+        <div className="pt-2">
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-1">Starred in earlier sessions</p>
+          <div className="divide-y divide-slate-100">
+            {earlierStarred.map(node => renderNode(node, 0, false))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdeaRefinementPanel;
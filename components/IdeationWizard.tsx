@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   Sparkles, 
   ArrowRight, 
@@ -17,7 +17,15 @@ import {
   Newspaper,
   BookOpen,
   Trophy,
-  Flame
+  Flame,
+  Square,
+  Save,
+  Trash2,
+  RefreshCw,
+  Bookmark,
+  Star,
+  Copy,
+  Library
 } from 'lucide-react';
 import { 
   UserProfile, 
@@ -30,59 +38,156 @@ import {
   Project,
   Source,
   AppUser,
-  TaskPriority,
-  TaskComplexity
+  Task,
+  GeneratedDocKey,
+  GenerationStep,
+  ProfilePreset,
+  IdeaEvaluation,
+  IdeaNode,
+  PriorProject
 } from '../types';
-import { geminiService } from '../services/geminiService';
+import { geminiService, cleanDocumentText, DOC_KEYS } from '../services/geminiService';
+import { buildTasksFromBreakdowns, guidanceFields } from '../services/projectGenerationService';
+import {
+  deletePreset,
+  diffIdeaSets,
+  diffProfiles,
+  getLastProfile,
+  getPresets,
+  saveLastProfile,
+  savePreset,
+} from '../services/profilePresetService';
+import { isAbortError } from '../services/llmProvider';
+import IdeaComparisonPanel from './IdeaComparisonPanel';
+import IdeaRefinementPanel from './IdeaRefinementPanel';
+import { addGeneratedIdeas, getIdeaNodes, toggleStar } from '../services/ideaLineageService';
+import {
+  buildPriorArtIndex,
+  DUPLICATE_THRESHOLD,
+  findPriorArt,
+  getCorpus,
+  projectsAsPriorArt,
+} from '../services/priorArtService';
+import PriorArtCorpusModal from './PriorArtCorpusModal';
+import { KNOWLEDGE_AREAS } from '../services/learningPathService';
+
+const DOC_PREVIEW_LABELS: Record<GeneratedDocKey, string> = {
+  abstract: 'Abstract',
+  prd: 'PRD',
+  designDoc: 'Design Doc',
+};
+
+const EMPTY_DOC_PREVIEW: Record<GeneratedDocKey, string> = { abstract: '', prd: '', designDoc: '' };
+
+const DEFAULT_PROFILE: UserProfile = {
+  academicLevel: AcademicLevel.UG,
+  department: 'CSE',
+  semester: '6th Semester',
+  skillLevel: SkillLevel.Intermediate,
+  domainInterests: [],
+  techPreferences: [],
+  careerGoal: CareerGoal.Industry,
+  timeline: '6 Months',
+  interestPrompt: '',
+  projectType: ProjectType.MajorProject,
+  teamSize: 3,
+  methodology: Methodology.Agile,
+  preferredComplexity: ProjectComplexity.Moderate,
+  knowledgeAreas: [],
+  advisorGuidelines: '',
+  budgetConstraint: 'Low (Free / Open-source tools only)',
+  hasHardwareComponent: false,
+  targetPlatform: [],
+  referenceProjects: ''
+};
 
 interface Props {
   onComplete: (project: Project) => void;
   currentUser: AppUser;
   teamMembers: AppUser[];
+  /** Existing projects, checked for duplicates alongside the imported corpus */
+  projects: Project[];
 }
 
-const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers }) => {
+const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers, projects }) => {
   const [step, setStep] = useState(1);
   const [loading, setLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState<string>('');
   const [academicIdeas, setAcademicIdeas] = useState<Partial<Project>[]>([]);
   const [trendingIdeas, setTrendingIdeas] = useState<Partial<Project>[]>([]);
-  const [sources, setSources] = useState<Source[]>([]);
   const [selectedIdeaId, setSelectedIdeaId] = useState<string | null>(null);
+  const [docPreview, setDocPreview] = useState<Record<GeneratedDocKey, string>>(EMPTY_DOC_PREVIEW);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
 
-  const [profile, setProfile] = useState<UserProfile>({
-    academicLevel: AcademicLevel.UG,
-    department: 'CSE',
-    semester: '6th Semester',
-    skillLevel: SkillLevel.Intermediate,
-    domainInterests: [],
-    techPreferences: [],
-    careerGoal: CareerGoal.Industry,
-    timeline: '6 Months',
-    interestPrompt: '',
-    projectType: ProjectType.MajorProject,
-    teamSize: 3,
-    methodology: Methodology.Agile,
-    preferredComplexity: ProjectComplexity.Moderate,
-    knowledgeAreas: [],
-    advisorGuidelines: '',
-    budgetConstraint: 'Low (Free / Open-source tools only)',
-    hasHardwareComponent: false,
-    targetPlatform: [],
-    referenceProjects: ''
-  });
+  const [profile, setProfile] = useState<UserProfile>(() => ({
+    ...DEFAULT_PROFILE,
+    ...getLastProfile(currentUser.id),
+  }));
+  const [presets, setPresets] = useState<ProfilePreset[]>(() => getPresets(currentUser.id));
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  // Profile that produced the ideas on screen, and the run before it for comparison
+  const [ideaProfile, setIdeaProfile] = useState<UserProfile | null>(null);
+  const [previousRun, setPreviousRun] = useState<{ ideas: Partial<Project>[]; profile: UserProfile } | null>(null);
+  const [comparison, setComparison] = useState<IdeaEvaluation[] | null>(null);
+  const [ideaNodes, setIdeaNodes] = useState<IdeaNode[]>(() => getIdeaNodes(currentUser.id));
+  // Lineage roots for the ideas on screen, academic first, in card order
+  const [rootIds, setRootIds] = useState<string[]>([]);
+  const [corpus, setCorpus] = useState<PriorProject[]>(() => getCorpus(currentUser.id));
+  const [showCorpus, setShowCorpus] = useState(false);
+
+  const priorArtIndex = useMemo(
+    () => buildPriorArtIndex([...corpus, ...projectsAsPriorArt(projects)]),
+    [corpus, projects]
+  );
 
   const nextStep = () => setStep(s => s + 1);
   const prevStep = () => setStep(s => s - 1);
 
+  const handleLoadPreset = (presetId: string) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) setProfile({ ...DEFAULT_PROFILE, ...preset.profile });
+  };
+
+  const handleSavePreset = () => {
+    const current = presets.find(p => p.id === selectedPresetId);
+    const name = window.prompt('Preset name (an existing name is overwritten)', current?.name || '');
+    if (!name?.trim()) return;
+    const saved = savePreset(currentUser.id, name, profile);
+    setPresets(getPresets(currentUser.id));
+    setSelectedPresetId(saved.id);
+  };
+
+  const handleDeletePreset = () => {
+    const current = presets.find(p => p.id === selectedPresetId);
+    if (!current || !window.confirm(`Delete the preset "${current.name}"?`)) return;
+    deletePreset(currentUser.id, current.id);
+    setPresets(getPresets(currentUser.id));
+    setSelectedPresetId('');
+  };
+
   const handleGenerateIdeas = async () => {
     setLoading(true);
     setLoadingStep('Searching IEEE, Scholar, X, and News for trending problems...');
+    saveLastProfile(currentUser.id, profile);
+    const usedProfile = profile;
     try {
-      const result = await geminiService.generateProjectIdeas(profile);
+      const result = await geminiService.generateProjectIdeas(usedProfile);
+      // Keep the ideas being replaced so the new set can be compared against them
+      if (ideaProfile && academicIdeas.length + trendingIdeas.length > 0) {
+        setPreviousRun({ ideas: [...academicIdeas, ...trendingIdeas], profile: ideaProfile });
+      }
+      setIdeaProfile(usedProfile);
+      setComparison(null);
+      const roots = addGeneratedIdeas(currentUser.id, [...result.academicIdeas, ...result.trendingIdeas]);
+      setRootIds(roots.map(r => r.id));
+      setIdeaNodes(getIdeaNodes(currentUser.id));
       setAcademicIdeas(result.academicIdeas);
       setTrendingIdeas(result.trendingIdeas);
-      setSources(result.sources);
       nextStep();
     } catch (error) {
       alert("Failed to generate ideas. Please try again.");
@@ -92,19 +197,68 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
     }
   };
 
+  /** Stream one document, mirroring tokens into the loading overlay */
+  const streamDocumentation = async (key: GeneratedDocKey, idea: Partial<Project>, signal: AbortSignal): Promise<string> => {
+    let text = '';
+    for await (const delta of geminiService.streamDocument(key, idea, ideaProfile || profile, signal)) {
+      text += delta;
+      setDocPreview(prev => ({ ...prev, [key]: text }));
+    }
+    return cleanDocumentText(text);
+  };
+
+  const handleStopGeneration = () => {
+    abortRef.current?.abort();
+  };
+
   const handleSelectIdea = async (idea: Partial<Project>, id: string) => {
+    const [closest] = findPriorArt(priorArtIndex, idea);
+    if (closest && closest.score >= DUPLICATE_THRESHOLD) {
+      const label = `"${closest.entry.title}"${closest.entry.year ? ` (${closest.entry.year})` : ''}`;
+      const proceed = window.confirm(
+        `This idea is ${Math.round(closest.score * 100)}% similar to ${label}. Create the project anyway?`
+      );
+      if (!proceed) return;
+    }
     setSelectedIdeaId(id);
     setLoading(true);
     setLoadingStep('Generating deep documentation and architectural roadmap...');
+    setDocPreview(EMPTY_DOC_PREVIEW);
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
-      const [docs, guidance] = await Promise.all([
-        geminiService.generateProjectDocumentation(idea, profile),
-        geminiService.generateGuidance(idea)
+      // Each call may fail on its own; whatever succeeds is kept and the rest can be retried from the project
+      const [docResults, [guidanceResult]] = await Promise.all([
+        Promise.allSettled(DOC_KEYS.map(key => streamDocumentation(key, idea, controller.signal))),
+        Promise.allSettled([geminiService.generateGuidance(idea, controller.signal)]),
       ]);
-      
-      // Generate initial tasks (non-fatal — project still created if this fails)
-      let generatedTasks: any[] = [];
+      if (controller.signal.aborted) {
+        setSelectedIdeaId(null);
+        return;
+      }
+
+      const failedGenerations: GenerationStep[] = [];
+      const docs = { ...EMPTY_DOC_PREVIEW };
+      docResults.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+          docs[DOC_KEYS[i]] = result.value;
+        } else {
+          console.warn(`Generating ${DOC_KEYS[i]} failed:`, result.reason);
+          failedGenerations.push(DOC_KEYS[i]);
+        }
+      });
+      const guidance = guidanceResult.status === 'fulfilled' ? guidanceFields(guidanceResult.value) : null;
+      if (!guidance) {
+        console.warn('Generating guidance failed:', guidanceResult.status === 'rejected' && guidanceResult.reason);
+        failedGenerations.push('guidance');
+      }
+      // Nothing usable came back, so there is no project worth saving
+      if (!guidance && failedGenerations.length === DOC_KEYS.length + 1) {
+        throw (guidanceResult as PromiseRejectedResult).reason;
+      }
+
+      let generatedTasks: Task[] = [];
       try {
         setLoadingStep('Generating project tasks...');
         const memberNames = teamMembers.map(m => m.fullName).filter(Boolean);
@@ -113,48 +267,13 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
           title: idea.title!,
           problemStatement: idea.problemStatement!,
           solutionIdea: idea.solutionIdea!,
-          techStack: guidance.techStack,
-        }, names);
-
-        generatedTasks = taskBreakdowns.flatMap(breakdown => {
-          const parentTaskId = Math.random().toString(36).substr(2, 9);
-          const childIds = (breakdown.subtasks || []).map(() => Math.random().toString(36).substr(2, 9));
-          const parentTask = {
-            id: parentTaskId,
-            title: breakdown.parentTask,
-            description: `Parent task for ${breakdown.parentTask}`,
-            assignedTo: currentUser.fullName,
-            status: 'todo' as const,
-            deadline: 'No Deadline',
-            priority: TaskPriority.Medium,
-            priorityScore: 0,
-            complexity: TaskComplexity.Moderate,
-            estimatedHours: (breakdown.subtasks || []).reduce((sum: number, sub: any) => sum + (sub.estimatedHours || 0), 0),
-            dependencies: [],
-            subtasks: childIds,
-            tags: ['auto-generated'],
-          };
-
-          const subtasks = (breakdown.subtasks || []).map((sub: any, idx: number) => ({
-            ...sub,
-            id: childIds[idx],
-            status: sub.status || 'todo',
-            priority: sub.priority || TaskPriority.Medium,
-            complexity: sub.complexity || TaskComplexity.Moderate,
-            priorityScore: 0,
-            dependencies: sub.dependencies || [],
-            subtasks: [],
-            tags: sub.tags || ['auto-generated'],
-            parentTaskId: parentTaskId,
-            estimatedHours: sub.estimatedHours || 4,
-            assignedTo: sub.assignedTo || currentUser.fullName,
-            deadline: sub.deadline || 'No Deadline',
-          }));
-
-          return [parentTask, ...subtasks];
-        });
+          techStack: guidance?.techStack || [],
+        }, names, controller.signal);
+        generatedTasks = buildTasksFromBreakdowns(taskBreakdowns, currentUser.fullName);
       } catch (taskErr) {
-        console.warn('Task generation failed (non-fatal):', taskErr);
+        if (isAbortError(taskErr)) throw taskErr;
+        console.warn('Task generation failed:', taskErr);
+        failedGenerations.push('tasks');
       }
 
       const fullProject: Project = {
@@ -163,26 +282,37 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
         problemStatement: idea.problemStatement!,
         innovationAngle: idea.innovationAngle!,
         solutionIdea: idea.solutionIdea!,
-        abstract: docs.abstract || '',
-        prd: docs.prd || '',
-        designDoc: docs.designDoc || '',
-        techStack: guidance.techStack || [],
-        algorithms: guidance.algorithms || [],
-        datasets: guidance.datasets || [],
-        roadmap: guidance.roadmap || [],
-        implementationStrategy: guidance.implementationStrategy || '',
-        learningResources: guidance.learningResources || [],
+        ...docs,
+        techStack: [],
+        algorithms: [],
+        datasets: [],
+        roadmap: [],
+        implementationStrategy: '',
+        learningResources: [],
+        ...guidance,
         vivaQuestions: [],
         tasks: generatedTasks,
-        sources: sources,
+        sources: idea.sources || [],
+        profile: ideaProfile || profile,
+        failedGenerations: failedGenerations.length > 0 ? failedGenerations : undefined,
         status: 'planning'
       };
       
+      // Stop may have been pressed while tasks were generating
+      if (controller.signal.aborted) {
+        setSelectedIdeaId(null);
+        return;
+      }
       onComplete(fullProject);
     } catch (error: any) {
+      if (isAbortError(error)) {
+        setSelectedIdeaId(null);
+        return;
+      }
       console.error('Error finalizing project:', error);
       alert(`Error finalizing project: ${error?.message || 'Unknown error. Check console for details.'}`);
     } finally {
+      abortRef.current = null;
       setLoading(false);
       setLoadingStep('');
     }
@@ -224,8 +354,23 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
     }));
   };
 
+  const ideaDiff = useMemo(
+    () => previousRun ? diffIdeaSets(previousRun.ideas, [...academicIdeas, ...trendingIdeas]) : null,
+    [previousRun, academicIdeas, trendingIdeas]
+  );
+  // Every source the ideas on screen draw on, each link once
+  const sources = useMemo(() => {
+    const byUri = new Map<string, Source>();
+    [...academicIdeas, ...trendingIdeas].forEach(idea => idea.sources?.forEach(s => byUri.set(s.uri, s)));
+    return [...byUri.values()];
+  }, [academicIdeas, trendingIdeas]);
+  const profileChanges = previousRun && ideaProfile ? diffProfiles(previousRun.profile, ideaProfile) : [];
+
   const renderIdeaCard = (idea: Partial<Project>, idx: number, type: 'academic' | 'trending') => {
     const id = `${type}-${idx}`;
+    const isNew = !!ideaDiff?.added.includes(idea);
+    const node = ideaNodes.find(n => n.id === rootIds[type === 'academic' ? idx : academicIdeas.length + idx]);
+    const priorArt = findPriorArt(priorArtIndex, idea);
     return (
       <div 
         key={id}
@@ -235,12 +380,26 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
         }`}
       >
         <div className="flex justify-between items-start mb-3">
-          <h3 className="text-lg font-bold text-slate-800 leading-tight pr-8">{idea.title}</h3>
-          {loading && selectedIdeaId === id ? (
-            <Loader2 className="animate-spin text-indigo-600" size={20} />
-          ) : (
-            <ChevronRight size={20} className="text-slate-300 group-hover:text-indigo-600 transition-colors" />
-          )}
+          <h3 className="text-lg font-bold text-slate-800 leading-tight pr-2">{idea.title}</h3>
+          <div className="flex items-center gap-1 shrink-0">
+            {node && (
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  setIdeaNodes(toggleStar(currentUser.id, node.id));
+                }}
+                title={node.starred ? 'Unstar' : 'Star to keep for later sessions'}
+                className="p-1"
+              >
+                <Star size={18} className={node.starred ? 'text-amber-500 fill-amber-400' : 'text-slate-300 hover:text-amber-400'} />
+              </button>
+            )}
+            {loading && selectedIdeaId === id ? (
+              <Loader2 className="animate-spin text-indigo-600" size={20} />
+            ) : (
+              <ChevronRight size={20} className="text-slate-300 group-hover:text-indigo-600 transition-colors" />
+            )}
+          </div>
         </div>
         <p className="text-slate-600 text-xs leading-relaxed line-clamp-4 mb-4 flex-1">{idea.problemStatement}</p>
         
@@ -256,6 +415,24 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
           <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-emerald-600 bg-white border border-emerald-100 px-2 py-1 rounded-lg">
             <Zap size={12} /> Innovation
           </div>
+          {priorArt.length > 0 && (
+            <div
+              className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-lg border bg-white ${
+                priorArt[0].score >= DUPLICATE_THRESHOLD ? 'text-red-600 border-red-100' : 'text-amber-600 border-amber-100'
+              }`}
+              title={priorArt.map(m => `${Math.round(m.score * 100)}% · ${m.entry.title}${m.entry.year ? ` (${m.entry.year})` : ''}${m.entry.source === 'app' ? ' · in app' : ''}\nShared: ${m.sharedTerms.join(', ')}`).join('\n\n')}
+            >
+              <Copy size={12} />
+              {priorArt[0].score >= DUPLICATE_THRESHOLD ? 'Possible duplicate' : 'Similar'} {Math.round(priorArt[0].score * 100)}%
+            </div>
+          )}
+          {ideaDiff && (
+            <div className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-lg border bg-white ${
+              isNew ? 'text-amber-600 border-amber-100' : 'text-slate-400 border-slate-100'
+            }`}>
+              {isNew ? 'New' : 'Also in last run'}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -285,6 +462,29 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
             </div>
             <h3 className="text-xl font-bold text-slate-800 mb-2">Architecting Your Project</h3>
             <p className="text-slate-500 font-medium max-w-xs">{loadingStep}</p>
+            {selectedIdeaId && (
+              <>
+                <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-3 w-full max-w-4xl text-left">
+                  {(Object.keys(DOC_PREVIEW_LABELS) as GeneratedDocKey[]).map(key => (
+                    <div key={key} className="bg-slate-50 border border-slate-200 rounded-2xl p-4">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-[10px] font-bold text-indigo-600 uppercase tracking-widest">{DOC_PREVIEW_LABELS[key]}</span>
+                        <span className="text-[10px] text-slate-400">{docPreview[key].length} chars</span>
+                      </div>
+                      <p className="text-[11px] text-slate-600 font-mono whitespace-pre-wrap h-28 overflow-hidden flex flex-col-reverse">
+                        <span>{docPreview[key].slice(-400) || 'Waiting for first tokens…'}</span>
+                      </p>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={handleStopGeneration}
+                  className="mt-6 flex items-center gap-2 bg-slate-800 text-white px-5 py-2 rounded-xl text-sm font-bold hover:bg-slate-900 transition-all"
+                >
+                  <Square size={12} fill="currentColor" /> Stop
+                </button>
+              </>
+            )}
           </div>
         )}
 
@@ -295,6 +495,35 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
               <p className="text-slate-500 dark:text-gray-400">Tell us about your academic background, team, and project context.</p>
             </div>
 
+            <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 dark:bg-gray-700/50 border border-slate-200 dark:border-gray-600 rounded-2xl">
+              <Bookmark size={16} className="text-indigo-600 ml-1" />
+              <select
+                value={selectedPresetId}
+                onChange={e => handleLoadPreset(e.target.value)}
+                className="flex-1 min-w-[12rem] bg-white dark:bg-gray-700 border border-slate-200 dark:border-gray-600 px-3 py-2 rounded-xl text-sm text-slate-800 dark:text-white outline-none"
+              >
+                <option value="">{presets.length > 0 ? 'Load a saved profile preset...' : 'No saved presets yet'}</option>
+                {presets.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleSavePreset}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium rounded-xl border border-slate-200 dark:border-gray-600 text-slate-600 dark:text-gray-300 hover:bg-white dark:hover:bg-gray-700"
+              >
+                <Save size={14} /> Save as preset
+              </button>
+              {selectedPresetId && (
+                <button
+                  onClick={handleDeletePreset}
+                  className="p-2 rounded-xl text-slate-400 hover:text-red-500 hover:bg-white dark:hover:bg-gray-700"
+                  title="Delete preset"
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="space-y-2">
                 <label className="text-sm font-semibold text-slate-700 dark:text-gray-300">Academic Level</label>
@@ -373,7 +602,7 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
             <div className="space-y-4">
               <label className="text-sm font-semibold text-slate-700 dark:text-gray-300">Subjects / Knowledge Areas You're Confident In</label>
               <div className="flex flex-wrap gap-2">
-                {['Data Structures', 'Algorithms', 'DBMS', 'Operating Systems', 'Computer Networks', 'Software Engineering', 'Machine Learning', 'Deep Learning', 'Web Development', 'Mobile Development', 'Embedded Systems', 'Digital Signal Processing', 'Compiler Design', 'Discrete Math', 'Statistics & Probability'].map(area => (
+                {KNOWLEDGE_AREAS.map(area => (
                   <button
                     key={area}
                     onClick={() => toggleKnowledge(area)}
@@ -642,11 +871,61 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
                 <h2 className="text-3xl font-bold text-slate-800 mb-1">Project Recommendations</h2>
                 <p className="text-slate-500">Curated from Academic Research, SIH, X, and Tech News.</p>
               </div>
-              <div className="flex items-center gap-2 text-indigo-600 bg-indigo-50 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest border border-indigo-100">
-                <Globe size={14} className="animate-pulse" /> Live Search Grounding Active
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setStep(1)}
+                  disabled={loading}
+                  className="flex items-center gap-2 text-indigo-600 bg-white px-4 py-2 rounded-xl text-xs font-bold border border-indigo-200 hover:bg-indigo-50 transition-all disabled:opacity-50"
+                >
+                  <RefreshCw size={14} /> Edit profile &amp; regenerate
+                </button>
+                <div className="flex items-center gap-2 text-indigo-600 bg-indigo-50 px-4 py-2 rounded-xl text-xs font-bold uppercase tracking-widest border border-indigo-100">
+                  <Globe size={14} className="animate-pulse" /> Live Search Grounding Active
+                </div>
               </div>
             </div>
 
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+              <Library size={14} className="text-slate-400" />
+              Prior-art check against {corpus.length} imported and {projects.length} stored projects. Hover a match badge for details.
+              <button onClick={() => setShowCorpus(true)} className="font-semibold text-indigo-600 hover:underline">
+                Manage past projects
+              </button>
+            </div>
+
+            {ideaDiff && (
+              <div className="p-5 bg-amber-50/60 border border-amber-100 rounded-3xl space-y-3">
+                <p className="text-sm font-bold text-slate-800">
+                  Compared with the previous run: {ideaDiff.added.length} new, {ideaDiff.kept.length} kept, {ideaDiff.removed.length} dropped
+                </p>
+                {profileChanges.length > 0 ? (
+                  <ul className="text-xs text-slate-600 space-y-1">
+                    {profileChanges.map(change => (
+                      <li key={change.field}>
+                        <span className="font-semibold">{change.label}:</span>{' '}
+                        <span className="line-through text-slate-400">{change.before}</span> → {change.after}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-slate-500">The profile was not changed; differences come from the model alone.</p>
+                )}
+                {ideaDiff.removed.length > 0 && (
+                  <details className="text-xs text-slate-600">
+                    <summary className="cursor-pointer font-semibold">Ideas no longer suggested</summary>
+                    <ul className="mt-2 space-y-1.5">
+                      {ideaDiff.removed.map((idea, i) => (
+                        <li key={i}>
+                          <span className="font-semibold text-slate-700">{idea.title}</span>
+                          <span className="block text-slate-500 line-clamp-2">{idea.problemStatement}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+              </div>
+            )}
+
             <div className="space-y-12">
               {/* Section 1: Academic & SIH */}
               <section>
@@ -681,6 +960,29 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
               </section>
             </div>
 
+            <IdeaComparisonPanel
+              candidates={[
+                ...academicIdeas.map((idea, idx) => ({ id: `academic-${idx}`, idea })),
+                ...trendingIdeas.map((idea, idx) => ({ id: `trending-${idx}`, idea })),
+              ]}
+              profile={ideaProfile || profile}
+              userId={currentUser.id}
+              evaluations={comparison}
+              onEvaluations={setComparison}
+              onSelect={handleSelectIdea}
+              disabled={loading}
+            />
+
+            <IdeaRefinementPanel
+              userId={currentUser.id}
+              rootIds={rootIds}
+              nodes={ideaNodes}
+              onNodesChange={setIdeaNodes}
+              profile={ideaProfile || profile}
+              onSelect={handleSelectIdea}
+              disabled={loading}
+            />
+
             {sources.length > 0 && (
               <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
                 <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-[0.2em] mb-4 flex items-center gap-2">
@@ -715,6 +1017,15 @@ const IdeationWizard: React.FC<Props> = ({ onComplete, currentUser, teamMembers
           </div>
         )}
       </div>
+
+      {showCorpus && (
+        <PriorArtCorpusModal
+          userId={currentUser.id}
+          appProjectCount={projects.length}
+          onClose={() => setShowCorpus(false)}
+          onChange={setCorpus}
+        />
+      )}
     </div>
   );
 };
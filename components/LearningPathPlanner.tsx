@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { AppUser, Project } from '../types';
+import {
+  addPlanToTasks,
+  buildLearningPlan,
+  computeSkillGaps,
+  isItemComplete,
+  KNOWLEDGE_AREAS,
+  learningProgress,
+  memberKnowledge,
+  setItemComplete,
+} from '../services/learningPathService';
+import { CheckCircle2, Circle, ExternalLink, GraduationCap, ListPlus, RefreshCw } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  teamMembers: AppUser[];
+  onUpdateProject: (project: Project) => void;
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40';
+
+const LearningPathPlanner: React.FC<Props> = ({ project, teamMembers, onUpdateProject }) => {
+  const [editingMember, setEditingMember] = useState<string | null>(null);
+
+  const gaps = computeSkillGaps(project, teamMembers);
+  const plan = project.learningPlan || [];
+  const progress = learningProgress(project);
+  const pendingTasks = plan.filter(item => !item.taskId || !project.tasks.some(t => t.id === item.taskId)).length;
+
+  const toggleSkill = (member: AppUser, area: string) => {
+    const known = memberKnowledge(project, member);
+    const next = known.includes(area) ? known.filter(a => a !== area) : [...known, area];
+    onUpdateProject({ ...project, memberSkills: { ...project.memberSkills, [member.fullName]: next } });
+  };
+
+  const handleBuild = () => {
+    onUpdateProject({ ...project, learningPlan: buildLearningPlan(project, gaps) });
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[40px] border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center gap-3 mb-8">
+        <div className="bg-emerald-50 p-2 rounded-lg text-emerald-600"><GraduationCap size={24} /></div>
+        <h3 className="text-2xl font-bold text-slate-800">Learning Path</h3>
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={handleBuild} disabled={teamMembers.length === 0} className={buttonClass}>
+            <RefreshCw size={13} /> {plan.length ? 'Rebuild plan' : 'Build plan'}
+          </button>
+          <button onClick={() => onUpdateProject(addPlanToTasks(project))} disabled={pendingTasks === 0} className={buttonClass}>
+            <ListPlus size={13} /> Add to tasks{pendingTasks > 0 && ` (${pendingTasks})`}
+          </button>
+        </div>
+      </div>
+
+      {/* Skill gaps */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+        {gaps.map(gap => {
+          const member = teamMembers.find(m => m.fullName === gap.member)!;
+          return (
+            <div key={gap.member} className="p-5 bg-slate-50 border border-slate-100 rounded-3xl">
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-sm font-bold text-slate-800">{gap.member}</span>
+                <button
+                  onClick={() => setEditingMember(editingMember === gap.member ? null : gap.member)}
+                  className="text-[11px] font-semibold text-indigo-600 hover:underline"
+                >
+                  {editingMember === gap.member ? 'Done' : 'Edit skills'}
+                </button>
+              </div>
+              {editingMember === gap.member ? (
+                <div className="flex flex-wrap gap-1.5">
+                  {KNOWLEDGE_AREAS.map(area => (
+                    <button
+                      key={area}
+                      onClick={() => toggleSkill(member, area)}
+                      className={`px-2 py-1 rounded-full text-[10px] font-medium border ${
+                        gap.known.includes(area) ? 'bg-violet-600 border-violet-600 text-white' : 'bg-white border-slate-200 text-slate-500'
+                      }`}
+                    >
+                      {area}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Knows</p>
+                  <p className="text-xs text-slate-600 mb-3">{gap.known.length ? gap.known.join(', ') : 'Nothing recorded yet — edit skills.'}</p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Needs for this stack</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {gap.missing.length === 0 && <span className="text-xs text-emerald-600 font-medium">No gaps</span>}
+                    {gap.missing.map(requirement => (
+                      <span
+                        key={requirement.area}
+                        title={requirement.topics.map(t => t.reason).join('\n')}
+                        className="px-2 py-0.5 rounded-full text-[10px] font-semibold bg-rose-50 text-rose-600 border border-rose-100"
+                      >
+                        {requirement.area}
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Plan per member */}
+      {plan.length === 0 ? (
+        <div className="p-6 bg-slate-50 rounded-[32px] text-sm text-slate-400 italic">
+          Record what each member already knows, then build a plan covering the rest of the stack.
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {progress.map(memberProgress => {
+            const percent = memberProgress.hoursTotal ? Math.round((memberProgress.hoursDone / memberProgress.hoursTotal) * 100) : 0;
+            return (
+              <div key={memberProgress.member}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-bold text-slate-800">{memberProgress.member}</span>
+                  <span className="text-xs text-slate-500">
+                    {memberProgress.done}/{memberProgress.total} steps · {memberProgress.hoursDone}/{memberProgress.hoursTotal} h
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-100 overflow-hidden mb-3">
+                  <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+                <div className="space-y-2">
+                  {plan.filter(item => item.member === memberProgress.member).map((item, i) => {
+                    const complete = isItemComplete(project, item);
+                    return (
+                      <div key={item.id} className={`flex items-start gap-3 p-4 border rounded-2xl ${complete ? 'bg-emerald-50/40 border-emerald-100' : 'bg-white border-slate-100'}`}>
+                        <button onClick={() => onUpdateProject(setItemComplete(project, item.id, !complete))} className="mt-0.5">
+                          {complete ? <CheckCircle2 size={18} className="text-emerald-500" /> : <Circle size={18} className="text-slate-300" />}
+                        </button>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-[10px] font-bold text-slate-400">{i + 1}.</span>
+                            <span className={`text-sm font-bold ${complete ? 'text-slate-400 line-through' : 'text-slate-800'}`}>{item.topic}</span>
+                            <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-700 bg-emerald-50 px-2 py-0.5 rounded-lg">{item.area}</span>
+                            {item.taskId && project.tasks.some(t => t.id === item.taskId) && (
+                              <span className="text-[10px] font-bold uppercase tracking-wider text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded-lg">In tasks</span>
+                            )}
+                            <span className="ml-auto text-xs font-semibold text-slate-500">{item.estimatedHours} h</span>
+                          </div>
+                          <p className="text-[11px] text-slate-500 mt-1">{item.reason}</p>
+                          {item.resources.length > 0 && (
+                            <div className="flex flex-wrap gap-3 mt-2">
+                              {item.resources.map(resource => (
+                                <a
+                                  key={resource.url}
+                                  href={resource.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center gap-1 text-[11px] font-medium text-emerald-700 hover:underline"
+                                >
+                                  <ExternalLink size={11} /> {resource.title}
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearningPathPlanner;
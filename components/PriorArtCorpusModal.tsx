@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { PriorProject } from '../types';
+import { clearCorpus, getCorpus, importCorpus, parseCorpusFile } from '../services/priorArtService';
+import { Upload, X } from 'lucide-react';
+
+interface Props {
+  userId: string;
+  /** Projects stored in the app, which are always part of the check */
+  appProjectCount: number;
+  onClose: () => void;
+  onChange: (corpus: PriorProject[]) => void;
+}
+
+const PriorArtCorpusModal: React.FC<Props> = ({ userId, appProjectCount, onClose, onChange }) => {
+  const [corpus, setCorpus] = useState<PriorProject[]>(() => getCorpus(userId));
+  const [status, setStatus] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    const next = getCorpus(userId);
+    setCorpus(next);
+    onChange(next);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const entries = await parseCorpusFile(file);
+      const added = importCorpus(userId, entries);
+      refresh();
+      setStatus(`Imported ${added} of ${entries.length} projects from ${file.name}${added < entries.length ? ' (the rest were already present)' : ''}.`);
+    } catch (err: any) {
+      setStatus(`Import failed: ${err.message}`);
+    }
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Remove every imported past project? Projects stored in the app are still checked.')) return;
+    clearCorpus(userId);
+    refresh();
+    setStatus('Imported corpus cleared.');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 dark:text-white">Past Projects Corpus</h3>
+            <p className="text-[11px] text-slate-400">{corpus.length} imported · {appProjectCount} stored in the app</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3 border-b border-slate-100 dark:border-gray-700">
+          <p className="text-sm text-slate-600 dark:text-gray-300">
+            Import previous years' projects as CSV, XLSX or JSON. A <span className="font-mono text-xs">title</span> column is required;
+            <span className="font-mono text-xs"> problem</span>/<span className="font-mono text-xs">abstract</span>,
+            <span className="font-mono text-xs"> solution</span>, <span className="font-mono text-xs">year</span> and
+            <span className="font-mono text-xs"> department</span> are used when present. Everything stays on this device.
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white"
+            >
+              <Upload size={14} /> Import file
+            </button>
+            <input ref={importRef} type="file" accept=".csv,.json,.xlsx,.xls" className="hidden" onChange={handleImport} />
+            <button
+              onClick={handleClear}
+              disabled={corpus.length === 0}
+              className="px-3 py-2 text-sm font-medium rounded-xl border border-red-100 text-red-500 hover:bg-red-50 disabled:opacity-40"
+            >
+              Clear imported
+            </button>
+            {status && <span className="text-xs text-slate-400 ml-2">{status}</span>}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-1">
+          {corpus.length === 0 && <p className="text-sm text-slate-400 text-center py-8">No past projects imported yet.</p>}
+          {corpus.map(entry => (
+            <div key={entry.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl hover:bg-slate-50 dark:hover:bg-gray-900">
+              <span className="text-sm text-slate-700 dark:text-gray-200 truncate">{entry.title}</span>
+              <span className="text-[11px] text-slate-400 shrink-0">{[entry.department, entry.year].filter(Boolean).join(' · ')}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PriorArtCorpusModal;
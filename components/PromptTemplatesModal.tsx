@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PromptTemplateId, PromptTemplateVersion } from '../types';
+import {
+  buildTemplateExport,
+  DEFAULT_PROMPTS,
+  findUnknownVariables,
+  getActiveTemplate,
+  getTemplateHistory,
+  importTemplates,
+  PROMPT_VARIABLES,
+  resetTemplate,
+  saveTemplateVersion,
+} from '../services/promptTemplates';
+import { exportPromptTemplatesJson } from '../services/exportService';
+import { Download, History, RotateCcw, Upload, X } from 'lucide-react';
+
+interface Props {
+  onClose: () => void;
+}
+
+const TEMPLATE_IDS = Object.keys(DEFAULT_PROMPTS) as PromptTemplateId[];
+
+const PromptTemplatesModal: React.FC<Props> = ({ onClose }) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('docs.abstract');
+  const [system, setSystem] = useState('');
+  const [user, setUser] = useState('');
+  const [note, setNote] = useState('');
+  const [history, setHistory] = useState<PromptTemplateVersion[]>([]);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  const [status, setStatus] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+  const userRef = useRef<HTMLTextAreaElement>(null);
+
+  const load = (id: PromptTemplateId) => {
+    const active = getActiveTemplate(id);
+    setSystem(active.system);
+    setUser(active.user);
+    setActiveVersion(active.version);
+    setHistory(getTemplateHistory(id));
+    setNote('');
+  };
+
+  useEffect(() => {
+    load(selectedId);
+    setStatus('');
+  }, [selectedId]);
+
+  const active = getActiveTemplate(selectedId);
+  const isDirty = system !== active.system || user !== active.user;
+  const unknown = findUnknownVariables(`${system}\n${user}`);
+
+  const handleSave = () => {
+    const saved = saveTemplateVersion(selectedId, { system, user }, note);
+    load(selectedId);
+    setStatus(`Saved as version ${saved.version}.`);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace this template with the shipped default? Your versions stay in the history.')) return;
+    resetTemplate(selectedId);
+    load(selectedId);
+    setStatus('Reset to the shipped default.');
+  };
+
+  const handleRestore = (version: PromptTemplateVersion) => {
+    setSystem(version.system);
+    setUser(version.user);
+    setNote(`Restored version ${version.version}`);
+    setStatus(`Loaded version ${version.version} — save to make it active.`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = importTemplates(await file.text());
+      load(selectedId);
+      setStatus(count > 0 ? `Imported ${count} template${count === 1 ? '' : 's'}.` : 'All templates already up to date.');
+    } catch (err: any) {
+      setStatus(`Import failed: ${err.message}`);
+    }
+  };
+
+  /** Insert a placeholder at the cursor of the user prompt */
+  const insertVariable = (name: string) => {
+    const el = userRef.current;
+    const token = `{{${name}}}`;
+    if (!el) {
+      setUser(prev => prev + token);
+      return;
+    }
+    const start = el.selectionStart;
+    const end = el.selectionEnd;
+    setUser(user.slice(0, start) + token + user.slice(end));
+    setTimeout(() => {
+      el.focus();
+      el.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const textareaClass = 'w-full rounded-xl border border-slate-200 dark:border-gray-600 px-3 py-2 text-xs font-mono bg-white dark:bg-gray-800 text-slate-900 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-5xl w-full h-[88vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white">Prompt Templates</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => importRef.current?.click()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-200 dark:border-gray-600 text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800"
+            >
+              <Upload size={13} /> Import
+            </button>
+            <button
+              onClick={() => exportPromptTemplatesJson(buildTemplateExport())}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-slate-200 dark:border-gray-600 text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800"
+            >
+              <Download size={13} /> Export
+            </button>
+            <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* ── Template list ─────────────────────────────────────── */}
+          <aside className="w-56 shrink-0 border-r border-slate-100 dark:border-gray-700 p-3 space-y-1 overflow-y-auto">
+            {TEMPLATE_IDS.map(id => {
+              const version = getActiveTemplate(id).version;
+              return (
+                <button
+                  key={id}
+                  onClick={() => setSelectedId(id)}
+                  className={`w-full text-left px-3 py-2 rounded-xl text-sm transition-all ${
+                    id === selectedId
+                      ? 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-200'
+                      : 'text-slate-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  <span className="block font-medium">{DEFAULT_PROMPTS[id].name}</span>
+                  <span className="block text-[11px] text-slate-400">{version ? `v${version}` : 'Default'}</span>
+                </button>
+              );
+            })}
+          </aside>
+
+          {/* ── Editor ────────────────────────────────────────────── */}
+          <div className="flex-1 flex flex-col min-w-0 p-5 space-y-3 overflow-y-auto">
+            <p className="text-xs text-slate-500">{DEFAULT_PROMPTS[selectedId].description}</p>
+            <div>
+              <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">System prompt</label>
+              <textarea value={system} onChange={e => setSystem(e.target.value)} rows={3} className={textareaClass} />
+            </div>
+            <div className="flex-1 flex flex-col min-h-[16rem]">
+              <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">User prompt</label>
+              <textarea ref={userRef} value={user} onChange={e => setUser(e.target.value)} className={`${textareaClass} flex-1`} />
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {PROMPT_VARIABLES.map(v => (
+                <button
+                  key={v.name}
+                  onClick={() => insertVariable(v.name)}
+                  title={v.description}
+                  className="px-2 py-0.5 rounded-md bg-slate-100 dark:bg-gray-800 text-[11px] font-mono text-slate-600 dark:text-gray-300 hover:bg-indigo-50 hover:text-indigo-600"
+                >
+                  {`{{${v.name}}}`}
+                </button>
+              ))}
+            </div>
+            {unknown.length > 0 && (
+              <p className="text-[11px] text-amber-600">
+                Unknown variables are sent to the model unchanged: {unknown.map(name => `{{${name}}}`).join(', ')}
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                placeholder="What changed? (optional)"
+                className="flex-1 rounded-xl border border-slate-200 dark:border-gray-600 px-3 py-2 text-sm bg-white dark:bg-gray-800 text-slate-900 dark:text-white"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!isDirty || !user.trim()}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-sm font-semibold rounded-xl"
+              >
+                Save version
+              </button>
+              <button
+                onClick={handleReset}
+                disabled={activeVersion === null}
+                className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium rounded-xl border border-slate-200 dark:border-gray-600 text-slate-600 dark:text-gray-300 hover:bg-slate-50 disabled:opacity-40"
+                title="Reset to the shipped default"
+              >
+                <RotateCcw size={14} /> Default
+              </button>
+            </div>
+            {status && <p className="text-xs text-slate-400">{status}</p>}
+          </div>
+
+          {/* ── History ───────────────────────────────────────────── */}
+          <aside className="w-60 shrink-0 border-l border-slate-100 dark:border-gray-700 p-3 overflow-y-auto">
+            <p className="flex items-center gap-1.5 text-xs font-semibold text-slate-500 mb-2">
+              <History size={13} /> Version history
+            </p>
+            {history.length === 0 && <p className="text-[11px] text-slate-400">Using the shipped default.</p>}
+            <div className="space-y-1.5">
+              {[...history].reverse().map(version => (
+                <div key={version.version} className="rounded-xl border border-slate-100 dark:border-gray-700 px-3 py-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-bold text-slate-700 dark:text-gray-200">
+                      v{version.version}{version.version === activeVersion && <span className="ml-1 text-emerald-600 font-medium">active</span>}
+                    </span>
+                    {version.version !== activeVersion && (
+                      <button onClick={() => handleRestore(version)} className="text-[11px] text-indigo-600 hover:underline">Restore</button>
+                    )}
+                  </div>
+                  {version.note && <p className="text-[11px] text-slate-500 mt-0.5">{version.note}</p>}
+                  <p className="text-[10px] text-slate-400 mt-0.5">{version.createdBy} · {new Date(version.createdAt).toLocaleString()}</p>
+                </div>
+              ))}
+            </div>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesModal;
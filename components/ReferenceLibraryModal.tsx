@@ -0,0 +1,330 @@
+import React, { useRef, useState } from 'react';
+import { Project, Reference, ReferenceKind } from '../types';
+import {
+  addReferences,
+  CITATION_STYLES,
+  citationMarker,
+  citingDocuments,
+  createReference,
+  DEFAULT_CITATION_STYLE,
+  formatReference,
+  isSameReference,
+  makeCiteKey,
+  parseReferenceFile,
+  referenceFromLearningResource,
+  referenceFromSource,
+  REFERENCE_KINDS,
+} from '../services/citationService';
+import { stripInlineMarkdown } from '../services/docFormatService';
+import { BookMarked, Copy, Link2, PencilLine, Plus, Trash2, Upload, X } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  onUpdateProject: (project: Project) => void;
+  onClose: () => void;
+}
+
+type AddMode = 'import' | 'manual' | 'project';
+
+const inputClass = 'w-full rounded-xl border border-slate-200 px-3 py-2 text-xs bg-white text-slate-800';
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-xl border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40';
+
+const TEXT_FIELDS: { field: keyof Reference; label: string; placeholder?: string }[] = [
+  { field: 'year', label: 'Year' },
+  { field: 'venue', label: 'Journal / proceedings / site' },
+  { field: 'volume', label: 'Volume' },
+  { field: 'issue', label: 'Issue' },
+  { field: 'pages', label: 'Pages', placeholder: '10–20' },
+  { field: 'publisher', label: 'Publisher' },
+  { field: 'doi', label: 'DOI', placeholder: '10.1109/…' },
+  { field: 'url', label: 'URL' },
+];
+
+const ReferenceLibraryModal: React.FC<Props> = ({ project, onUpdateProject, onClose }) => {
+  const library = project.references || [];
+  const style = project.citationStyle || DEFAULT_CITATION_STYLE;
+  const [mode, setMode] = useState<AddMode | null>(library.length === 0 ? 'import' : null);
+  const [form, setForm] = useState<Reference>(() => createReference({ kind: 'article' }));
+  const [importText, setImportText] = useState('');
+  const [status, setStatus] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const isEditing = library.some(r => r.id === form.id);
+  const formCited = isEditing && citingDocuments(project, library.find(r => r.id === form.id)!.citeKey).length > 0;
+
+  const saveLibrary = (references: Reference[]) => onUpdateProject({ ...project, references });
+
+  const addAll = (incoming: Reference[], what: string) => {
+    const result = addReferences(library, incoming);
+    saveLibrary(result.library);
+    setStatus(`Added ${result.added} of ${incoming.length} ${what}${result.skipped ? ` (${result.skipped} already in the library or untitled)` : ''}.`);
+  };
+
+  const handleImport = (text: string, name: string) => {
+    const { format, references } = parseReferenceFile(text);
+    if (references.length === 0) {
+      setStatus(`No BibTeX or RIS entries found in ${name}.`);
+      return;
+    }
+    addAll(references, `${format} entries from ${name}`);
+    setImportText('');
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) handleImport(await file.text(), file.name);
+  };
+
+  const handleSaveForm = () => {
+    const cleaned: Reference = { ...form, title: form.title.trim(), authors: form.authors.map(a => a.trim()).filter(Boolean), citeKey: form.citeKey.trim() };
+    if (!cleaned.title) {
+      setStatus('A title is required.');
+      return;
+    }
+    if (isEditing) {
+      const others = library.filter(r => r.id !== cleaned.id);
+      cleaned.citeKey ||= makeCiteKey(cleaned, new Set(others.map(r => r.citeKey)));
+      if (others.some(r => r.citeKey === cleaned.citeKey)) {
+        setStatus(`The cite key [@${cleaned.citeKey}] is already used.`);
+        return;
+      }
+      saveLibrary(library.map(r => (r.id === cleaned.id ? cleaned : r)));
+      setStatus(`Updated ${citationMarker(cleaned)}.`);
+    } else {
+      addAll([cleaned], 'entry');
+    }
+    setForm(createReference({ kind: 'article' }));
+  };
+
+  const handleEdit = (reference: Reference) => {
+    setForm(reference);
+    setMode('manual');
+    setStatus('');
+  };
+
+  const handleDelete = (reference: Reference) => {
+    const citedIn = citingDocuments(project, reference.citeKey);
+    const question = citedIn.length
+      ? `${citationMarker(reference)} is cited in ${citedIn.join(', ')}. Remove it anyway? Those markers will show as missing.`
+      : `Remove "${reference.title}" from the library?`;
+    if (!window.confirm(question)) return;
+    saveLibrary(library.filter(r => r.id !== reference.id));
+    if (form.id === reference.id) setForm(createReference({ kind: 'article' }));
+  };
+
+  const projectCandidates = [
+    ...(project.sources || []).map(source => ({ reference: referenceFromSource(source), origin: 'Source', broken: source.verification?.status === 'broken' })),
+    ...(project.learningResources || []).map(resource => ({
+      reference: referenceFromLearningResource(resource),
+      origin: `Learning resource · ${resource.type}`,
+      broken: resource.verification?.status === 'broken',
+    })),
+  ].map(candidate => ({ ...candidate, present: library.some(r => isSameReference(r, candidate.reference)) }));
+  const newCandidates = projectCandidates.filter(c => !c.present && !c.broken);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-4xl w-full max-h-[88vh] flex flex-col">
+        <div className="flex flex-wrap items-center gap-3 px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <div className="mr-auto">
+            <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800 dark:text-white">
+              <BookMarked size={18} /> Reference library
+            </h3>
+            <p className="text-[11px] text-slate-400">
+              {library.length} {library.length === 1 ? 'entry' : 'entries'} · cite them in a document as <code>[@key]</code>
+            </p>
+          </div>
+          <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs">
+            {CITATION_STYLES.map(s => (
+              <button
+                key={s.id}
+                onClick={() => onUpdateProject({ ...project, citationStyle: s.id })}
+                title={s.description}
+                className={`px-2.5 py-1 rounded-md font-semibold ${style === s.id ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* ── Add ─────────────────────────────────────────────────── */}
+        <div className="px-6 py-4 border-b border-slate-100 dark:border-gray-700 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => setMode(mode === 'import' ? null : 'import')} className={buttonClass}>
+              <Upload size={13} /> Import BibTeX / RIS
+            </button>
+            <button
+              onClick={() => {
+                setMode(mode === 'manual' && !isEditing ? null : 'manual');
+                setForm(createReference({ kind: 'article' }));
+              }}
+              className={buttonClass}
+            >
+              <Plus size={13} /> Add manually
+            </button>
+            <button onClick={() => setMode(mode === 'project' ? null : 'project')} className={buttonClass}>
+              <Link2 size={13} /> From project sources{newCandidates.length > 0 && ` (${newCandidates.length})`}
+            </button>
+            {status && <span className="text-xs text-slate-400 ml-2">{status}</span>}
+          </div>
+
+          {mode === 'import' && (
+            <div className="space-y-2">
+              <textarea
+                value={importText}
+                onChange={e => setImportText(e.target.value)}
+                rows={5}
+                placeholder={'Paste BibTeX (@article{key, …}) or RIS (TY  - JOUR …) exported from Zotero, Mendeley, Google Scholar or IEEE Xplore'}
+                className={`${inputClass} font-mono`}
+              />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleImport(importText, 'the pasted text')}
+                  disabled={!importText.trim()}
+                  className="px-3 py-1.5 text-xs font-semibold rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-40"
+                >
+                  Import pasted
+                </button>
+                <button onClick={() => importRef.current?.click()} className={buttonClass}>
+                  <Upload size={13} /> Choose .bib / .ris file
+                </button>
+                <input ref={importRef} type="file" accept=".bib,.ris,.txt" className="hidden" onChange={handleFile} />
+              </div>
+            </div>
+          )}
+
+          {mode === 'manual' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <label className="text-[11px] font-semibold text-slate-500">
+                Type
+                <select value={form.kind} onChange={e => setForm({ ...form, kind: e.target.value as ReferenceKind })} className={`${inputClass} mt-1`}>
+                  {REFERENCE_KINDS.map(kind => <option key={kind.id} value={kind.id}>{kind.label}</option>)}
+                </select>
+              </label>
+              <label className="col-span-2 md:col-span-3 text-[11px] font-semibold text-slate-500">
+                Title
+                <input value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="col-span-2 text-[11px] font-semibold text-slate-500">
+                Authors, one per line as "Family, Given"
+                <textarea
+                  value={form.authors.join('\n')}
+                  onChange={e => setForm({ ...form, authors: e.target.value.split('\n') })}
+                  rows={3}
+                  placeholder={'Smith, John A.\nWorld Health Organization'}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="text-[11px] font-semibold text-slate-500">
+                Cite key
+                <input
+                  value={form.citeKey}
+                  onChange={e => setForm({ ...form, citeKey: e.target.value.replace(/[^\w:.\-/]/g, '') })}
+                  disabled={formCited}
+                  title={formCited ? 'Cited in a document, so the key is fixed' : undefined}
+                  placeholder="Generated if empty"
+                  className={`${inputClass} mt-1 font-mono disabled:bg-slate-50`}
+                />
+              </label>
+              {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                <label key={field} className="text-[11px] font-semibold text-slate-500">
+                  {label}
+                  <input
+                    value={(form[field] as string | undefined) || ''}
+                    onChange={e => setForm({ ...form, [field]: e.target.value || undefined })}
+                    placeholder={placeholder}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              ))}
+              <div className="col-span-2 md:col-span-4 flex items-center gap-2">
+                <button
+                  onClick={handleSaveForm}
+                  className="px-3 py-1.5 text-xs font-semibold rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white"
+                >
+                  {isEditing ? 'Save changes' : 'Add to library'}
+                </button>
+                {isEditing && (
+                  <button onClick={() => setForm(createReference({ kind: 'article' }))} className={buttonClass}>
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {mode === 'project' && (
+            <div className="space-y-1 max-h-48 overflow-y-auto">
+              {projectCandidates.length === 0 && (
+                <p className="text-xs text-slate-400">This project has no sources or learning resources yet.</p>
+              )}
+              {projectCandidates.length > 0 && (
+                <button
+                  onClick={() => addAll(newCandidates.map(c => c.reference), 'project links')}
+                  disabled={newCandidates.length === 0}
+                  className={buttonClass}
+                >
+                  <Plus size={13} /> Add all working links
+                </button>
+              )}
+              {projectCandidates.map(({ reference, origin, broken, present }, i) => (
+                <div key={i} className="flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-slate-50">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs font-semibold text-slate-700 truncate">{reference.title}</p>
+                    <p className="text-[10px] text-slate-400 truncate">{origin} · {reference.url}</p>
+                  </div>
+                  {broken && <span className="text-[10px] font-semibold text-red-500 shrink-0">Link broken</span>}
+                  {present ? (
+                    <span className="text-[10px] font-medium text-emerald-600 shrink-0">In library</span>
+                  ) : (
+                    <button onClick={() => addAll([reference], 'entry')} className={buttonClass}>
+                      <Plus size={13} /> Add
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ── Library ─────────────────────────────────────────────── */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-1">
+          {library.length === 0 && <p className="text-sm text-slate-400 text-center py-8">No references yet.</p>}
+          {library.map(reference => {
+            const citedIn = citingDocuments(project, reference.citeKey);
+            return (
+              <div key={reference.id} className="group flex items-start gap-3 px-3 py-2.5 rounded-xl hover:bg-slate-50 dark:hover:bg-gray-900">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-slate-700 dark:text-gray-200">{stripInlineMarkdown(formatReference(reference, style))}</p>
+                  <p className="mt-1 flex flex-wrap items-center gap-2 text-[10px] text-slate-400">
+                    <button
+                      onClick={() => navigator.clipboard.writeText(citationMarker(reference))}
+                      title="Copy marker"
+                      className="flex items-center gap-1 font-mono px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 hover:bg-indigo-50 hover:text-indigo-700"
+                    >
+                      {citationMarker(reference)} <Copy size={10} />
+                    </button>
+                    {citedIn.length ? `Cited in ${citedIn.join(', ')}` : 'Not cited yet'}
+                  </p>
+                </div>
+                <button onClick={() => handleEdit(reference)} className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-white" aria-label="Edit reference">
+                  <PencilLine size={14} />
+                </button>
+                <button onClick={() => handleDelete(reference)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-white" aria-label="Remove reference">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceLibraryModal;
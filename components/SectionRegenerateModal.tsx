@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { GuidanceSection, Project } from '../types';
+import { geminiService } from '../services/geminiService';
+import { GuidanceSectionItems } from '../services/responseSchemas';
+import {
+  describeSectionItem,
+  diffSectionItems,
+  GUIDANCE_SECTION_LABELS,
+  SectionItemChange,
+} from '../services/guidanceSectionService';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+
+interface Props {
+  project: Project;
+  section: GuidanceSection;
+  onAccept: (items: GuidanceSectionItems[GuidanceSection]) => void;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<SectionItemChange<unknown>['kind'], { label: string; className: string }> = {
+  added: { label: 'New', className: 'border-emerald-200 bg-emerald-50/60' },
+  removed: { label: 'Removed', className: 'border-red-200 bg-red-50/60' },
+  changed: { label: 'Changed', className: 'border-amber-200 bg-amber-50/60' },
+  unchanged: { label: 'Unchanged', className: 'border-slate-100 bg-white' },
+};
+
+const SectionRegenerateModal: React.FC<Props> = ({ project, section, onAccept, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const [proposal, setProposal] = useState<GuidanceSectionItems[GuidanceSection] | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState('');
+
+  const label = GUIDANCE_SECTION_LABELS[section];
+  const changes = proposal ? diffSectionItems(section, project[section] || [], proposal) : [];
+  const changedCount = changes.filter(c => c.kind !== 'unchanged').length;
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError('');
+    try {
+      setProposal(await geminiService.regenerateGuidanceSection(project, section, instruction.trim()));
+    } catch (err: any) {
+      setError(err?.message || 'Regeneration failed. Try again.');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-3xl w-full max-h-[88vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white">Regenerate {label}</h3>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div>
+            <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Instruction (optional)</label>
+            <textarea
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              rows={2}
+              placeholder={section === 'techStack' ? 'e.g. prefer PyTorch over TensorFlow' : 'What should be different?'}
+              className="mt-1 w-full rounded-xl border border-slate-200 dark:border-gray-600 px-3 py-2 text-sm bg-white dark:bg-gray-800 text-slate-900 dark:text-white"
+            />
+            <p className="text-[11px] text-slate-400 mt-1">Only this section is replaced. Everything else in the blueprint stays as it is.</p>
+          </div>
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            className="flex items-center gap-1.5 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white text-sm font-semibold rounded-xl"
+          >
+            {generating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+            {proposal ? 'Try again' : 'Generate preview'}
+          </button>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {proposal && (
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-slate-500">
+                {changedCount === 0 ? 'No differences from the current section.' : `${changedCount} difference${changedCount === 1 ? '' : 's'} from the current section`}
+              </p>
+              {changes.map((change, i) => {
+                const item = change.after || change.before!;
+                const style = CHANGE_STYLES[change.kind];
+                return (
+                  <div key={i} className={`rounded-2xl border p-3 ${style.className}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-sm font-bold text-slate-800 ${change.kind === 'removed' ? 'line-through opacity-60' : ''}`}>
+                        {'name' in item ? item.name : item.title}
+                      </span>
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{style.label}</span>
+                    </div>
+                    {change.kind === 'changed' && (
+                      <p className="text-[11px] text-slate-400 line-through mt-1">{describeSectionItem(change.before!)}</p>
+                    )}
+                    <p className="text-xs text-slate-600 mt-1">{describeSectionItem(item)}</p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {proposal && (
+          <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-100 dark:border-gray-700">
+            <button
+              onClick={() => setProposal(null)}
+              className="px-4 py-2 text-sm font-medium rounded-xl border border-slate-200 dark:border-gray-600 text-slate-600 dark:text-gray-300 hover:bg-slate-50"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => onAccept(proposal)}
+              className="flex items-center gap-1.5 px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold rounded-xl"
+            >
+              <Check size={14} /> Accept
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SectionRegenerateModal;
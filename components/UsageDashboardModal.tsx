@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { AIPurpose, Project, UsageBudget } from '../types';
+import {
+  clearUsageRecords,
+  getBudget,
+  getBudgetStatus,
+  getMonthRecords,
+  getUsageRecords,
+  groupUsage,
+  saveBudget,
+  sumUsage,
+} from '../services/usageService';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { X } from 'lucide-react';
+
+interface Props {
+  projects: Project[];
+  onClose: () => void;
+}
+
+const PURPOSE_LABELS: Record<AIPurpose, string> = {
+  ideas: 'Ideas',
+  comparison: 'Comparison',
+  docs: 'Docs',
+  guidance: 'Guidance',
+  viva: 'Viva',
+  tasks: 'Tasks',
+  chat: 'Chat',
+};
+
+const NO_PROJECT = 'none';
+
+function formatCost(cost: number): string {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+const UsageDashboardModal: React.FC<Props> = ({ projects, onClose }) => {
+  const [budget, setBudget] = useState<UsageBudget>(getBudget());
+  const [version, setVersion] = useState(0);
+
+  const { allRecords, monthRecords, status } = useMemo(() => ({
+    allRecords: getUsageRecords(),
+    monthRecords: getMonthRecords(),
+    status: getBudgetStatus(),
+  }), [version, budget]);
+
+  const monthTotals = sumUsage(monthRecords);
+  const hasEstimates = monthRecords.some(r => r.estimated);
+
+  const byPurpose = groupUsage(monthRecords, r => r.purpose);
+  const purposeData = (Object.keys(PURPOSE_LABELS) as AIPurpose[]).map(purpose => ({
+    name: PURPOSE_LABELS[purpose],
+    tokens: (byPurpose[purpose]?.promptTokens || 0) + (byPurpose[purpose]?.completionTokens || 0),
+    cost: Number((byPurpose[purpose]?.cost || 0).toFixed(4)),
+  }));
+
+  const allByProject = groupUsage(allRecords, r => r.projectId || NO_PROJECT);
+  const monthByProject = groupUsage(monthRecords, r => r.projectId || NO_PROJECT);
+  const projectRows = Object.keys(allByProject)
+    .map(id => ({
+      id,
+      title: id === NO_PROJECT ? 'No project (ideation, general chat)' : projects.find(p => p.id === id)?.title || 'Deleted project',
+      month: monthByProject[id],
+      all: allByProject[id],
+    }))
+    .sort((a, b) => b.all.cost - a.all.cost || b.all.calls - a.all.calls);
+
+  const updateBudget = (patch: Partial<UsageBudget>) => {
+    const next = { ...budget, ...patch };
+    setBudget(next);
+    saveBudget(next);
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Delete the whole usage log? Budget settings are kept.')) return;
+    clearUsageRecords();
+    setVersion(v => v + 1);
+  };
+
+  const percent = status.limit > 0 ? Math.min(100, Math.round((status.spent / status.limit) * 100)) : 0;
+  const barColor = status.state === 'exceeded' ? 'bg-red-500' : status.state === 'warning' ? 'bg-amber-500' : 'bg-indigo-600';
+  const inputClass = 'mt-1 w-full rounded-xl border border-slate-200 dark:border-gray-600 px-3 py-2 text-sm bg-white dark:bg-gray-800 text-slate-900 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/40 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-black rounded-3xl border border-slate-200 dark:border-gray-700 shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white">Usage &amp; Budget</h3>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-gray-800 text-slate-500 dark:text-gray-400">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* ── This month ─────────────────────────────────────────── */}
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: 'Spent this month', value: `${hasEstimates ? '~' : ''}${formatCost(monthTotals.cost)}` },
+              { label: 'AI calls', value: String(monthTotals.calls) },
+              { label: 'Tokens (in / out)', value: `${formatTokens(monthTotals.promptTokens)} / ${formatTokens(monthTotals.completionTokens)}` },
+            ].map(stat => (
+              <div key={stat.label} className="rounded-2xl border border-slate-100 dark:border-gray-700 p-4">
+                <p className="text-[11px] font-semibold text-slate-400 uppercase tracking-wide">{stat.label}</p>
+                <p className="text-xl font-bold text-slate-800 dark:text-white mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* ── Budget ─────────────────────────────────────────────── */}
+          <div className="rounded-2xl border border-slate-100 dark:border-gray-700 p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold text-slate-700 dark:text-gray-200">Monthly budget</p>
+              {status.limit > 0 && (
+                <p className="text-xs text-slate-500">{formatCost(status.spent)} of {formatCost(status.limit)} ({percent}%)</p>
+              )}
+            </div>
+            {status.limit > 0 && (
+              <div className="h-2 rounded-full bg-slate-100 dark:bg-gray-800 overflow-hidden">
+                <div className={`h-full ${barColor} transition-all`} style={{ width: `${percent}%` }} />
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Limit (USD, 0 = off)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={budget.monthlyLimit}
+                  onChange={e => updateBudget({ monthlyLimit: Math.max(0, Number(e.target.value) || 0) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">When reached</label>
+                <select value={budget.mode} onChange={e => updateBudget({ mode: e.target.value as UsageBudget['mode'] })} className={inputClass}>
+                  <option value="warn">Warn only</option>
+                  <option value="block">Block generation</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-semibold text-slate-500 dark:text-gray-400">Warn at (%)</label>
+                <input
+                  type="number"
+                  min={10}
+                  max={100}
+                  value={Math.round(budget.warnAt * 100)}
+                  onChange={e => updateBudget({ warnAt: Math.min(100, Math.max(10, Number(e.target.value) || 80)) / 100 })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* ── By generator ───────────────────────────────────────── */}
+          <div>
+            <p className="text-sm font-semibold text-slate-700 dark:text-gray-200 mb-2">Tokens by generator (this month)</p>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={purposeData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} />
+                  <YAxis hide />
+                  <Tooltip
+                    cursor={{ fill: '#f8fafc' }}
+                    contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                  />
+                  <Bar dataKey="tokens" fill="#4f46e5" radius={[6, 6, 0, 0]} barSize={32} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* ── By project ─────────────────────────────────────────── */}
+          <div>
+            <p className="text-sm font-semibold text-slate-700 dark:text-gray-200 mb-2">By project</p>
+            {projectRows.length === 0 ? (
+              <p className="text-sm text-slate-400">No AI calls recorded yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[11px] uppercase tracking-wide text-slate-400">
+                    <th className="py-2 font-semibold">Project</th>
+                    <th className="py-2 font-semibold text-right">Calls</th>
+                    <th className="py-2 font-semibold text-right">Tokens</th>
+                    <th className="py-2 font-semibold text-right">This month</th>
+                    <th className="py-2 font-semibold text-right">All time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-gray-800">
+                  {projectRows.map(row => (
+                    <tr key={row.id} className="text-slate-700 dark:text-gray-200">
+                      <td className="py-2 pr-3 truncate max-w-[14rem]">{row.title}</td>
+                      <td className="py-2 text-right">{row.all.calls}</td>
+                      <td className="py-2 text-right">{formatTokens(row.all.promptTokens + row.all.completionTokens)}</td>
+                      <td className="py-2 text-right">{formatCost(row.month?.cost || 0)}</td>
+                      <td className="py-2 text-right font-medium">{formatCost(row.all.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between text-[11px] text-slate-400">
+            <span>
+              {hasEstimates
+                ? '~ Some costs are estimated from token counts where the provider did not report them.'
+                : 'Costs as reported by the provider.'}
+            </span>
+            <button onClick={handleReset} className="text-red-500 hover:underline">Reset usage log</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboardModal;
@@ -10,15 +10,11 @@ import {
   Loader2,
   ChevronDown,
   ChevronUp,
-  Database,
   RotateCcw,
   Trash2
 } from 'lucide-react';
 import { geminiService } from '../services/geminiService';
 
-// In-memory cache keyed by project id
-const vivaCache = new Map<string, VivaQuestion[]>();
-
 interface Props {
   project: Project;
 }
@@ -27,23 +23,14 @@ const VivaPrepPanel: React.FC<Props> = ({ project }) => {
   const [questions, setQuestions] = useState<VivaQuestion[]>([]);
   const [loading, setLoading] = useState(false);
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
-  const [fromCache, setFromCache] = useState(false);
   const hasFetchedRef = useRef(false);
 
   const fetchQuestions = async (forceRegenerate = false) => {
-    // Serve from cache unless explicitly regenerating
-    if (!forceRegenerate && vivaCache.has(project.id)) {
-      setQuestions(vivaCache.get(project.id)!);
-      setFromCache(true);
-      return;
-    }
-
+    // Unchanged projects are answered from the shared AI response cache unless regenerating
     setLoading(true);
-    setFromCache(false);
     try {
-      const q = await geminiService.generateVivaPrep(project);
+      const q = await geminiService.generateVivaPrep(project, forceRegenerate);
       setQuestions(q);
-      vivaCache.set(project.id, q); // store in cache
     } catch (error) {
       console.error(error);
     } finally {
@@ -56,10 +43,8 @@ const VivaPrepPanel: React.FC<Props> = ({ project }) => {
     fetchQuestions(true);
   };
 
-  const handleClearCache = () => {
-    vivaCache.delete(project.id);
+  const handleClear = () => {
     setQuestions([]);
-    setFromCache(false);
     setExpandedIndex(null);
   };
 
@@ -94,10 +79,10 @@ const VivaPrepPanel: React.FC<Props> = ({ project }) => {
                 Regenerate
               </button>
               <button
-                onClick={handleClearCache}
+                onClick={handleClear}
                 disabled={loading}
                 className="flex items-center gap-2 text-red-500 font-medium px-3 py-2 rounded-xl hover:bg-red-50 transition-all border border-red-100"
-                title="Clear cached questions"
+                title="Clear questions"
               >
                 <Trash2 size={16} />
               </button>
@@ -0,0 +1,198 @@
+import { AICacheSettings, AIPurpose, LLMSettings } from '../types';
+import { getCurrentUser } from './authService';
+
+// ─── AI Response Cache ──────────────────────────────────────────────────────
+// Content-addressed store for completions: the key is a SHA-256 of everything
+// that determines the answer (provider, model, messages, temperature, JSON
+// mode). Entries live in IndexedDB so they survive reloads, and "replay only"
+// mode serves exclusively from here so demos work without a network.
+
+const DB_NAME = 'plan-panni-pannuvom-ai-cache';
+const STORE = 'responses';
+
+export const DEFAULT_CACHE_SETTINGS: AICacheSettings = {
+  enabled: true,
+  replayOnly: false,
+  ttlHours: 24 * 7,
+  maxEntries: 500,
+  maxSizeMB: 25,
+};
+
+export interface CachedResponse {
+  key: string;
+  purpose: AIPurpose;
+  provider: string;
+  model: string;
+  /** First user message, trimmed, so entries are recognisable in the cache viewer */
+  preview: string;
+  response: string;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheKeyInput {
+  purpose: AIPurpose;
+  messages: { role: string; content: string }[];
+  temperature?: number;
+  json?: boolean;
+}
+
+/** Thrown in replay-only mode when a request has never been cached */
+export class CacheMissError extends Error {
+  constructor(purpose: AIPurpose) {
+    super(`Replay-only mode: no cached ${purpose} response for this request. Turn off replay-only in Response Cache to call the model.`);
+    this.name = 'CacheMissError';
+  }
+}
+
+// ─── Settings ───────────────────────────────────────────────────────────────
+
+function settingsKey(): string {
+  return `Plan Panni Pannuvom_ai_cache_settings_${getCurrentUser()?.id || 'anonymous'}`;
+}
+
+export function getCacheSettings(): AICacheSettings {
+  const raw = localStorage.getItem(settingsKey());
+  if (!raw) return { ...DEFAULT_CACHE_SETTINGS };
+  try {
+    return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(raw) };
+  } catch {
+    return { ...DEFAULT_CACHE_SETTINGS };
+  }
+}
+
+export function saveCacheSettings(settings: AICacheSettings): void {
+  localStorage.setItem(settingsKey(), JSON.stringify(settings));
+}
+
+// ─── IndexedDB ──────────────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, 1);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => {
+        dbPromise = null;
+        reject(open.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ─── Keys ───────────────────────────────────────────────────────────────────
+
+export async function hashRequest(settings: LLMSettings, input: CacheKeyInput): Promise<string> {
+  const material = JSON.stringify({
+    provider: settings.provider,
+    model: settings.provider === 'mock' ? 'mock' : settings.model,
+    baseUrl: settings.provider === 'openai-compatible' ? settings.baseUrl : undefined,
+    messages: input.messages.map(m => [m.role, m.content]),
+    temperature: input.temperature ?? 0.7,
+    json: !!input.json,
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function isExpired(entry: CachedResponse, settings: AICacheSettings): boolean {
+  return Date.now() - entry.createdAt > settings.ttlHours * 3_600_000;
+}
+
+// ─── Reads & Writes ─────────────────────────────────────────────────────────
+
+/** Cached response text, or null on a miss / expired entry. Cache failures never block a request. */
+export async function readCachedResponse(key: string): Promise<string | null> {
+  const settings = getCacheSettings();
+  try {
+    const entry = await withStore<CachedResponse | undefined>('readonly', store => store.get(key));
+    // Replay-only demos keep working past the TTL; expired entries are only skipped when online
+    if (!entry || (isExpired(entry, settings) && !settings.replayOnly)) return null;
+    await withStore('readwrite', store => store.put({ ...entry, lastUsedAt: Date.now() }));
+    return entry.response;
+  } catch (err) {
+    console.warn('AI cache read failed (non-fatal):', err);
+    return null;
+  }
+}
+
+export async function writeCachedResponse(
+  key: string,
+  settings: LLMSettings,
+  input: CacheKeyInput,
+  response: string
+): Promise<void> {
+  const now = Date.now();
+  const entry: CachedResponse = {
+    key,
+    purpose: input.purpose,
+    provider: settings.provider,
+    model: settings.provider === 'mock' ? 'mock' : settings.model,
+    preview: (input.messages.find(m => m.role === 'user')?.content || '').trim().slice(0, 160),
+    response,
+    size: response.length * 2,
+    createdAt: now,
+    lastUsedAt: now,
+  };
+  try {
+    await withStore('readwrite', store => store.put(entry));
+    await enforceLimits();
+  } catch (err) {
+    console.warn('AI cache write failed (non-fatal):', err);
+  }
+}
+
+// ─── Inspection & Eviction ──────────────────────────────────────────────────
+
+export async function listCachedResponses(): Promise<CachedResponse[]> {
+  const entries = await withStore<CachedResponse[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+export async function deleteCachedResponse(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
+
+export async function clearCache(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+}
+
+/** Drop expired entries, then least-recently-used ones until under the entry and size limits */
+export async function enforceLimits(): Promise<number> {
+  const settings = getCacheSettings();
+  const entries = await listCachedResponses();
+  const maxBytes = settings.maxSizeMB * 1024 * 1024;
+
+  const evicted: string[] = [];
+  let kept = 0;
+  let bytes = 0;
+  for (const entry of entries) {
+    if (isExpired(entry, settings) || kept >= settings.maxEntries || bytes + entry.size > maxBytes) {
+      evicted.push(entry.key);
+    } else {
+      kept++;
+      bytes += entry.size;
+    }
+  }
+
+  for (const key of evicted) {
+    await deleteCachedResponse(key);
+  }
+  return evicted.length;
+}
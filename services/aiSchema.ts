@@ -0,0 +1,168 @@
+import { TaskComplexity, TaskPriority } from '../types';
+
+// ─── Runtime Schemas for AI Responses ───────────────────────────────────────
+// Each schema validates and coerces a parsed JSON value in one pass. Errors are
+// collected as readable "path: problem" strings so they can be shown to the
+// model verbatim when asking it to repair its answer.
+
+export interface Schema<T> {
+  coerce(value: unknown, path: string, errors: string[]): T;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const errors: string[] = [];
+  const result = schema.coerce(value, '$', errors);
+  return { value: result, errors };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// ─── Primitives ─────────────────────────────────────────────────────────────
+
+export function string(options: { allowEmpty?: boolean } = {}): Schema<string> {
+  return {
+    coerce(value, path, errors) {
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      if (typeof value !== 'string') {
+        errors.push(`${path}: expected string, got ${describe(value)}`);
+        return '';
+      }
+      if (!options.allowEmpty && value.trim() === '') {
+        errors.push(`${path}: must not be empty`);
+      }
+      return value.trim();
+    },
+  };
+}
+
+export function number(options: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    coerce(value, path, errors) {
+      const n = typeof value === 'string' ? parseFloat(value) : value;
+      if (typeof n !== 'number' || Number.isNaN(n)) {
+        errors.push(`${path}: expected number, got ${describe(value)}`);
+        return options.min ?? 0;
+      }
+      if (options.min !== undefined && n < options.min) {
+        errors.push(`${path}: must be >= ${options.min}`);
+        return options.min;
+      }
+      if (options.max !== undefined && n > options.max) {
+        errors.push(`${path}: must be <= ${options.max}`);
+        return options.max;
+      }
+      return n;
+    },
+  };
+}
+
+/** Case-insensitive match against the allowed values, plus optional aliases */
+export function oneOf<T extends string>(allowed: readonly T[], aliases: Record<string, T> = {}): Schema<T> {
+  return {
+    coerce(value, path, errors) {
+      const key = String(value ?? '').trim().toLowerCase();
+      const match = allowed.find(a => a.toLowerCase() === key) ?? aliases[key];
+      if (!match) {
+        errors.push(`${path}: expected one of ${allowed.join(' | ')}, got ${JSON.stringify(value)}`);
+        return allowed[0];
+      }
+      return match;
+    },
+  };
+}
+
+// ─── Combinators ────────────────────────────────────────────────────────────
+
+export function optional<T>(schema: Schema<T>, fallback: () => T): Schema<T> {
+  return {
+    coerce(value, path, errors) {
+      if (value === undefined || value === null || value === '') return fallback();
+      return schema.coerce(value, path, errors);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>, options: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    coerce(value, path, errors) {
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected array, got ${describe(value)}`);
+        return [];
+      }
+      if (options.min !== undefined && value.length < options.min) {
+        errors.push(`${path}: expected at least ${options.min} items, got ${value.length}`);
+      }
+      const items = options.max !== undefined ? value.slice(0, options.max) : value;
+      return items.map((v, i) => item.coerce(v, `${path}[${i}]`, errors));
+    },
+  };
+}
+
+type Shape<T> = { [K in keyof T]: Schema<T[K]> };
+
+export function object<T>(shape: Shape<T>): Schema<T> {
+  return {
+    coerce(value, path, errors) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path}: expected object, got ${describe(value)}`);
+        value = {};
+      }
+      const source = value as Record<string, unknown>;
+      const result = {} as T;
+      for (const key of Object.keys(shape) as (keyof T)[]) {
+        result[key] = shape[key].coerce(source[key as string], `${path}.${String(key)}`, errors);
+      }
+      return result;
+    },
+  };
+}
+
+// ─── Domain-specific Coercions ──────────────────────────────────────────────
+
+const COMPLEXITY_BY_NAME: Record<string, TaskComplexity> = {
+  trivial: TaskComplexity.Trivial,
+  simple: TaskComplexity.Simple,
+  easy: TaskComplexity.Simple,
+  moderate: TaskComplexity.Moderate,
+  medium: TaskComplexity.Moderate,
+  complex: TaskComplexity.Complex,
+  hard: TaskComplexity.Complex,
+  epic: TaskComplexity.Epic,
+};
+
+const COMPLEXITY_POINTS = [TaskComplexity.Trivial, TaskComplexity.Simple, TaskComplexity.Moderate, TaskComplexity.Complex, TaskComplexity.Epic];
+
+/** Accepts story points (snapped to the nearest valid value) or names like "moderate" */
+export function complexity(): Schema<TaskComplexity> {
+  return {
+    coerce(value, path, errors) {
+      const n = typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+      if (typeof n === 'number') {
+        return COMPLEXITY_POINTS.reduce((best, p) => Math.abs(p - n) < Math.abs(best - n) ? p : best);
+      }
+      const named = COMPLEXITY_BY_NAME[String(value ?? '').trim().toLowerCase()];
+      if (named === undefined) {
+        errors.push(`${path}: expected complexity 1 | 2 | 3 | 5 | 8, got ${JSON.stringify(value)}`);
+        return TaskComplexity.Moderate;
+      }
+      return named;
+    },
+  };
+}
+
+export function priority(): Schema<TaskPriority> {
+  return oneOf(Object.values(TaskPriority) as TaskPriority[], { urgent: TaskPriority.Critical, normal: TaskPriority.Medium });
+}
+
+export function randomId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
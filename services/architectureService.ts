@@ -0,0 +1,213 @@
+import { ArchitectureComponent, ArchitectureEdge, ArchitectureLayer, ArchitectureModel } from '../types';
+
+// ─── Architecture Model ─────────────────────────────────────────────────────
+// Components sit in fixed horizontal lanes (UI at the top, data at the
+// bottom) so the same layout can be drawn as React SVG, exported as a
+// standalone SVG/PNG, and redrawn with jsPDF primitives in the PDF export.
+
+export const ARCHITECTURE_LAYERS: { id: ArchitectureLayer; label: string; fill: string; stroke: string }[] = [
+  { id: 'presentation', label: 'Presentation', fill: '#eef2ff', stroke: '#6366f1' },
+  { id: 'application', label: 'Application', fill: '#f5f3ff', stroke: '#8b5cf6' },
+  { id: 'ml', label: 'ML Pipeline', fill: '#fff1f2', stroke: '#f43f5e' },
+  { id: 'data', label: 'Data Storage', fill: '#ecfdf5', stroke: '#10b981' },
+  { id: 'external', label: 'External', fill: '#f8fafc', stroke: '#64748b' },
+];
+
+/** Line placed in the design doc where the diagram should be drawn */
+export const ARCHITECTURE_MARKER = '[[ARCHITECTURE DIAGRAM]]';
+
+function newId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+export function createComponent(name: string, layer: ArchitectureLayer, technology = ''): ArchitectureComponent {
+  return { id: newId(), name, layer, technology, description: '' };
+}
+
+export function createEdge(from: string, to: string, label = ''): ArchitectureEdge {
+  return { id: newId(), from, to, label };
+}
+
+export type ComponentDraft = Omit<ArchitectureComponent, 'id'> & { id?: string };
+
+/** Make ids unique and drop edges whose ends don't exist (models from the AI often have both problems) */
+export function normalizeArchitecture(components: ComponentDraft[], edges: { from: string; to: string; label?: string }[]): ArchitectureModel {
+  const seen = new Set<string>();
+  const cleanComponents = components.map(component => {
+    let id = (component.id || '').trim() || newId();
+    while (seen.has(id)) id = `${id}_${newId().slice(0, 3)}`;
+    seen.add(id);
+    return { ...component, id };
+  });
+  const cleanEdges = edges
+    .filter(edge => seen.has(edge.from) && seen.has(edge.to) && edge.from !== edge.to)
+    .map(edge => createEdge(edge.from, edge.to, edge.label || ''));
+  return { components: cleanComponents, edges: cleanEdges, updatedAt: new Date().toISOString() };
+}
+
+export function removeComponent(model: ArchitectureModel, id: string): ArchitectureModel {
+  return {
+    components: model.components.filter(c => c.id !== id),
+    edges: model.edges.filter(e => e.from !== id && e.to !== id),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ─── Layout ─────────────────────────────────────────────────────────────────
+
+const NODE_WIDTH = 168;
+const NODE_HEIGHT = 56;
+const NODE_GAP = 28;
+const LANE_HEIGHT = 104;
+const LANE_LABEL_WIDTH = 112;
+const PADDING = 16;
+
+export interface NodeBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ArchitectureLayout {
+  width: number;
+  height: number;
+  lanes: { layer: (typeof ARCHITECTURE_LAYERS)[number]; y: number; height: number }[];
+  nodes: Record<string, NodeBox>;
+}
+
+/** Only layers with components get a lane; each lane's nodes are centred */
+export function layoutArchitecture(model: ArchitectureModel): ArchitectureLayout {
+  const rows = ARCHITECTURE_LAYERS
+    .map(layer => ({ layer, components: model.components.filter(c => c.layer === layer.id) }))
+    .filter(row => row.components.length > 0);
+  const widest = Math.max(1, ...rows.map(row => row.components.length));
+  const contentWidth = widest * NODE_WIDTH + (widest - 1) * NODE_GAP;
+  const width = PADDING * 2 + LANE_LABEL_WIDTH + contentWidth;
+
+  const nodes: Record<string, NodeBox> = {};
+  const lanes = rows.map((row, r) => {
+    const y = PADDING + r * LANE_HEIGHT;
+    const rowWidth = row.components.length * NODE_WIDTH + (row.components.length - 1) * NODE_GAP;
+    const startX = PADDING + LANE_LABEL_WIDTH + (contentWidth - rowWidth) / 2;
+    row.components.forEach((component, i) => {
+      nodes[component.id] = {
+        x: startX + i * (NODE_WIDTH + NODE_GAP),
+        y: y + (LANE_HEIGHT - NODE_HEIGHT) / 2,
+        width: NODE_WIDTH,
+        height: NODE_HEIGHT,
+      };
+    });
+    return { layer: row.layer, y, height: LANE_HEIGHT };
+  });
+
+  return { width, height: PADDING * 2 + Math.max(1, rows.length) * LANE_HEIGHT, lanes, nodes };
+}
+
+/** Connect box edges rather than centres: vertical between lanes, horizontal within one */
+export function edgeEndpoints(from: NodeBox, to: NodeBox): { x1: number; y1: number; x2: number; y2: number } {
+  if (Math.abs(from.y - to.y) < 1) {
+    const leftToRight = from.x < to.x;
+    return {
+      x1: leftToRight ? from.x + from.width : from.x,
+      y1: from.y + from.height / 2,
+      x2: leftToRight ? to.x : to.x + to.width,
+      y2: to.y + to.height / 2,
+    };
+  }
+  const downward = from.y < to.y;
+  return {
+    x1: from.x + from.width / 2,
+    y1: downward ? from.y + from.height : from.y,
+    x2: to.x + to.width / 2,
+    y2: downward ? to.y : to.y + to.height,
+  };
+}
+
+export function truncateLabel(text: string, max = 22): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+// ─── Serialisation ──────────────────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Standalone SVG document with inline styles, for download and rasterising */
+export function architectureToSvg(model: ArchitectureModel): string {
+  const layout = layoutArchitecture(model);
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="Helvetica, Arial, sans-serif">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M0,0 L10,5 L0,10 z" fill="#64748b"/></marker></defs>',
+    `<rect width="${layout.width}" height="${layout.height}" fill="#ffffff"/>`,
+  ];
+
+  for (const lane of layout.lanes) {
+    parts.push(`<rect x="${PADDING}" y="${lane.y + 4}" width="${layout.width - PADDING * 2}" height="${lane.height - 8}" rx="12" fill="${lane.layer.fill}"/>`);
+    parts.push(`<text x="${PADDING + 12}" y="${lane.y + lane.height / 2 + 4}" font-size="11" font-weight="bold" fill="${lane.layer.stroke}">${escapeXml(lane.layer.label.toUpperCase())}</text>`);
+  }
+
+  for (const edge of model.edges) {
+    const from = layout.nodes[edge.from];
+    const to = layout.nodes[edge.to];
+    if (!from || !to) continue;
+    const { x1, y1, x2, y2 } = edgeEndpoints(from, to);
+    parts.push(`<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#64748b" stroke-width="1.5" marker-end="url(#arrow)"/>`);
+    if (edge.label) {
+      parts.push(`<text x="${(x1 + x2) / 2 + 4}" y="${(y1 + y2) / 2}" font-size="10" fill="#475569">${escapeXml(truncateLabel(edge.label, 18))}</text>`);
+    }
+  }
+
+  for (const component of model.components) {
+    const box = layout.nodes[component.id];
+    const layer = ARCHITECTURE_LAYERS.find(l => l.id === component.layer)!;
+    parts.push(`<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="10" fill="#ffffff" stroke="${layer.stroke}" stroke-width="1.5"/>`);
+    parts.push(`<text x="${box.x + box.width / 2}" y="${box.y + (component.technology ? 24 : 32)}" text-anchor="middle" font-size="12" font-weight="bold" fill="#1e293b">${escapeXml(truncateLabel(component.name))}</text>`);
+    if (component.technology) {
+      parts.push(`<text x="${box.x + box.width / 2}" y="${box.y + 40}" text-anchor="middle" font-size="10" fill="#64748b">${escapeXml(truncateLabel(component.technology, 26))}</text>`);
+    }
+  }
+
+  parts.push('</svg>');
+  return parts.join('\n');
+}
+
+function mermaidId(id: string): string {
+  return `n_${id.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+export function architectureToMermaid(model: ArchitectureModel): string {
+  const lines = ['flowchart TB'];
+  for (const layer of ARCHITECTURE_LAYERS) {
+    const components = model.components.filter(c => c.layer === layer.id);
+    if (components.length === 0) continue;
+    lines.push(`  subgraph ${layer.id}["${layer.label}"]`);
+    for (const c of components) {
+      const label = c.technology ? `${c.name}<br/>${c.technology}` : c.name;
+      lines.push(`    ${mermaidId(c.id)}["${mermaidText(label)}"]`);
+    }
+    lines.push('  end');
+  }
+  for (const edge of model.edges) {
+    const arrow = edge.label ? `-->|"${mermaidText(edge.label)}"|` : '-->';
+    lines.push(`  ${mermaidId(edge.from)} ${arrow} ${mermaidId(edge.to)}`);
+  }
+  return lines.join('\n');
+}
+
+/** Insert the diagram marker under the design doc's architecture heading, or at the end */
+export function embedArchitectureMarker(designDoc: string): string {
+  if (designDoc.includes(ARCHITECTURE_MARKER)) return designDoc;
+  const lines = designDoc.split('\n');
+  const headingIndex = [/^\d+\.\d+\s+High-Level Architecture/i, /^\d+\.\s+.*Architecture/i]
+    .map(pattern => lines.findIndex(line => pattern.test(line.trim())))
+    .find(index => index >= 0);
+  if (headingIndex === undefined) return `${designDoc.trimEnd()}\n\n${ARCHITECTURE_MARKER}\n`;
+  lines.splice(headingIndex + 1, 0, ARCHITECTURE_MARKER);
+  return lines.join('\n');
+}
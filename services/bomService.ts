@@ -0,0 +1,104 @@
+import { BillOfMaterials, BomItem, BomItemStatus, UserProfile } from '../types';
+
+// ─── Bill of Materials ──────────────────────────────────────────────────────
+// Hardware projects track every part they need to buy. Costs are summed per
+// status so the team can see what is committed (ordered/received) against
+// what is still only planned, and compare the lot with their budget.
+
+export const BOM_STATUSES: { id: BomItemStatus; label: string; className: string }[] = [
+  { id: 'planned', label: 'Planned', className: 'bg-slate-100 text-slate-600' },
+  { id: 'ordered', label: 'Ordered', className: 'bg-amber-50 text-amber-700' },
+  { id: 'received', label: 'Received', className: 'bg-emerald-50 text-emerald-700' },
+];
+
+export const DEFAULT_CURRENCY = '₹';
+
+/** Rough hardware allowance for each of the ideation wizard's budget options */
+const BUDGET_BY_TIER: { pattern: RegExp; amount: number }[] = [
+  { pattern: /^low/i, amount: 5000 },
+  { pattern: /^moderate/i, amount: 15000 },
+  { pattern: /^flexible/i, amount: 40000 },
+];
+
+export function emptyBom(): BillOfMaterials {
+  return { items: [], currency: DEFAULT_CURRENCY };
+}
+
+export function createBomItem(partial: Partial<BomItem> = {}): BomItem {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: '',
+    purpose: '',
+    quantity: 1,
+    unitCost: 0,
+    vendor: '',
+    status: 'planned',
+    ...partial,
+  };
+}
+
+/** Whole, positive quantities and non-negative costs; anything else from the AI or a form is clamped */
+export function sanitizeBomItem(item: BomItem): BomItem {
+  return {
+    ...item,
+    quantity: Math.max(1, Math.round(Number(item.quantity) || 1)),
+    unitCost: Math.max(0, Math.round((Number(item.unitCost) || 0) * 100) / 100),
+  };
+}
+
+export function lineTotal(item: BomItem): number {
+  return item.quantity * item.unitCost;
+}
+
+export interface BomTotals {
+  total: number;
+  byStatus: Record<BomItemStatus, number>;
+  /** Ordered plus received: money already spent or promised */
+  committed: number;
+}
+
+export function bomTotals(bom: BillOfMaterials | undefined): BomTotals {
+  const byStatus: Record<BomItemStatus, number> = { planned: 0, ordered: 0, received: 0 };
+  for (const item of bom?.items || []) byStatus[item.status] += lineTotal(item);
+  return {
+    total: byStatus.planned + byStatus.ordered + byStatus.received,
+    byStatus,
+    committed: byStatus.ordered + byStatus.received,
+  };
+}
+
+/**
+ * A number written in the constraint (e.g. "Under ₹8,000") is taken as is;
+ * otherwise the wizard's Low/Moderate/Flexible options map to a rough amount.
+ */
+export function suggestedBudget(profile: UserProfile | undefined): number | undefined {
+  const constraint = profile?.budgetConstraint || '';
+  const written = constraint.match(/\d[\d,]*(?:\.\d+)?\s*(k\b)?/i);
+  if (written) {
+    const amount = parseFloat(written[0].replace(/,/g, ''));
+    return written[1] ? amount * 1000 : amount;
+  }
+  return BUDGET_BY_TIER.find(tier => tier.pattern.test(constraint.trim()))?.amount;
+}
+
+export function effectiveBudget(bom: BillOfMaterials | undefined, profile: UserProfile | undefined): number | undefined {
+  return bom?.budget ?? suggestedBudget(profile);
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  return `${currency}${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Replace the AI-written lines with a fresh set. Lines the team added or
+ * edited by hand, and anything already ordered or received, are kept.
+ */
+export function mergeGeneratedBom(bom: BillOfMaterials | undefined, generated: BomItem[]): BillOfMaterials {
+  const base = bom || emptyBom();
+  const kept = base.items.filter(item => item.provenance === 'manual' || item.status !== 'planned');
+  const keptNames = new Set(kept.map(item => item.name.toLowerCase()));
+  return {
+    ...base,
+    items: [...kept, ...generated.filter(item => !keptNames.has(item.name.toLowerCase()))],
+  };
+}
@@ -0,0 +1,92 @@
+import { ChatThread, StoredChatMessage } from '../types';
+import { geminiService } from './geminiService';
+
+// ─── Chat Thread Storage ────────────────────────────────────────────────────
+// Threads are stored per user and per project, alongside the
+// `Plan Panni Pannuvom_projects_${userId}` key used for projects themselves.
+
+const GENERAL_SCOPE = 'general';
+
+// Once a thread has more unsummarised messages than this, the oldest ones are
+// folded into `summary`, keeping the most recent turns verbatim.
+const MAX_CONTEXT_MESSAGES = 16;
+const KEEP_RECENT_MESSAGES = 8;
+
+function threadsKey(userId: string, projectId: string | null): string {
+  return `Plan Panni Pannuvom_chats_${userId}_${projectId || GENERAL_SCOPE}`;
+}
+
+export function getThreads(userId: string, projectId: string | null): ChatThread[] {
+  const raw = localStorage.getItem(threadsKey(userId, projectId));
+  if (!raw) return [];
+  try {
+    const threads = JSON.parse(raw) as ChatThread[];
+    return threads.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    return [];
+  }
+}
+
+function writeThreads(userId: string, projectId: string | null, threads: ChatThread[]): void {
+  localStorage.setItem(threadsKey(userId, projectId), JSON.stringify(threads));
+}
+
+export function createThread(userId: string, projectId: string | null, title = 'New chat'): ChatThread {
+  const now = new Date().toISOString();
+  const thread: ChatThread = {
+    id: Math.random().toString(36).substr(2, 9),
+    title,
+    projectId,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeThreads(userId, projectId, [thread, ...getThreads(userId, projectId)]);
+  return thread;
+}
+
+export function saveThread(userId: string, thread: ChatThread): ChatThread {
+  const updated = { ...thread, updatedAt: new Date().toISOString() };
+  const others = getThreads(userId, thread.projectId).filter(t => t.id !== thread.id);
+  writeThreads(userId, thread.projectId, [updated, ...others]);
+  return updated;
+}
+
+export function renameThread(userId: string, thread: ChatThread, title: string): ChatThread {
+  return saveThread(userId, { ...thread, title: title.trim() || thread.title });
+}
+
+export function deleteThread(userId: string, thread: ChatThread): void {
+  writeThreads(userId, thread.projectId, getThreads(userId, thread.projectId).filter(t => t.id !== thread.id));
+}
+
+/** Derive a thread title from the first user message */
+export function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split('\n')[0];
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine;
+}
+
+// ─── Context Window Management ──────────────────────────────────────────────
+
+/** Messages that still need to be sent verbatim (everything after the summary) */
+export function getUnsummarizedMessages(thread: ChatThread): StoredChatMessage[] {
+  return thread.messages.slice(thread.summarizedCount || 0);
+}
+
+/**
+ * Fold old turns into the rolling summary when the thread outgrows the context budget.
+ * Returns the thread unchanged when no compaction is needed or summarisation fails.
+ */
+export async function compactThread(thread: ChatThread): Promise<ChatThread> {
+  const start = thread.summarizedCount || 0;
+  if (thread.messages.length - start <= MAX_CONTEXT_MESSAGES) return thread;
+
+  const end = thread.messages.length - KEEP_RECENT_MESSAGES;
+  try {
+    const summary = await geminiService.summarizeConversation(thread.summary || '', thread.messages.slice(start, end), thread.projectId);
+    return { ...thread, summary, summarizedCount: end };
+  } catch (err) {
+    console.warn('Chat summarisation failed (non-fatal):', err);
+    return thread;
+  }
+}
@@ -0,0 +1,190 @@
+import { ChatToolCall, Milestone, Project, Task, TaskPriority } from '../types';
+import { number, object, oneOf, optional, priority, randomId, Schema, string, validate } from './aiSchema';
+import { applySchedule, createTask, optimizeSchedule, rankTasks } from './taskBreakdownService';
+
+// ─── Chat Tools ─────────────────────────────────────────────────────────────
+// The assistant proposes project mutations as fenced ```tool blocks holding
+// {"name": ..., "arguments": {...}}. A text protocol keeps this working across
+// every provider (including local models without native function calling);
+// arguments are validated with the same schemas used for other AI responses.
+
+const TOOL_FENCE = /```tool\s*\n?([\s\S]*?)(?:```|$)/g;
+
+type ToolName = ChatToolCall['name'];
+
+const TOOL_SCHEMAS: { [K in ToolName]: Schema<Extract<ChatToolCall, { name: K }>['arguments']> } = {
+  create_task: object({
+    title: string(),
+    description: optional(string(), () => ''),
+    priority: optional(priority(), () => TaskPriority.Medium),
+    assignedTo: optional(string(), () => 'Unassigned'),
+    deadline: optional(string(), () => 'No Deadline'),
+    estimatedHours: optional(number({ min: 1, max: 200 }), () => 4),
+  }),
+  update_task_status: object({
+    task: string(),
+    status: oneOf<Task['status']>(['todo', 'in-progress', 'done', 'blocked'], {
+      'in progress': 'in-progress',
+      doing: 'in-progress',
+      completed: 'done',
+      complete: 'done',
+      pending: 'todo',
+    }),
+  }),
+  reschedule_tasks: object({}),
+  add_milestone: object({
+    phase: optional(string(), () => 'Phase'),
+    title: string(),
+    duration: optional(string(), () => '1 week'),
+    description: optional(string(), () => ''),
+  }),
+  append_prd_section: object({
+    heading: string(),
+    content: string(),
+  }),
+};
+
+/** Tool descriptions appended to the chat system prompt when a project is selected */
+export function buildToolInstructions(project: Partial<Project>): string {
+  const tasks = project.tasks?.length
+    ? project.tasks.map(t => `- [${t.id}] ${t.title} (${t.status})`).join('\n')
+    : '- (no tasks yet)';
+
+  return `
+PROJECT ACTIONS:
+You can propose changes to the project. The student sees each proposal as a card and applies it themselves, so only propose an action when they ask for a change. To propose one, add a fenced block at the END of your reply, one block per action:
+\`\`\`tool
+{"name": "<action name>", "arguments": { ... }}
+\`\`\`
+
+Available actions:
+- create_task: {"title": string, "description"?: string, "priority"?: "critical" | "high" | "medium" | "low", "assignedTo"?: string, "deadline"?: "YYYY-MM-DD", "estimatedHours"?: number}
+- update_task_status: {"task": task id or exact title, "status": "todo" | "in-progress" | "done" | "blocked"}
+- reschedule_tasks: {} — re-ranks all tasks and rebuilds the schedule
+- add_milestone: {"phase": string, "title": string, "duration": string, "description"?: string}
+- append_prd_section: {"heading": string, "content": bullet points, one per line starting with "- "}
+
+CURRENT TASKS:
+${tasks}`;
+}
+
+/**
+ * Split an assistant reply into display text and valid tool calls.
+ * Unterminated blocks (mid-stream) are hidden; invalid ones are dropped.
+ */
+export function extractToolCalls(reply: string): { text: string; calls: ChatToolCall[] } {
+  const calls: ChatToolCall[] = [];
+
+  for (const match of reply.matchAll(TOOL_FENCE)) {
+    try {
+      const parsed = JSON.parse(match[1]);
+      const schema: Schema<ChatToolCall['arguments']> | undefined = TOOL_SCHEMAS[parsed?.name as ToolName];
+      if (!schema) continue;
+      const { value, errors } = validate(schema, parsed.arguments ?? {});
+      if (errors.length > 0) {
+        console.warn(`Dropping invalid ${parsed.name} tool call:`, errors);
+        continue;
+      }
+      calls.push({ name: parsed.name, arguments: value } as ChatToolCall);
+    } catch {
+      // Incomplete JSON while streaming, or the model ignored the format
+    }
+  }
+
+  return { text: reply.replace(TOOL_FENCE, '').trim(), calls };
+}
+
+function findTask(tasks: Task[], reference: string): Task | undefined {
+  const needle = reference.trim().toLowerCase();
+  return tasks.find(t => t.id === reference.trim())
+    || tasks.find(t => t.title.toLowerCase() === needle)
+    || tasks.find(t => t.title.toLowerCase().includes(needle));
+}
+
+export interface ToolCallPreview {
+  title: string;
+  details: string[];
+  /** Set when the call can't be applied to the current project state */
+  error?: string;
+}
+
+/** Human-readable summary for the confirmation card */
+export function describeToolCall(call: ChatToolCall, project: Project): ToolCallPreview {
+  switch (call.name) {
+    case 'create_task': {
+      const a = call.arguments;
+      return {
+        title: `Create task "${a.title}"`,
+        details: [
+          a.description,
+          `Priority: ${a.priority} · ${a.estimatedHours}h · ${a.assignedTo}`,
+          a.deadline !== 'No Deadline' ? `Deadline: ${a.deadline}` : '',
+        ].filter(Boolean),
+      };
+    }
+    case 'update_task_status': {
+      const task = findTask(project.tasks || [], call.arguments.task);
+      return {
+        title: `Mark "${task?.title || call.arguments.task}" as ${call.arguments.status}`,
+        details: task ? [`Currently: ${task.status}`] : [],
+        error: task ? undefined : 'No matching task in this project',
+      };
+    }
+    case 'reschedule_tasks':
+      return {
+        title: 'Re-optimise the task schedule',
+        details: [`Re-ranks ${project.tasks?.length || 0} tasks and reassigns start/end dates`],
+        error: project.tasks?.length ? undefined : 'This project has no tasks to schedule',
+      };
+    case 'add_milestone': {
+      const a = call.arguments;
+      return {
+        title: `Add milestone "${a.title}"`,
+        details: [`${a.phase} · ${a.duration}`, a.description].filter(Boolean),
+      };
+    }
+    case 'append_prd_section':
+      return {
+        title: `Append "${call.arguments.heading}" to the PRD`,
+        details: call.arguments.content.split('\n').filter(line => line.trim()).slice(0, 6),
+      };
+  }
+}
+
+/** Next top-level number for a section appended to a numbered document */
+function nextSectionNumber(document: string): number {
+  const numbers = [...document.matchAll(/^(\d+)\.\s/gm)].map(m => parseInt(m[1], 10));
+  return numbers.length > 0 ? Math.max(...numbers) + 1 : 1;
+}
+
+/** Apply a confirmed tool call and return the updated project */
+export function applyToolCall(project: Project, call: ChatToolCall, teamMembers: string[]): Project {
+  const tasks = project.tasks || [];
+
+  switch (call.name) {
+    case 'create_task': {
+      const task = createTask({ ...call.arguments });
+      return { ...project, tasks: rankTasks([...tasks, task]) };
+    }
+    case 'update_task_status': {
+      const task = findTask(tasks, call.arguments.task);
+      if (!task) throw new Error(`Task "${call.arguments.task}" not found`);
+      const updated = tasks.map(t => t.id === task.id ? { ...t, status: call.arguments.status } : t);
+      return { ...project, tasks: rankTasks(updated) };
+    }
+    case 'reschedule_tasks': {
+      const ranked = rankTasks(tasks);
+      const schedule = optimizeSchedule(ranked, teamMembers.length > 0 ? teamMembers : ['Team Member']);
+      return { ...project, tasks: applySchedule(ranked, schedule) };
+    }
+    case 'add_milestone': {
+      const milestone: Milestone = { id: randomId(), ...call.arguments, status: 'not-started' };
+      return { ...project, roadmap: [...(project.roadmap || []), milestone] };
+    }
+    case 'append_prd_section': {
+      const prd = (project.prd || '').trimEnd();
+      const section = `${nextSectionNumber(prd)}. ${call.arguments.heading}\n\n${call.arguments.content.trim()}`;
+      return { ...project, prd: prd ? `${prd}\n\n${section}` : section };
+    }
+  }
+}
@@ -0,0 +1,539 @@
+import { CitationStyle, LearningResource, Project, Reference, ReferenceKind, Source } from '../types';
+import { classifyDocLine, nextNumbers } from './docFormatService';
+import { DOCUMENT_TYPES, getDocumentText } from './documentTypes';
+
+// ─── Citations ──────────────────────────────────────────────────────────────
+// Each project keeps a reference library, filled by BibTeX/RIS import, by hand
+// or from the sources and learning resources the AI suggested. Documents cite
+// entries inline as [@citeKey] (or [@a; @b]). When a document is shown or
+// exported the markers become "[1]" or "(Smith, 2020)" and the cited entries
+// are listed under a References section in the chosen style.
+
+export const CITATION_STYLES: { id: CitationStyle; label: string; description: string }[] = [
+  { id: 'ieee', label: 'IEEE', description: 'Numbered in order of first citation' },
+  { id: 'apa', label: 'APA', description: 'Author–year, listed alphabetically' },
+  { id: 'acm', label: 'ACM', description: 'Numbered, listed alphabetically' },
+];
+
+export const DEFAULT_CITATION_STYLE: CitationStyle = 'ieee';
+
+export const REFERENCE_KINDS: { id: ReferenceKind; label: string }[] = [
+  { id: 'article', label: 'Journal article' },
+  { id: 'conference', label: 'Conference paper' },
+  { id: 'book', label: 'Book' },
+  { id: 'website', label: 'Web page' },
+  { id: 'other', label: 'Other' },
+];
+
+const CITATION_PATTERN = /\[@([\w:.\-/]+(?:\s*[;,]\s*@[\w:.\-/]+)*)\]/g;
+
+export function createReference(fields: Partial<Reference> = {}): Reference {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    citeKey: '',
+    kind: 'other',
+    title: '',
+    authors: [],
+    ...fields,
+  };
+}
+
+export function citationMarker(reference: Reference): string {
+  return `[@${reference.citeKey}]`;
+}
+
+// ─── Library ────────────────────────────────────────────────────────────────
+
+/** "Smith, John A." → family and given names; names without a comma are kept whole, e.g. organisations */
+function splitAuthor(name: string): { family: string; given: string } {
+  const comma = name.indexOf(',');
+  if (comma < 0) return { family: name.trim(), given: '' };
+  return { family: name.slice(0, comma).trim(), given: name.slice(comma + 1).trim() };
+}
+
+function asciiWord(text: string): string {
+  return text.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
+
+/** e.g. "smith2020", then "smith2020a", "smith2020b" when taken */
+export function makeCiteKey(reference: Pick<Reference, 'authors' | 'title' | 'year'>, taken: Set<string>): string {
+  const firstAuthor = reference.authors[0] ? splitAuthor(reference.authors[0]).family.split(/\s+/).pop() || '' : '';
+  const titleWord = reference.title.split(/\s+/).find(word => word.length > 3) || reference.title;
+  const base = (asciiWord(firstAuthor) || asciiWord(titleWord) || 'ref') + (reference.year || '');
+  if (!taken.has(base)) return base;
+  for (let i = 0; ; i++) {
+    const candidate = base + String.fromCharCode(97 + (i % 26)) + (i >= 26 ? Math.floor(i / 26) : '');
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+const normalizeUrl = (url?: string) => (url || '').trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/+$/, '');
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function isSameReference(a: Reference, b: Reference): boolean {
+  if (a.doi && b.doi) return a.doi.toLowerCase() === b.doi.toLowerCase();
+  if (a.url && b.url && normalizeUrl(a.url) === normalizeUrl(b.url)) return true;
+  return normalizeTitle(a.title) !== '' && normalizeTitle(a.title) === normalizeTitle(b.title);
+}
+
+/**
+ * Add `incoming` to the library, skipping untitled entries and ones already
+ * there (same DOI, URL or title). Cite keys that are missing or taken are
+ * replaced with generated ones.
+ */
+export function addReferences(library: Reference[], incoming: Reference[]): { library: Reference[]; added: number; skipped: number } {
+  const result = [...library];
+  let added = 0;
+  let skipped = 0;
+  for (const reference of incoming) {
+    if (!reference.title.trim() || result.some(existing => isSameReference(existing, reference))) {
+      skipped++;
+      continue;
+    }
+    const taken = new Set(result.map(r => r.citeKey));
+    const citeKey = reference.citeKey && !taken.has(reference.citeKey) ? reference.citeKey : makeCiteKey(reference, taken);
+    result.push({ ...reference, citeKey });
+    added++;
+  }
+  return { library: result, added, skipped };
+}
+
+function hostname(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+export function referenceFromSource(source: Source): Reference {
+  return createReference({
+    kind: 'website',
+    title: source.title,
+    url: source.uri,
+    venue: hostname(source.uri),
+    accessed: (source.verification?.checkedAt || new Date().toISOString()).slice(0, 10),
+  });
+}
+
+export function referenceFromLearningResource(resource: LearningResource): Reference {
+  return createReference({
+    kind: resource.type === 'paper' ? 'other' : 'website',
+    title: resource.title,
+    url: resource.url,
+    venue: hostname(resource.url),
+    accessed: (resource.verification?.checkedAt || new Date().toISOString()).slice(0, 10),
+  });
+}
+
+/** Documents of the project that cite `citeKey`, by label */
+export function citingDocuments(project: Project, citeKey: string): string[] {
+  return DOCUMENT_TYPES
+    .filter(type => citedKeys(getDocumentText(project, type.key)).includes(citeKey))
+    .map(type => type.label);
+}
+
+/** The library as prompt input, so generated documents can cite it */
+export function referencesForPrompt(references: Reference[]): string {
+  if (references.length === 0) return 'None yet';
+  return references
+    .map(r => `[@${r.citeKey}] ${r.authors.map(a => splitAuthor(a).family).slice(0, 3).join(', ') || 'Anon.'} (${r.year || 'n.d.'}). ${r.title}`)
+    .join('\n');
+}
+
+// ─── Import ─────────────────────────────────────────────────────────────────
+
+const optional = (value?: string) => value?.trim() || undefined;
+
+/** Undo the LaTeX most bibliography managers emit: escapes, accents, braces, "--" */
+function cleanLatex(value: string): string {
+  return value
+    .replace(/\\[`'^"~=.uvHckrb]\s*\{?(\w)\}?/g, '$1')
+    .replace(/\\([&%_$#])/g, '$1')
+    .replace(/---?/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Read `name = {value}` / `"value"` / bare value pairs from the body of one entry */
+function parseBibFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const namePattern = /\s*,?\s*([\w-]+)\s*=\s*/y;
+  let i = 0;
+  while (i < body.length) {
+    namePattern.lastIndex = i;
+    const match = namePattern.exec(body);
+    if (!match) break;
+    i = namePattern.lastIndex;
+
+    let value = '';
+    if (body[i] === '{' || body[i] === '"') {
+      const close = body[i] === '{' ? '}' : '"';
+      let depth = 0;
+      let j = i + 1;
+      for (; j < body.length; j++) {
+        if (body[j] === '{') depth++;
+        else if (body[j] === '}' && depth > 0) depth--;
+        else if (body[j] === close && depth === 0) break;
+      }
+      value = body.slice(i + 1, j);
+      i = j + 1;
+    } else {
+      const end = body.indexOf(',', i);
+      value = body.slice(i, end < 0 ? body.length : end);
+      i = end < 0 ? body.length : end;
+    }
+    fields[match[1].toLowerCase()] = value;
+  }
+  return fields;
+}
+
+const BIBTEX_KINDS: Record<string, ReferenceKind> = {
+  article: 'article',
+  inproceedings: 'conference',
+  conference: 'conference',
+  proceedings: 'conference',
+  incollection: 'conference',
+  book: 'book',
+  inbook: 'book',
+  online: 'website',
+  webpage: 'website',
+  electronic: 'website',
+  www: 'website',
+};
+
+/** Names are "Family, Given" or "Given Family"; a braced name such as {World Health Organization} is kept whole */
+function bibAuthors(raw?: string): string[] {
+  if (!raw) return [];
+  return raw.split(/\s+and\s+(?![^{]*\})/i).map(name => {
+    const braced = /^\s*\{[^{}]*\}\s*$/.test(name);
+    const clean = cleanLatex(name);
+    if (braced || clean.includes(',') || !clean.includes(' ')) return clean;
+    const words = clean.split(' ');
+    return `${words.pop()}, ${words.join(' ')}`;
+  }).filter(Boolean);
+}
+
+export function parseBibTeX(text: string): Reference[] {
+  const references: Reference[] = [];
+  const entryStart = /@(\w+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryStart.exec(text))) {
+    const [open, close] = match[2] === '{' ? ['{', '}'] : ['(', ')'];
+    let depth = 1;
+    let i = entryStart.lastIndex;
+    for (; i < text.length && depth > 0; i++) {
+      if (text[i] === open) depth++;
+      else if (text[i] === close) depth--;
+    }
+    const body = text.slice(entryStart.lastIndex, i - 1);
+    entryStart.lastIndex = i;
+
+    const type = match[1].toLowerCase();
+    if (type === 'comment' || type === 'string' || type === 'preamble') continue;
+    const comma = body.indexOf(',');
+    if (comma < 0) continue;
+    const raw = parseBibFields(body.slice(comma + 1));
+    const field = (...names: string[]) => optional(cleanLatex(names.map(name => raw[name]).find(Boolean) || ''));
+
+    references.push(createReference({
+      citeKey: body.slice(0, comma).trim(),
+      kind: BIBTEX_KINDS[type] || (type === 'misc' && raw.url ? 'website' : 'other'),
+      title: field('title') || '',
+      authors: bibAuthors(raw.author),
+      year: field('year') || field('date')?.match(/\d{4}/)?.[0],
+      venue: field('journal', 'journaltitle', 'booktitle', 'howpublished', 'organization'),
+      volume: field('volume'),
+      issue: field('number', 'issue'),
+      pages: field('pages'),
+      publisher: field('publisher', 'institution', 'school'),
+      doi: field('doi')?.replace(/^https?:\/\/(dx\.)?doi\.org\//, ''),
+      url: field('url'),
+      accessed: field('urldate'),
+    }));
+  }
+  return references;
+}
+
+const RIS_KINDS: Record<string, ReferenceKind> = {
+  JOUR: 'article',
+  JFULL: 'article',
+  MGZN: 'article',
+  CONF: 'conference',
+  CPAPER: 'conference',
+  BOOK: 'book',
+  CHAP: 'book',
+  EBOOK: 'book',
+  ELEC: 'website',
+  WEB: 'website',
+  BLOG: 'website',
+};
+
+export function parseRIS(text: string): Reference[] {
+  const references: Reference[] = [];
+  let tags: Record<string, string[]> | null = null;
+
+  const finish = (record: Record<string, string[]>) => {
+    const first = (...names: string[]) => optional(names.map(name => record[name]?.[0]).find(Boolean));
+    const start = first('SP');
+    const end = first('EP');
+    references.push(createReference({
+      citeKey: first('ID') || '',
+      kind: RIS_KINDS[first('TY') || ''] || 'other',
+      title: first('TI', 'T1', 'CT') || '',
+      authors: [...(record.AU || []), ...(record.A1 || [])].map(name => name.trim()).filter(Boolean),
+      year: first('PY', 'Y1', 'DA')?.match(/\d{4}/)?.[0],
+      venue: first('T2', 'JO', 'JF', 'JA', 'BT'),
+      volume: first('VL'),
+      issue: first('IS'),
+      pages: start && end ? `${start}–${end}` : start,
+      publisher: first('PB'),
+      doi: first('DO')?.replace(/^https?:\/\/(dx\.)?doi\.org\//, ''),
+      url: first('UR'),
+      accessed: first('Y2'),
+    }));
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(/^([A-Z][A-Z0-9])\s{1,2}-\s?(.*)$/);
+    if (!match) continue;
+    const [, tag, value] = match;
+    if (tag === 'TY') tags = {};
+    if (!tags) continue;
+    if (tag === 'ER') {
+      finish(tags);
+      tags = null;
+      continue;
+    }
+    (tags[tag] ||= []).push(value.trim());
+  }
+  if (tags) finish(tags);
+  return references;
+}
+
+/** Parse a pasted or uploaded bibliography, telling RIS and BibTeX apart by their first tag */
+export function parseReferenceFile(text: string): { format: 'BibTeX' | 'RIS'; references: Reference[] } {
+  return /^\s*TY\s{1,2}-/m.test(text)
+    ? { format: 'RIS', references: parseRIS(text) }
+    : { format: 'BibTeX', references: parseBibTeX(text) };
+}
+
+// ─── Formatting ─────────────────────────────────────────────────────────────
+
+const markerKeys = (inner: string) => inner.split(/[;,]/).map(part => part.trim().replace(/^@/, ''));
+
+/** Cite keys in order of first appearance */
+export function citedKeys(text: string): string[] {
+  const keys: string[] = [];
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    for (const key of markerKeys(match[1])) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/** Text pieces and the cite keys of each marker between them, for outputs with their own citation commands */
+export function splitCitations(text: string): (string | { keys: string[] })[] {
+  const pieces: (string | { keys: string[] })[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index! > last) pieces.push(text.slice(last, match.index));
+    pieces.push({ keys: markerKeys(match[1]) });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) pieces.push(text.slice(last));
+  return pieces;
+}
+
+const initials = (given: string) => given.split(/[\s.]+/).filter(Boolean).map(part => `${part[0]}.`).join(' ');
+
+/** APA keeps the comma before "&" even for two authors */
+function joinNames(names: string[], conjunction: 'and' | '&'): string {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]}${conjunction === '&' ? ',' : ''} ${conjunction} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, ${conjunction} ${names[names.length - 1]}`;
+}
+
+function ieeeAuthors(authors: string[]): string {
+  const names = authors.map(splitAuthor).map(({ family, given }) => (given ? `${initials(given)} ${family}` : family));
+  return names.length > 6 ? `${names[0]} et al.` : joinNames(names, 'and');
+}
+
+function apaAuthors(authors: string[]): string {
+  const names = authors.map(splitAuthor).map(({ family, given }) => (given ? `${family}, ${initials(given)}` : family));
+  return names.length > 20 ? `${names.slice(0, 19).join(', ')}, … ${names[names.length - 1]}` : joinNames(names, '&');
+}
+
+function acmAuthors(authors: string[]): string {
+  return joinNames(authors.map(splitAuthor).map(({ family, given }) => (given ? `${given} ${family}` : family)), 'and');
+}
+
+const withPeriod = (text: string) => (/[.?!]$/.test(text) ? text : `${text}.`);
+
+const formatAccessed = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+function formatIeee(r: Reference): string {
+  const lead = r.authors.length ? `${ieeeAuthors(r.authors)}, ` : '';
+  let entry: string;
+  if (r.kind === 'book') {
+    entry = `${lead}*${r.title}*. ${[r.publisher, r.year].filter(Boolean).join(', ')}`.trim();
+  } else {
+    const details = r.kind === 'article'
+      ? [r.venue && `*${r.venue}*`, r.volume && `vol. ${r.volume}`, r.issue && `no. ${r.issue}`, r.pages && `pp. ${r.pages}`, r.year]
+      : r.kind === 'conference'
+        ? [r.venue && `in *${r.venue}*`, r.year, r.pages && `pp. ${r.pages}`]
+        : [r.venue, r.year];
+    const rest = details.filter(Boolean).join(', ');
+    entry = rest ? `${lead}"${r.title}," ${rest}` : `${lead}"${r.title}"`;
+  }
+  entry = withPeriod(entry);
+  if (r.doi) return `${entry} doi: ${r.doi}.`;
+  if (r.url) return `${entry}${r.accessed ? ` Accessed: ${formatAccessed(r.accessed)}.` : ''} [Online]. Available: ${r.url}`;
+  return entry;
+}
+
+function formatApa(r: Reference): string {
+  const year = `(${r.year || 'n.d.'}).`;
+  const italicTitle = r.kind === 'book' || r.kind === 'website' || r.kind === 'other';
+  const title = withPeriod(italicTitle ? `*${r.title}*` : r.title);
+  const head = r.authors.length ? `${withPeriod(apaAuthors(r.authors))} ${year} ${title}` : `${title} ${year}`;
+
+  let source = '';
+  if (r.kind === 'article' && r.venue) {
+    source = `*${r.venue}*${r.volume ? `, *${r.volume}*` : ''}${r.issue ? `(${r.issue})` : ''}${r.pages ? `, ${r.pages}` : ''}.`;
+  } else if (r.kind === 'conference' && r.venue) {
+    source = `In *${r.venue}*${r.pages ? ` (pp. ${r.pages})` : ''}.${r.publisher ? ` ${withPeriod(r.publisher)}` : ''}`;
+  } else if (r.publisher || r.venue) {
+    source = withPeriod((r.publisher || r.venue)!);
+  }
+  const link = r.doi ? `https://doi.org/${r.doi}` : r.url;
+  return [head, source, link].filter(Boolean).join(' ');
+}
+
+function formatAcm(r: Reference): string {
+  const lead = [r.authors.length ? withPeriod(acmAuthors(r.authors)) : '', r.year ? `${r.year}.` : ''].filter(Boolean).join(' ');
+  const title = r.kind === 'book' ? `*${r.title}*.` : withPeriod(r.title);
+  let source = '';
+  if (r.kind === 'article' && r.venue) {
+    source = `*${r.venue}*${r.volume ? ` ${r.volume}` : ''}${r.issue ? `, ${r.issue}` : ''}${r.year ? ` (${r.year})` : ''}${r.pages ? `, ${r.pages}` : ''}.`;
+  } else if (r.kind === 'conference' && r.venue) {
+    source = `In *${r.venue}*.${r.publisher ? ` ${r.publisher},` : ''}${r.pages ? ` ${r.pages}` : ''}`.replace(/,$/, '');
+    source = withPeriod(source);
+  } else if (r.publisher || r.venue) {
+    source = withPeriod((r.publisher || r.venue)!);
+  }
+  const link = r.doi
+    ? `https://doi.org/${r.doi}`
+    : r.url && (r.accessed ? `Retrieved ${formatAccessed(r.accessed)} from ${r.url}` : r.url);
+  return [lead, title, source, link].filter(Boolean).join(' ');
+}
+
+/** One bibliography entry without its number; titles and venues are *italic* as the style asks */
+export function formatReference(reference: Reference, style: CitationStyle): string {
+  if (style === 'apa') return formatApa(reference);
+  if (style === 'acm') return formatAcm(reference);
+  return formatIeee(reference);
+}
+
+function compareByAuthor(a: Reference, b: Reference): number {
+  const sortKey = (r: Reference) => `${(r.authors[0] ? splitAuthor(r.authors[0]).family : r.title).toLowerCase()} ${r.year || ''}`;
+  return sortKey(a).localeCompare(sortKey(b));
+}
+
+/** "[1], [3]" with runs of three or more as "[1]–[3]" (IEEE), or "[1, 2, 3]" (ACM) */
+function numberedCitation(numbers: number[], style: CitationStyle): string {
+  const sorted = [...new Set(numbers)].sort((a, b) => a - b);
+  if (style === 'acm') return `[${sorted.join(', ')}]`;
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (sorted[j + 1] === sorted[j] + 1) j++;
+    if (j - i >= 2) {
+      parts.push(`[${sorted[i]}]–[${sorted[j]}]`);
+      i = j;
+    } else {
+      parts.push(`[${sorted[i]}]`);
+    }
+  }
+  return parts.join(', ');
+}
+
+/** "Smith", "Smith & Lee" or "Smith et al."; the first words of the title when there is no author */
+export function shortAuthors(reference: Reference): string {
+  const families = reference.authors.map(a => splitAuthor(a).family);
+  if (families.length === 0) return reference.title.split(/\s+/).slice(0, 4).join(' ');
+  return families.length === 1 ? families[0] : families.length === 2 ? `${families[0]} & ${families[1]}` : `${families[0]} et al.`;
+}
+
+function apaCitation(reference: Reference): string {
+  const who = reference.authors.length ? shortAuthors(reference) : `*${shortAuthors(reference)}*`;
+  return `${who}, ${reference.year || 'n.d.'}`;
+}
+
+/** Replace "References"/"Bibliography" section contents, or add the section at the end */
+function withBibliography(text: string, entries: string[]): string {
+  const lines = text.replace(/\s+$/, '').split('\n');
+  const kinds = lines.map(line => classifyDocLine(line.trim()));
+  const titleOf = (line: string, kind: string) => (kind === 'label' ? line.slice(0, line.indexOf(':')) : line.replace(/^\d+\.\s+/, ''));
+  const existing = lines.findIndex((line, i) =>
+    (kinds[i] === 'label' || kinds[i] === 'heading') && /^(references|bibliography)$/i.test(titleOf(line.trim(), kinds[i]).trim())
+  );
+
+  if (existing >= 0) {
+    const isBoundary = (kind: string) => kind === 'heading' || (kinds[existing] === 'label' && kind === 'label');
+    let end = existing + 1;
+    while (end < lines.length && !isBoundary(kinds[end])) end++;
+    const title = kinds[existing] === 'label' ? `${titleOf(lines[existing].trim(), 'label')}:` : lines[existing].trim();
+    return [...lines.slice(0, existing), title, ...entries, ...(end < lines.length ? ['', ...lines.slice(end)] : [])].join('\n');
+  }
+
+  const title = kinds.includes('heading') ? `${nextNumbers(text).heading}. References` : 'REFERENCES:';
+  return `${lines.join('\n')}\n\n${title}\n${entries.join('\n')}`;
+}
+
+/** Library entries cited in `text`, in bibliography order: first citation for IEEE, alphabetical otherwise */
+export function bibliographyOrder(text: string, references: Reference[], style: CitationStyle = DEFAULT_CITATION_STYLE): Reference[] {
+  const byKey = new Map(references.map(r => [r.citeKey, r]));
+  const cited = citedKeys(text).map(key => byKey.get(key)).filter((r): r is Reference => !!r);
+  return style === 'ieee' ? cited : [...cited].sort(compareByAuthor);
+}
+
+/**
+ * Resolve [@key] markers against the library and list the cited entries under
+ * References. Unknown keys are shown as "[?key]" so they stand out.
+ */
+export function renderCitations(text: string, references: Reference[], style: CitationStyle = DEFAULT_CITATION_STYLE): string {
+  if (citedKeys(text).length === 0) return text;
+
+  const byKey = new Map(references.map(r => [r.citeKey, r]));
+  const ordered = bibliographyOrder(text, references, style);
+  const numbers = new Map(ordered.map((r, i) => [r.citeKey, i + 1]));
+
+  const body = text.replace(CITATION_PATTERN, (_marker, inner: string) => {
+    const keys = markerKeys(inner);
+    const unknown = keys.filter(key => !byKey.has(key)).map(key => `[?${key}]`);
+    const known = keys.filter(key => byKey.has(key));
+    const resolved = known.length === 0
+      ? ''
+      : style === 'apa'
+        ? `(${known.map(key => apaCitation(byKey.get(key)!)).join('; ')})`
+        : numberedCitation(known.map(key => numbers.get(key)!), style);
+    return [resolved, ...unknown].filter(Boolean).join(' ');
+  });
+
+  if (ordered.length === 0) return body;
+  const entries = ordered.map((r, i) => (style === 'apa' ? formatReference(r, style) : `[${i + 1}] ${formatReference(r, style)}`));
+  return withBibliography(body, entries);
+}
+
+/** Cite keys used in `text` that are not in the library */
+export function unknownCitations(text: string, references: Reference[]): string[] {
+  const known = new Set(references.map(r => r.citeKey));
+  return citedKeys(text).filter(citeKey => !known.has(citeKey));
+}
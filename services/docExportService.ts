@@ -0,0 +1,314 @@
+import { ArchitectureModel, CitationStyle, Reference } from '../types';
+import { architectureToMermaid } from './architectureService';
+import { DocBlock, parseDocBlocks, parseInline } from './docFormatService';
+import { bibliographyOrder, DEFAULT_CITATION_STYLE, formatReference, shortAuthors, splitCitations } from './citationService';
+
+// ─── Documentation Export Formats ───────────────────────────────────────────
+// Word, LaTeX and Markdown versions of the documentation. Every document is
+// split into blocks with the line rules the preview and the PDF use (see
+// parseDocBlocks), so a heading in the app is a heading in each format. These
+// functions only build file contents; exportService packages and downloads them.
+
+export interface ExportSection {
+  title: string;
+  text: string;
+}
+
+export interface DocumentationExport {
+  projectTitle: string;
+  sections: ExportSection[];
+  architecture?: ArchitectureModel;
+}
+
+const stripHeadingNumber = (text: string) => text.replace(/^\d+\.(\d+)?\s+/, '');
+
+// ─── Markdown ───────────────────────────────────────────────────────────────
+
+/** Citations should already be resolved; labels are written as **LABEL:** so the editor reads them back */
+export function documentationToMarkdown({ projectTitle, sections, architecture }: DocumentationExport): string {
+  const lines = [`# ${projectTitle}`, ''];
+  for (const section of sections) {
+    lines.push(`## ${section.title}`, '');
+    for (const block of parseDocBlocks(section.text)) {
+      if (block.kind === 'diagram') {
+        if (!architecture?.components.length) continue;
+        lines.push('```mermaid', architectureToMermaid(architecture), '```');
+      } else if (block.kind === 'heading') lines.push(`### ${block.text}`);
+      else if (block.kind === 'subheading') lines.push(`#### ${block.text}`);
+      else if (block.kind === 'label') lines.push(block.text ? `**${block.label}:** ${block.text}` : `**${block.label}:**`);
+      else if (block.kind === 'list') lines.push(...block.items.map(item => `- ${item}`));
+      else lines.push(block.text);
+      lines.push('');
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// ─── LaTeX ──────────────────────────────────────────────────────────────────
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '$': '\\$',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+/** Characters generated documents use that pdfLaTeX does not know */
+const LATEX_UNICODE = [
+  '\\DeclareUnicodeCharacter{2192}{\\ensuremath{\\rightarrow}}',
+  '\\DeclareUnicodeCharacter{2190}{\\ensuremath{\\leftarrow}}',
+  '\\DeclareUnicodeCharacter{2194}{\\ensuremath{\\leftrightarrow}}',
+  '\\DeclareUnicodeCharacter{2264}{\\ensuremath{\\leq}}',
+  '\\DeclareUnicodeCharacter{2265}{\\ensuremath{\\geq}}',
+  '\\DeclareUnicodeCharacter{2022}{\\textbullet}',
+  '\\DeclareUnicodeCharacter{20B9}{Rs.}',
+];
+
+export function escapeLatex(text: string): string {
+  return text.replace(/[\\&%$#_{}~^]/g, char => LATEX_SPECIALS[char]).replace(/"([^"]*)"/g, "``$1''");
+}
+
+/** Inline Markdown as \textbf/\textit/\texttt, and [@key] markers through `cite` */
+function latexInline(text: string, cite: (keys: string[]) => string): string {
+  return parseInline(text).map(run => {
+    const body = splitCitations(run.text).map(piece => (typeof piece === 'string' ? escapeLatex(piece) : cite(piece.keys))).join('');
+    if (run.style === 'bold') return `\\textbf{${body}}`;
+    if (run.style === 'italic') return `\\textit{${body}}`;
+    if (run.style === 'code') return `\\texttt{${body}}`;
+    return body;
+  }).join('');
+}
+
+function latexBlock(block: DocBlock, inline: (text: string) => string, diagramFile?: string): string | null {
+  switch (block.kind) {
+    case 'heading': return `\\section{${inline(stripHeadingNumber(block.text))}}`;
+    case 'subheading': return `\\subsection{${inline(stripHeadingNumber(block.text))}}`;
+    case 'label': return `\\paragraph{${escapeLatex(block.label)}}${block.text ? ` ${inline(block.text)}` : ''}`;
+    case 'list': return ['\\begin{itemize}', ...block.items.map(item => `  \\item ${inline(item)}`), '\\end{itemize}'].join('\n');
+    case 'diagram':
+      if (!diagramFile) return null;
+      return [
+        '\\begin{figure}[htbp]',
+        '  \\centering',
+        `  \\includegraphics[width=\\linewidth]{${diagramFile}}`,
+        '  \\caption{System architecture}',
+        '\\end{figure}',
+      ].join('\n');
+    default: return inline(block.text);
+  }
+}
+
+/**
+ * A single document becomes an article, several become a report with one
+ * chapter each. Citations turn into natbib \citep commands backed by a
+ * thebibliography list in the project's style; `diagramFile` is the image
+ * shipped next to the .tex for the architecture marker.
+ */
+export function documentationToLatex(
+  { projectTitle, sections }: DocumentationExport,
+  references: Reference[] = [],
+  style: CitationStyle = DEFAULT_CITATION_STYLE,
+  diagramFile?: string
+): string {
+  const isReport = sections.length > 1;
+  const known = new Set(references.map(r => r.citeKey));
+  const cite = (keys: string[]) => {
+    const found = keys.filter(key => known.has(key));
+    const missing = keys.filter(key => !known.has(key)).map(key => escapeLatex(`[?${key}]`));
+    return [found.length ? `\\citep{${found.join(',')}}` : '', ...missing].filter(Boolean).join(' ');
+  };
+  const inline = (text: string) => latexInline(text, cite);
+
+  const body: string[] = [];
+  for (const section of sections) {
+    if (isReport) body.push(`\\chapter{${escapeLatex(section.title)}}`, '');
+    for (const block of parseDocBlocks(section.text)) {
+      const latex = latexBlock(block, inline, diagramFile);
+      if (latex !== null) body.push(latex, '');
+    }
+  }
+
+  const cited = bibliographyOrder(sections.map(s => s.text).join('\n'), references, style);
+  if (cited.length) {
+    body.push('\\begin{thebibliography}{99}');
+    for (const reference of cited) {
+      const label = style === 'apa' ? `[${escapeLatex(shortAuthors(reference))}(${reference.year || 'n.d.'})]` : '';
+      body.push(`\\bibitem${label}{${reference.citeKey}} ${inline(formatReference(reference, style))}`);
+    }
+    body.push('\\end{thebibliography}', '');
+  }
+
+  const title = isReport ? escapeLatex(projectTitle) : `${escapeLatex(projectTitle)} \\\\ \\large ${escapeLatex(sections[0]?.title || '')}`;
+  return [
+    `\\documentclass[11pt,a4paper]{${isReport ? 'report' : 'article'}}`,
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage[T1]{fontenc}',
+    '\\usepackage{lmodern}',
+    '\\usepackage[margin=2.5cm]{geometry}',
+    '\\usepackage{graphicx}',
+    style === 'apa' ? '\\usepackage[round]{natbib}' : '\\usepackage[numbers,sort&compress]{natbib}',
+    '\\usepackage[hidelinks]{hyperref}',
+    ...LATEX_UNICODE,
+    '',
+    `\\title{${title}}`,
+    '\\date{\\today}',
+    '',
+    '\\begin{document}',
+    '\\maketitle',
+    '\\tableofcontents',
+    '',
+    ...body,
+    '\\end{document}',
+    '',
+  ].join('\n');
+}
+
+// ─── DOCX ───────────────────────────────────────────────────────────────────
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+/** Path of the diagram image inside the package */
+export const DOCX_DIAGRAM_PATH = 'word/media/architecture.png';
+/** 6 inches, the text width of an A4 page with 1 inch margins, in EMU */
+const MAX_IMAGE_EMU = 5486400;
+const EMU_PER_PX = 9525;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function docxRuns(text: string): string {
+  return parseInline(text).map(run => {
+    const props = run.style === 'bold' ? '<w:b/>' : run.style === 'italic' ? '<w:i/>' : run.style === 'code' ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : '';
+    return `<w:r>${props && `<w:rPr>${props}</w:rPr>`}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+  }).join('');
+}
+
+const docxParagraph = (content: string, style?: string) =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${content}</w:p>`;
+
+function docxImage(id: number, size: { width: number; height: number }): string {
+  const cx = Math.min(size.width * EMU_PER_PX, MAX_IMAGE_EMU);
+  const cy = Math.round(size.height * cx / size.width);
+  return `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">`
+    + `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Architecture diagram ${id}"/>`
+    + `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+    + `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${id}" name="architecture.png"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip r:embed="rIdDiagram"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+}
+
+/** Word fills the field in when the file is opened (see updateFields in settings.xml) */
+const TABLE_OF_CONTENTS = docxParagraph('<w:r><w:t>Contents</w:t></w:r>', 'TOCHeading')
+  + '<w:p><w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>'
+  + '<w:r><w:instrText xml:space="preserve"> TOC \\o "1-3" \\h \\z \\u </w:instrText></w:r>'
+  + '<w:r><w:fldChar w:fldCharType="separate"/></w:r>'
+  + '<w:r><w:t>Right-click here and choose Update Field to build the table of contents.</w:t></w:r>'
+  + '<w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>';
+
+const headingStyle = (id: string, name: string, size: number, level: number, extra = '') =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+  + `<w:pPr><w:keepNext/>${extra}<w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level}"/></w:pPr>`
+  + `<w:rPr><w:b/><w:color w:val="1E293B"/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES_XML = `${XML_HEADER}<w:styles xmlns:w="${W_NS}">`
+  + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+  + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/>'
+  + '<w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="52"/></w:rPr></w:style>'
+  + headingStyle('Heading1', 'heading 1', 36, 0, '<w:pageBreakBefore/>')
+  + headingStyle('Heading2', 'heading 2', 28, 1)
+  + headingStyle('Heading3', 'heading 3', 24, 2)
+  + '<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/>'
+  + '<w:rPr><w:b/><w:sz w:val="32"/></w:rPr></w:style>'
+  + '<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:qFormat/>'
+  + '<w:pPr><w:numPr><w:numId w:val="1"/></w:numPr><w:spacing w:after="60"/></w:pPr></w:style>'
+  + '</w:styles>';
+
+const NUMBERING_XML = `${XML_HEADER}<w:numbering xmlns:w="${W_NS}">`
+  + '<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>'
+  + '<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/>'
+  + '<w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>'
+  + '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>';
+
+/**
+ * The XML parts of a .docx: Title, a table of contents, each document under
+ * Heading 1 on a new page, numbered headings and labels as Heading 2/3 and
+ * bullets in the List Bullet style. Citations should already be resolved.
+ * Pass `diagram` (the PNG size in pixels) when the image is added at
+ * DOCX_DIAGRAM_PATH.
+ */
+export function documentationToDocx({ projectTitle, sections }: DocumentationExport, diagram?: { width: number; height: number }): Record<string, string> {
+  let imageId = 0;
+  const body: string[] = [docxParagraph(docxRuns(projectTitle), 'Title'), TABLE_OF_CONTENTS];
+
+  for (const section of sections) {
+    body.push(docxParagraph(docxRuns(section.title), 'Heading1'));
+    for (const block of parseDocBlocks(section.text)) {
+      if (block.kind === 'diagram') {
+        if (diagram) body.push(docxImage(++imageId, diagram));
+      } else if (block.kind === 'heading') body.push(docxParagraph(docxRuns(block.text), 'Heading2'));
+      else if (block.kind === 'subheading') body.push(docxParagraph(docxRuns(block.text), 'Heading3'));
+      else if (block.kind === 'label') {
+        body.push(docxParagraph(docxRuns(block.label), 'Heading2'));
+        if (block.text) body.push(docxParagraph(docxRuns(block.text)));
+      } else if (block.kind === 'list') body.push(...block.items.map(item => docxParagraph(docxRuns(item), 'ListBullet')));
+      else body.push(docxParagraph(docxRuns(block.text)));
+    }
+  }
+
+  const document = `${XML_HEADER}<w:document xmlns:w="${W_NS}" xmlns:r="${REL_NS}" `
+    + 'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"><w:body>'
+    + body.join('')
+    + '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>'
+    + '</w:body></w:document>';
+
+  const relationship = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="${REL_NS}/${type}" Target="${target}"/>`;
+
+  return {
+    '[Content_Types].xml': `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Default Extension="png" ContentType="image/png"/>'
+      + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+      + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+      + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+      + '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>'
+      + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+      + '</Types>',
+    '_rels/.rels': `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + relationship('rId1', 'officeDocument', 'word/document.xml')
+      + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+      + '</Relationships>',
+    'docProps/core.xml': `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" `
+      + 'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+      + `<dc:title>${escapeXml(projectTitle)}</dc:title>`
+      + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+      + '</cp:coreProperties>',
+    'word/_rels/document.xml.rels': `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + relationship('rId1', 'styles', 'styles.xml')
+      + relationship('rId2', 'numbering', 'numbering.xml')
+      + relationship('rId3', 'settings', 'settings.xml')
+      + (diagram ? relationship('rIdDiagram', 'image', DOCX_DIAGRAM_PATH.replace('word/', '')) : '')
+      + '</Relationships>',
+    'word/document.xml': document,
+    'word/styles.xml': STYLES_XML,
+    'word/numbering.xml': NUMBERING_XML,
+    'word/settings.xml': `${XML_HEADER}<w:settings xmlns:w="${W_NS}"><w:updateFields w:val="true"/></w:settings>`,
+  };
+}
@@ -0,0 +1,190 @@
+import { ARCHITECTURE_MARKER } from './architectureService';
+
+// ─── Document Format ────────────────────────────────────────────────────────
+// Generated documents are plain text with a few strict conventions: upper-case
+// section labels ("BACKGROUND:"), numbered headings ("2. Design", "2.1 Data
+// Flow"), "- " bullets, "FR1:" requirements and "Step 1 →" flows. The
+// renderer, the editor and every export (PDF, DOCX, LaTeX, Markdown) classify
+// lines with the same rules, and Markdown typed in the editor is folded back
+// into them on save.
+
+export type DocLineKind =
+  | 'blank'
+  | 'diagram'
+  | 'label'
+  | 'heading'
+  | 'subheading'
+  | 'requirement'
+  | 'step'
+  | 'bullet'
+  | 'paragraph';
+
+const LABEL_PATTERN = /^[A-Z][A-Z &/]+:/;
+const HEADING_PATTERN = /^\d+\.\s+[A-Z]/;
+const SUBHEADING_PATTERN = /^\d+\.\d+\s+/;
+
+/** Classify one trimmed line; the order matters, e.g. "FR1:" is not a label */
+export function classifyDocLine(trimmed: string): DocLineKind {
+  if (trimmed === '') return 'blank';
+  if (trimmed === ARCHITECTURE_MARKER) return 'diagram';
+  if (LABEL_PATTERN.test(trimmed) && !trimmed.startsWith('FR')) return 'label';
+  if (HEADING_PATTERN.test(trimmed) && !/^\d+\.\d+/.test(trimmed)) return 'heading';
+  if (SUBHEADING_PATTERN.test(trimmed)) return 'subheading';
+  if (/^-?\s*FR\d+:/.test(trimmed)) return 'requirement';
+  if (/^-?\s*Step\s+\d+\s*→/i.test(trimmed)) return 'step';
+  if (/^-\s+/.test(trimmed)) return 'bullet';
+  return 'paragraph';
+}
+
+/** Inline **bold**, *italic* and `code` runs, in order, for renderers that can style them */
+export type InlineRun = { text: string; style: 'plain' | 'bold' | 'italic' | 'code' };
+
+export function parseInline(text: string): InlineRun[] {
+  const runs: InlineRun[] = [];
+  const pattern = /\*\*([^*]+)\*\*|`([^`]+)`|\*([^*\s][^*]*)\*/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (match.index > last) runs.push({ text: text.slice(last, match.index), style: 'plain' });
+    if (match[1] !== undefined) runs.push({ text: match[1], style: 'bold' });
+    else if (match[2] !== undefined) runs.push({ text: match[2], style: 'code' });
+    else runs.push({ text: match[3], style: 'italic' });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) runs.push({ text: text.slice(last), style: 'plain' });
+  return runs;
+}
+
+/** Plain text for outputs without inline styling, such as the PDF */
+export function stripInlineMarkdown(text: string): string {
+  return parseInline(text).map(run => run.text).join('');
+}
+
+export type DocBlock =
+  | { kind: 'heading' | 'subheading' | 'paragraph'; text: string }
+  | { kind: 'label'; label: string; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'diagram' };
+
+/**
+ * Group classified lines into blocks for exports with real structure (DOCX,
+ * LaTeX, Markdown). Bullets, requirements and flow steps that follow each
+ * other form one list; a requirement keeps its "FR1:" in bold.
+ */
+export function parseDocBlocks(text: string): DocBlock[] {
+  const blocks: DocBlock[] = [];
+  let list: { kind: 'list'; items: string[] } | null = null;
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    const kind = classifyDocLine(trimmed);
+
+    let item: string | null = null;
+    if (kind === 'bullet') item = trimmed.replace(/^-\s+/, '');
+    else if (kind === 'requirement') item = trimmed.replace(/^-?\s*(FR\d+):\s*/, '**$1:** ');
+    else if (kind === 'step') item = trimmed.replace(/^-?\s*/, '');
+
+    if (item !== null) {
+      if (!list) blocks.push(list = { kind: 'list', items: [] });
+      list.items.push(item);
+      continue;
+    }
+    list = null;
+
+    if (kind === 'diagram') blocks.push({ kind });
+    else if (kind === 'label') {
+      const colon = trimmed.indexOf(':');
+      blocks.push({ kind, label: trimmed.slice(0, colon), text: trimmed.slice(colon + 1).trim() });
+    } else if (kind === 'heading' || kind === 'subheading') blocks.push({ kind, text: trimmed });
+    else if (kind !== 'blank') blocks.push({ kind: 'paragraph', text: trimmed });
+  }
+  return blocks;
+}
+
+function toLabel(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z &/]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fold block-level Markdown into the document conventions: "## 2. Design"
+ * loses its hashes, an unnumbered "## Background" becomes "BACKGROUND:",
+ * "**SCOPE:**" loses its asterisks, "* item" becomes "- item" and rules are dropped.
+ */
+export function normalizeMarkdown(text: string): string {
+  return text.split('\n').map(line => {
+    const trimmed = line.trim();
+
+    const heading = trimmed.match(/^#{1,6}\s+(.*?)\s*#*$/);
+    if (heading) {
+      const inner = stripInlineMarkdown(heading[1]).trim();
+      if (/^\d+\.(\d+)?\s+/.test(inner)) return inner;
+      const label = toLabel(inner.replace(/:$/, ''));
+      return label.length > 1 ? `${label}:` : inner;
+    }
+
+    const boldLabel = trimmed.match(/^\*\*([A-Z][A-Z &/]+)(?::\*\*|\*\*:)\s*(.*)$/);
+    if (boldLabel) return boldLabel[2] ? `${boldLabel[1]}: ${boldLabel[2]}` : `${boldLabel[1]}:`;
+
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) return '';
+    if (/^[*+]\s+/.test(trimmed)) return `- ${trimmed.replace(/^[*+]\s+/, '')}`;
+    return line.replace(/\s+$/, '');
+  }).join('\n');
+}
+
+export interface OutlineEntry {
+  kind: 'label' | 'heading' | 'subheading';
+  text: string;
+}
+
+/** Labels and numbered headings, in document order */
+export function documentOutline(text: string): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    const kind = classifyDocLine(trimmed);
+    if (kind === 'label') entries.push({ kind, text: trimmed.slice(0, trimmed.indexOf(':')) });
+    else if (kind === 'heading' || kind === 'subheading') entries.push({ kind, text: trimmed });
+  }
+  return entries;
+}
+
+/** Outline entries of `before` that no longer appear in `after`; headings are compared by title, ignoring their numbers */
+export function missingOutlineEntries(before: string, after: string): OutlineEntry[] {
+  const key = (entry: OutlineEntry) => `${entry.kind}|${entry.text.replace(/^\d+\.(\d+)?\s+/, '').toLowerCase()}`;
+  const present = new Set(documentOutline(after).map(key));
+  return documentOutline(before).filter(entry => !present.has(key(entry)));
+}
+
+/** Number headings 1, 2, 3… and sub-headings 1.1, 1.2… in order, e.g. after inserting or removing a section */
+export function renumberHeadings(text: string): string {
+  let major = 0;
+  let minor = 0;
+  return text.split('\n').map(line => {
+    const trimmed = line.trim();
+    const kind = classifyDocLine(trimmed);
+    if (kind === 'heading') {
+      major++;
+      minor = 0;
+      return trimmed.replace(/^\d+\./, `${major}.`);
+    }
+    if (kind === 'subheading') {
+      minor++;
+      return trimmed.replace(/^\d+\.\d+/, `${Math.max(major, 1)}.${minor}`);
+    }
+    return line;
+  }).join('\n');
+}
+
+/** Number the next top-level heading and the next requirement would get */
+export function nextNumbers(text: string): { heading: number; subheading: string; requirement: number } {
+  const outline = documentOutline(text);
+  const headings = outline.filter(e => e.kind === 'heading');
+  const lastMajor = headings.length ? parseInt(headings[headings.length - 1].text, 10) : 0;
+  const subs = outline.filter(e => e.kind === 'subheading' && parseInt(e.text, 10) === lastMajor);
+  const requirements = [...text.matchAll(/FR(\d+):/g)].map(m => parseInt(m[1], 10));
+  return {
+    heading: lastMajor + 1,
+    subheading: `${Math.max(lastMajor, 1)}.${subs.length + 1}`,
+    requirement: Math.max(0, ...requirements) + 1,
+  };
+}
@@ -0,0 +1,187 @@
+import { DocRevision, DocRevisionSource, DocumentKey, Project } from '../types';
+import { classifyDocLine, renumberHeadings } from './docFormatService';
+import { DOCUMENT_TYPES, getDocumentText, withDocumentText } from './documentTypes';
+
+// ─── Document Revisions ─────────────────────────────────────────────────────
+// Every change to a document (abstract, PRD, SRS, …) is kept as a revision with
+// its author and whether the AI or a person wrote it. Autosaved edits by the
+// same person close together are folded into one revision so the log stays
+// readable. Any two revisions can be diffed line by line, and a whole
+// revision or a single section of it can be brought back.
+
+/** Oldest revisions are dropped past this, since projects live in localStorage */
+const MAX_REVISIONS = 30;
+/** Manual saves by the same author within this window update the latest revision instead of adding one */
+const MERGE_WINDOW_MS = 10 * 60 * 1000;
+
+export interface RevisionMeta {
+  author: string;
+  source: DocRevisionSource;
+  note?: string;
+}
+
+export function getRevisions(project: Project, key: DocumentKey): DocRevision[] {
+  return project.docRevisions?.[key] || [];
+}
+
+function newRevision(text: string, meta: RevisionMeta, createdAt = new Date().toISOString()): DocRevision {
+  return { id: Math.random().toString(36).substr(2, 9), text, createdAt, ...meta };
+}
+
+/**
+ * Set the document and log the change. Text written before history existed is
+ * kept as a first revision so the earliest generated version is never lost.
+ */
+export function recordRevision(project: Project, key: DocumentKey, text: string, meta: RevisionMeta): Project {
+  const revisions = [...getRevisions(project, key)];
+  const previousText = getDocumentText(project, key);
+  if (revisions.length === 0 && previousText.trim() && previousText !== text) {
+    revisions.push(newRevision(previousText, { author: 'Unknown', source: 'ai', note: 'Version before history was kept' }));
+  }
+
+  const latest = revisions[revisions.length - 1];
+  if (latest?.text !== text) {
+    const foldIntoLatest = latest && !meta.note && !latest.note && meta.source === 'manual' && latest.source === 'manual'
+      && latest.author === meta.author && Date.now() - new Date(latest.createdAt).getTime() < MERGE_WINDOW_MS;
+    if (foldIntoLatest) {
+      revisions[revisions.length - 1] = { ...latest, text, createdAt: new Date().toISOString() };
+    } else {
+      revisions.push(newRevision(text, meta));
+    }
+  }
+
+  return {
+    ...withDocumentText(project, key, text),
+    docRevisions: { ...project.docRevisions, [key]: revisions.slice(-MAX_REVISIONS) },
+  };
+}
+
+/** Record every document that differs between `before` and `after`, e.g. after an AI action touched the PRD */
+export function recordChangedDocs(before: Project | undefined, after: Project, meta: RevisionMeta): Project {
+  return DOCUMENT_TYPES.reduce((project, { key }) => {
+    const text = getDocumentText(after, key);
+    const previous = before ? getDocumentText(before, key) : '';
+    if (text === previous || getRevisions(project, key).at(-1)?.text === text) return project;
+    // Compare against the pre-change text so a missing history still gets its baseline revision
+    return recordRevision(withDocumentText(project, key, previous), key, text, meta);
+  }, after);
+}
+
+// ─── Diff ───────────────────────────────────────────────────────────────────
+
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+/** Line diff from the longest common subsequence; documents are a few hundred lines at most */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+  return result;
+}
+
+export function diffStats(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter(l => l.type === 'added').length,
+    removed: lines.filter(l => l.type === 'removed').length,
+  };
+}
+
+/** Pair removed and added runs into rows so the two versions can be shown side by side */
+export function sideBySide(lines: DiffLine[]): { left?: DiffLine; right?: DiffLine }[] {
+  const rows: { left?: DiffLine; right?: DiffLine }[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) rows.push({ left: removed[k], right: added[k] });
+    removed = [];
+    added = [];
+  };
+  for (const line of lines) {
+    if (line.type === 'removed') removed.push(line);
+    else if (line.type === 'added') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
+
+// ─── Sections ───────────────────────────────────────────────────────────────
+
+export interface DocSection {
+  /** Title without its number, lower-cased, so "3. Testing" matches "4. Testing" */
+  key: string;
+  title: string;
+  text: string;
+}
+
+/**
+ * Split on numbered headings when the document has them (PRD, design doc),
+ * otherwise on section labels (abstract). Text before the first one is the
+ * preamble, with an empty key.
+ */
+export function splitSections(text: string): DocSection[] {
+  const lines = text.split('\n');
+  const kinds = lines.map(line => classifyDocLine(line.trim()));
+  const boundary = kinds.includes('heading') ? 'heading' : 'label';
+
+  const sections: { key: string; title: string; lines: string[] }[] = [{ key: '', title: 'Preamble', lines: [] }];
+  lines.forEach((line, i) => {
+    if (kinds[i] === boundary) {
+      const trimmed = line.trim();
+      const title = boundary === 'label' ? trimmed.slice(0, trimmed.indexOf(':')) : trimmed;
+      sections.push({ key: title.replace(/^\d+\.\s+/, '').toLowerCase(), title, lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  });
+
+  return sections
+    .map(section => ({ key: section.key, title: section.title, text: section.lines.join('\n').replace(/\n+$/, '') }))
+    .filter(section => section.key !== '' || section.text.trim() !== '');
+}
+
+/**
+ * Put `sectionKey` from an older revision into the current text: it replaces
+ * the matching section, or is inserted after the section that preceded it in
+ * the old revision. Headings are renumbered afterwards.
+ */
+export function cherryPickSection(current: string, older: string, sectionKey: string): string {
+  const target = splitSections(current);
+  const source = splitSections(older);
+  const picked = source.find(s => s.key === sectionKey);
+  if (!picked) return current;
+
+  const existing = target.findIndex(s => s.key === sectionKey);
+  if (existing >= 0) {
+    target[existing] = picked;
+  } else {
+    const before = source.slice(0, source.indexOf(picked)).reverse().map(s => target.findIndex(t => t.key === s.key)).find(i => i >= 0);
+    target.splice(before === undefined ? 0 : before + 1, 0, picked);
+  }
+  return renumberHeadings(target.map(s => s.text).join('\n\n'));
+}
@@ -0,0 +1,363 @@
+import { AdditionalDocKey, DocumentKey, GeneratedDocKey, Project } from '../types';
+
+// ─── Document Types ─────────────────────────────────────────────────────────
+// Every document the Documentation view can generate, edit, render and export
+// is listed here once. The abstract, PRD and design doc are created with the
+// project and keep their hand-written prompt templates; the others are
+// generated on demand from the structure below, which becomes the default
+// prompt template (editable like any other) and the offline mock answer.
+// All of them follow the same line conventions (see docFormatService).
+
+export interface DocumentPromptInput {
+  label: string;
+  /** A prompt variable, e.g. "project.requirements" */
+  variable: string;
+}
+
+export interface DocumentSpec {
+  /** Opens the prompt; the mock provider routes on it */
+  heading: string;
+  role: string;
+  inputs: DocumentPromptInput[];
+  rules: string[];
+  /** Skeleton the AI fills in: numbered headings, labels and <placeholder> lines */
+  structure: string;
+}
+
+export interface DocumentType {
+  key: DocumentKey;
+  /** Short name for tabs and citations */
+  label: string;
+  /** Heading in the editor and the exports */
+  title: string;
+  description: string;
+  /** Only for the additional types */
+  spec?: DocumentSpec;
+}
+
+const COMMON_INPUTS: DocumentPromptInput[] = [
+  { label: 'Project Title', variable: 'project.title' },
+  { label: 'Domain', variable: 'profile.department' },
+  { label: 'Problem', variable: 'project.problemStatement' },
+  { label: 'Solution', variable: 'project.solutionIdea' },
+  { label: 'Tech Stack', variable: 'project.techStack' },
+];
+
+const REFERENCE_INPUT: DocumentPromptInput = { label: 'Reference Library', variable: 'project.references' };
+
+/** The References section is built from the cited library entries, so the AI only places markers */
+const CITATION_RULE = 'Cite works from the Reference Library inline with their marker, e.g. [@key]; do not write a references list';
+
+const COMMON_RULES = [
+  'Use the numbered headings EXACTLY as given',
+  'Use bullet points (- ) under each heading instead of long paragraphs',
+  'Separate sections with blank lines',
+  'Return ONLY the formatted document text, no JSON, no code fences',
+];
+
+export const DOCUMENT_TYPES: DocumentType[] = [
+  { key: 'abstract', label: 'Abstract', title: 'Academic Abstract', description: 'Structured abstract with upper-case section labels' },
+  { key: 'prd', label: 'PRD', title: 'Product Requirements Document', description: 'Numbered PRD with functional requirements' },
+  { key: 'designDoc', label: 'Design Doc', title: 'System Design Document', description: 'Architecture, modules and data flow' },
+  {
+    key: 'srs',
+    label: 'SRS',
+    title: 'Software Requirements Specification',
+    description: 'IEEE 830 software requirements specification',
+    spec: {
+      heading: 'SOFTWARE REQUIREMENTS SPECIFICATION',
+      role: 'You are a requirements engineer who writes IEEE 830 compliant specifications.',
+      inputs: [...COMMON_INPUTS, { label: 'Functional Requirements from the PRD', variable: 'project.requirements' }],
+      rules: [...COMMON_RULES, 'Follow the IEEE 830-1998 section layout', 'Number functional requirements FR1, FR2, … and keep those from the PRD'],
+      structure: `1. Introduction
+
+1.1 Purpose
+- <purpose of this SRS and its intended audience>
+
+1.2 Scope
+- <what the software will and will not do>
+
+1.3 Definitions, Acronyms and Abbreviations
+- <term>: <definition>
+
+1.4 References
+- <standard, paper or document referred to>
+
+1.5 Overview
+- <how the rest of this SRS is organised>
+
+2. Overall Description
+
+2.1 Product Perspective
+- <context and relation to other systems>
+
+2.2 Product Functions
+- <major function>
+
+2.3 User Characteristics
+- <user class and expertise>
+
+2.4 Constraints
+- <regulatory, hardware or technology constraint>
+
+2.5 Assumptions and Dependencies
+- <assumption>
+
+3. Specific Requirements
+
+3.1 External Interface Requirements
+- <user, hardware, software or communication interface>
+
+3.2 Functional Requirements
+- FR1: <requirement>
+- FR2: <requirement>
+- FR3: <requirement>
+- FR4: <requirement>
+
+3.3 Performance Requirements
+- <measurable performance requirement>
+
+3.4 Design Constraints
+- <constraint>
+
+3.5 Software System Attributes
+- <reliability, availability, security, maintainability or portability requirement>`,
+    },
+  },
+  {
+    key: 'literatureSurvey',
+    label: 'Literature Survey',
+    title: 'Literature Survey',
+    description: 'Related work grouped by theme, comparison and research gaps',
+    spec: {
+      heading: 'LITERATURE SURVEY',
+      role: 'You are an academic researcher who writes rigorous literature surveys.',
+      inputs: [
+        ...COMMON_INPUTS,
+        { label: 'Techniques', variable: 'project.innovationAngle' },
+        { label: 'Algorithms', variable: 'project.algorithms' },
+        REFERENCE_INPUT,
+      ],
+      rules: [
+        ...COMMON_RULES,
+        CITATION_RULE,
+        'Other works must be real, verifiable publications named as "Author et al. (Year)"; never invent papers',
+        'Replace <Theme> with the name of each research theme',
+      ],
+      structure: `1. Introduction
+- <scope of the survey and how the works were selected>
+
+2. Review of Existing Work
+
+2.1 <Theme>
+- <Author et al. (Year)>: <approach>; <key result>; <limitation>
+
+2.2 <Theme>
+- <Author et al. (Year)>: <approach>; <key result>; <limitation>
+
+2.3 <Theme>
+- <Author et al. (Year)>: <approach>; <key result>; <limitation>
+
+3. Comparative Analysis
+- <work>: <method> | <dataset> | <result> | <limitation>
+
+4. Research Gaps
+- <gap in existing work>
+
+5. How This Project Addresses the Gaps
+- <how the proposed solution responds to a gap>
+
+6. Conclusion
+- <summary of the survey>`,
+    },
+  },
+  {
+    key: 'testPlan',
+    label: 'Test Plan',
+    title: 'Test Plan',
+    description: 'Strategy, environment and test cases traced to requirements',
+    spec: {
+      heading: 'TEST PLAN',
+      role: 'You are a QA lead who writes test plans for software projects.',
+      inputs: [...COMMON_INPUTS, { label: 'Functional Requirements', variable: 'project.requirements' }],
+      rules: [...COMMON_RULES, 'Write at least 8 test cases numbered TC1, TC2, …', 'Every test case names the FR it verifies'],
+      structure: `1. Introduction
+
+1.1 Objectives
+- <what testing must demonstrate>
+
+1.2 Scope
+- <features in and out of scope>
+
+2. Test Strategy
+
+2.1 Test Levels
+- Unit: <approach>
+- Integration: <approach>
+- System: <approach>
+- Acceptance: <approach>
+
+2.2 Tools and Environment
+- <tool, framework or environment>
+
+3. Test Cases
+- TC1: <title> | Requirement: <FR> | Steps: <steps> | Expected: <expected result>
+- TC2: <title> | Requirement: <FR> | Steps: <steps> | Expected: <expected result>
+
+4. Entry and Exit Criteria
+- <criterion>
+
+5. Defect Management
+- <how defects are logged, prioritised and retested>
+
+6. Schedule and Responsibilities
+- <activity>: <owner and timing>
+
+7. Risks and Mitigation
+- <risk>: <mitigation>`,
+    },
+  },
+  {
+    key: 'userManual',
+    label: 'User Manual',
+    title: 'User Manual',
+    description: 'Installation, getting started and feature walkthroughs',
+    spec: {
+      heading: 'USER MANUAL',
+      role: 'You are a technical writer who writes clear manuals for end users.',
+      inputs: COMMON_INPUTS,
+      rules: [...COMMON_RULES, 'Write instructions as numbered steps using arrow notation (Step 1 → …)', 'Replace <Feature> with the name of each main feature'],
+      structure: `1. Introduction
+- <what the system does and who it is for>
+
+2. System Requirements
+
+2.1 Hardware
+- <requirement>
+
+2.2 Software
+- <requirement>
+
+3. Installation and Setup
+- Step 1 → <instruction>
+- Step 2 → <instruction>
+
+4. Getting Started
+- Step 1 → <instruction>
+- Step 2 → <instruction>
+
+5. Features and Usage
+
+5.1 <Feature>
+- Step 1 → <instruction>
+
+5.2 <Feature>
+- Step 1 → <instruction>
+
+6. Troubleshooting
+- <problem>: <solution>
+
+7. Frequently Asked Questions
+- <question> <answer>`,
+    },
+  },
+  {
+    key: 'finalReport',
+    label: 'Final Report',
+    title: 'Final Project Report',
+    description: 'Chapter-wise report from introduction to conclusion',
+    spec: {
+      heading: 'FINAL PROJECT REPORT',
+      role: 'You are an academic writer preparing a final-year project report.',
+      inputs: [
+        ...COMMON_INPUTS,
+        { label: 'Abstract', variable: 'project.abstract' },
+        { label: 'Functional Requirements', variable: 'project.requirements' },
+        { label: 'Algorithms', variable: 'project.algorithms' },
+        { label: 'Datasets', variable: 'project.datasets' },
+        { label: 'Roadmap', variable: 'project.roadmap' },
+        REFERENCE_INPUT,
+      ],
+      rules: [...COMMON_RULES, CITATION_RULE, 'Each numbered heading is a chapter; keep the chapter order', 'Write results as expected outcomes if the project is not finished'],
+      structure: `1. Introduction
+
+1.1 Background
+- <domain context>
+
+1.2 Problem Statement
+- <problem>
+
+1.3 Objectives
+- <objective>
+
+1.4 Scope
+- <scope>
+
+2. Literature Survey
+- <related work and the gap it leaves>
+
+3. System Requirements
+
+3.1 Functional Requirements
+- FR1: <requirement>
+- FR2: <requirement>
+
+3.2 Non-Functional Requirements
+- <requirement>
+
+4. System Design
+
+4.1 Architecture
+- <layer or component>
+
+4.2 Module Design
+- <module>: <responsibility>
+
+5. Implementation
+
+5.1 Tools and Technologies
+- <technology>: <use>
+
+5.2 Algorithms
+- <algorithm>: <how it is applied>
+
+6. Testing and Results
+
+6.1 Testing
+- <test level or key test case>
+
+6.2 Results and Discussion
+- <result>
+
+7. Conclusion and Future Work
+
+7.1 Conclusion
+- <conclusion>
+
+7.2 Future Enhancements
+- <enhancement>`,
+    },
+  },
+];
+
+export const ADDITIONAL_DOCUMENT_TYPES = DOCUMENT_TYPES.filter(
+  (type): type is DocumentType & { key: AdditionalDocKey; spec: DocumentSpec } => !!type.spec
+);
+
+export function getDocumentType(key: DocumentKey): DocumentType {
+  return DOCUMENT_TYPES.find(type => type.key === key)!;
+}
+
+export function isGeneratedDocKey(key: DocumentKey): key is GeneratedDocKey {
+  return key === 'abstract' || key === 'prd' || key === 'designDoc';
+}
+
+export function getDocumentText(project: Partial<Project>, key: DocumentKey): string {
+  return (isGeneratedDocKey(key) ? project[key] : project.documents?.[key]) || '';
+}
+
+export function withDocumentText(project: Project, key: DocumentKey, text: string): Project {
+  return isGeneratedDocKey(key)
+    ? { ...project, [key]: text }
+    : { ...project, documents: { ...project.documents, [key]: text } };
+}
@@ -1,6 +1,26 @@
 import jsPDF from 'jspdf';
 import * as XLSX from 'xlsx';
-import { Project, Task } from '../types';
+import { ArchitectureModel, ChatThread, DocumentKey, IdeaEvaluation, Project, Task, UserProfile } from '../types';
+import { CriterionWeights, IDEA_CRITERIA, rankEvaluations, weightedScore } from './ideaComparisonService';
+import {
+  ARCHITECTURE_LAYERS,
+  architectureToMermaid,
+  architectureToSvg,
+  edgeEndpoints,
+  layoutArchitecture,
+  truncateLabel,
+} from './architectureService';
+import { classifyDocLine, parseDocBlocks, stripInlineMarkdown } from './docFormatService';
+import { DOCUMENT_TYPES, getDocumentText } from './documentTypes';
+import { renderCitations } from './citationService';
+import {
+  documentationToDocx,
+  documentationToLatex,
+  documentationToMarkdown,
+  DOCX_DIAGRAM_PATH,
+  ExportSection,
+} from './docExportService';
+import { bomTotals, effectiveBudget, lineTotal } from './bomService';
 
 function downloadBlob(blob: Blob, filename: string): void {
   const url = URL.createObjectURL(blob);
@@ -17,9 +37,111 @@ function formatTextBlock(text: string | undefined): string {
   return (text || '').toString().trim();
 }
 
+/** Zip files with the archive writer bundled in xlsx; used for .docx packages and the LaTeX project */
+function zipFiles(files: Record<string, string | Uint8Array>, type = 'application/zip'): Blob {
+  const zip = XLSX.CFB.utils.cfb_new();
+  for (const [path, content] of Object.entries(files)) {
+    XLSX.CFB.utils.cfb_add(zip, path, typeof content === 'string' ? new TextEncoder().encode(content) : content);
+  }
+  return new Blob([new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array', compression: true }))], { type });
+}
+
+type DocumentationSection = DocumentKey | 'all';
+
+/** One document, or with 'all' every document that has content, in registry order */
+function documentationSections(project: Project, section: DocumentationSection, resolveCitations = true): ExportSection[] {
+  return DOCUMENT_TYPES
+    .map(type => {
+      const text = formatTextBlock(getDocumentText(project, type.key));
+      return {
+        key: type.key,
+        title: type.title,
+        text: resolveCitations ? renderCitations(text, project.references || [], project.citationStyle) : text,
+      };
+    })
+    .filter(s => (section === 'all' ? s.text !== '' : s.key === section));
+}
+
+function documentationFilename(project: Project, section: DocumentationSection, extension: string): string {
+  return `${project.title.replace(/\s+/g, '_')}_${section === 'all' ? 'documentation' : section}.${extension}`;
+}
+
+/** The architecture PNG and its size, when one of the sections shows the diagram */
+async function diagramForSections(project: Project, sections: ExportSection[]): Promise<{ png: Uint8Array; width: number; height: number } | null> {
+  if (!project.architecture?.components.length) return null;
+  if (!sections.some(s => parseDocBlocks(s.text).some(block => block.kind === 'diagram'))) return null;
+  const { width, height } = layoutArchitecture(project.architecture);
+  const blob = await architectureToPng(project.architecture);
+  return { png: new Uint8Array(await blob.arrayBuffer()), width, height };
+}
+
+/** Redraw the architecture layout with vector primitives, scaled to `maxWidth`; returns the height used */
+function drawArchitectureDiagram(doc: jsPDF, model: ArchitectureModel, x: number, y: number, maxWidth: number): number {
+  const layout = layoutArchitecture(model);
+  const scale = Math.min(1, maxWidth / layout.width);
+  const px = (value: number) => x + value * scale;
+  const py = (value: number) => y + value * scale;
+
+  for (const lane of layout.lanes) {
+    doc.setFillColor(lane.layer.fill);
+    doc.roundedRect(px(16), py(lane.y + 4), (layout.width - 32) * scale, (lane.height - 8) * scale, 6, 6, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.setTextColor(lane.layer.stroke);
+    doc.text(lane.layer.label.toUpperCase(), px(28), py(lane.y + lane.height / 2 + 3));
+  }
+
+  doc.setDrawColor('#64748b');
+  doc.setLineWidth(0.8);
+  for (const edge of model.edges) {
+    const from = layout.nodes[edge.from];
+    const to = layout.nodes[edge.to];
+    if (!from || !to) continue;
+    const { x1, y1, x2, y2 } = edgeEndpoints(from, to);
+    doc.line(px(x1), py(y1), px(x2), py(y2));
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const size = 5;
+    doc.setFillColor('#64748b');
+    doc.triangle(
+      px(x2), py(y2),
+      px(x2) - size * Math.cos(angle - 0.4), py(y2) - size * Math.sin(angle - 0.4),
+      px(x2) - size * Math.cos(angle + 0.4), py(y2) - size * Math.sin(angle + 0.4),
+      'F'
+    );
+    if (edge.label) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(6);
+      doc.setTextColor('#475569');
+      doc.text(truncateLabel(edge.label, 18), px((x1 + x2) / 2 + 4), py((y1 + y2) / 2));
+    }
+  }
+
+  for (const component of model.components) {
+    const box = layout.nodes[component.id];
+    const layer = ARCHITECTURE_LAYERS.find(l => l.id === component.layer)!;
+    doc.setFillColor('#ffffff');
+    doc.setDrawColor(layer.stroke);
+    doc.roundedRect(px(box.x), py(box.y), box.width * scale, box.height * scale, 5, 5, 'FD');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor('#1e293b');
+    doc.text(truncateLabel(component.name), px(box.x + box.width / 2), py(box.y + (component.technology ? 24 : 32)), { align: 'center' });
+    if (component.technology) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7);
+      doc.setTextColor('#64748b');
+      doc.text(truncateLabel(component.technology, 26), px(box.x + box.width / 2), py(box.y + 40), { align: 'center' });
+    }
+  }
+
+  doc.setTextColor('#000000');
+  doc.setDrawColor('#000000');
+  return layout.height * scale;
+}
+
 export function exportProjectDocumentationPDF(
   project: Project,
-  section: 'abstract' | 'prd' | 'dd' | 'all' = 'all'
+  section: DocumentationSection = 'all'
 ): void {
   const doc = new jsPDF({ unit: 'pt', format: 'a4' });
   const marginX = 48;
@@ -44,15 +166,29 @@ export function exportProjectDocumentationPDF(
 
     const bodyLines = body.split('\n');
     for (const rawLine of bodyLines) {
-      const trimmed = rawLine.trim();
+      const trimmed = stripInlineMarkdown(rawLine.trim());
+      const kind = classifyDocLine(trimmed);
 
-      if (trimmed === '') {
+      if (kind === 'blank') {
         cursorY += 6;
         continue;
       }
 
+      if (kind === 'diagram') {
+        if (project.architecture?.components.length) {
+          const layout = layoutArchitecture(project.architecture);
+          const height = layout.height * Math.min(1, maxWidth / layout.width);
+          if (cursorY + height >= pageHeight - marginY) {
+            doc.addPage();
+            cursorY = marginY;
+          }
+          cursorY += drawArchitectureDiagram(doc, project.architecture, marginX, cursorY, maxWidth) + 10;
+        }
+        continue;
+      }
+
       // Section labels (BACKGROUND:, PROBLEM STATEMENT:, etc.) or numbered headings
-      if (/^[A-Z][A-Z &/]+:/.test(trimmed) || /^\d+\.(\d+)?\s+/.test(trimmed)) {
+      if (kind === 'label' || kind === 'heading' || kind === 'subheading') {
         cursorY = addPageIfNeeded(cursorY + 4);
         doc.setFont('helvetica', 'bold');
         doc.setFontSize(12);
@@ -96,22 +232,46 @@ export function exportProjectDocumentationPDF(
   doc.text(project.title, marginX, y);
   y += 28;
 
-  const sections = [
-    { key: 'abstract', title: 'Academic Abstract', body: formatTextBlock(project.abstract) },
-    { key: 'prd', title: 'Product Requirements Document', body: formatTextBlock(project.prd) },
-    { key: 'dd', title: 'System Design Document', body: formatTextBlock(project.designDoc) },
-  ] as const;
-
-  sections
-    .filter(s => section === 'all' || s.key === section)
-    .forEach((s, idx) => {
-      if (idx > 0) {
-        y = addPageIfNeeded(y + 6);
-      }
-      y = addSection(s.title, s.body, y);
-    });
+  documentationSections(project, section).forEach((s, idx) => {
+    if (idx > 0) {
+      y = addPageIfNeeded(y + 6);
+    }
+    y = addSection(s.title, s.text, y);
+  });
+
+  doc.save(documentationFilename(project, section, 'pdf'));
+}
+
+/** Word file with heading styles, bullet lists, a table of contents and the architecture diagram */
+export async function exportProjectDocumentationDocx(project: Project, section: DocumentationSection = 'all'): Promise<void> {
+  const sections = documentationSections(project, section);
+  const diagram = await diagramForSections(project, sections);
+  const files: Record<string, string | Uint8Array> = documentationToDocx({ projectTitle: project.title, sections }, diagram ?? undefined);
+  if (diagram) files[DOCX_DIAGRAM_PATH] = diagram.png;
+  downloadBlob(
+    zipFiles(files, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'),
+    documentationFilename(project, section, 'docx')
+  );
+}
+
+/** A zip with main.tex (and the diagram image) that Overleaf opens with "Upload Project" */
+export async function exportProjectDocumentationLatex(project: Project, section: DocumentationSection = 'all'): Promise<void> {
+  const sections = documentationSections(project, section, false);
+  const diagram = await diagramForSections(project, sections);
+  const tex = documentationToLatex(
+    { projectTitle: project.title, sections },
+    project.references,
+    project.citationStyle,
+    diagram ? 'architecture.png' : undefined
+  );
+  const files: Record<string, string | Uint8Array> = { 'main.tex': tex };
+  if (diagram) files['architecture.png'] = diagram.png;
+  downloadBlob(zipFiles(files), documentationFilename(project, section, 'latex.zip'));
+}
 
-  doc.save(`${project.title.replace(/\s+/g, '_')}_documentation.pdf`);
+export function exportProjectDocumentationMarkdown(project: Project, section: DocumentationSection = 'all'): void {
+  const markdown = documentationToMarkdown({ projectTitle: project.title, sections: documentationSections(project, section), architecture: project.architecture });
+  downloadBlob(new Blob([markdown], { type: 'text/markdown' }), documentationFilename(project, section, 'md'));
 }
 
 function taskToRow(task: Task): Record<string, string | number> {
@@ -128,13 +288,7 @@ function taskToRow(task: Task): Record<string, string | number> {
   };
 }
 
-export function exportTasksToCsv(project: Project): void {
-  const rows = (project.tasks || []).map(taskToRow);
-  if (rows.length === 0) {
-    downloadBlob(new Blob(['No tasks available.'], { type: 'text/plain' }), 'tasks-empty.txt');
-    return;
-  }
-
+function rowsToCsv(rows: Record<string, string | number>[]): string {
   const headers = Object.keys(rows[0]);
   const escapeCell = (value: string | number) => {
     const str = value?.toString() ?? '';
@@ -144,11 +298,19 @@ export function exportTasksToCsv(project: Project): void {
     return str;
   };
 
-  const csv = [headers.join(',')]
+  return [headers.join(',')]
     .concat(rows.map(row => headers.map(h => escapeCell(row[h] ?? '')).join(',')))
     .join('\n');
+}
+
+export function exportTasksToCsv(project: Project): void {
+  const rows = (project.tasks || []).map(taskToRow);
+  if (rows.length === 0) {
+    downloadBlob(new Blob(['No tasks available.'], { type: 'text/plain' }), 'tasks-empty.txt');
+    return;
+  }
 
-  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `${project.title.replace(/\s+/g, '_')}_tasks.csv`);
+  downloadBlob(new Blob([rowsToCsv(rows)], { type: 'text/csv;charset=utf-8;' }), `${project.title.replace(/\s+/g, '_')}_tasks.csv`);
 }
 
 export function exportTasksToXlsx(project: Project): void {
@@ -159,6 +321,43 @@ export function exportTasksToXlsx(project: Project): void {
   XLSX.writeFile(workbook, `${project.title.replace(/\s+/g, '_')}_tasks.xlsx`);
 }
 
+/** One row per part plus a total row, and a budget row when a budget is known */
+function bomRows(project: Project): Record<string, string | number>[] {
+  const bom = project.bom;
+  if (!bom || bom.items.length === 0) return [];
+  const currency = bom.currency;
+  const rows: Record<string, string | number>[] = bom.items.map(item => ({
+    Component: item.name,
+    Purpose: item.purpose,
+    Quantity: item.quantity,
+    [`UnitCost (${currency})`]: item.unitCost,
+    [`LineTotal (${currency})`]: lineTotal(item),
+    Vendor: item.vendor,
+    Status: item.status,
+  }));
+  const blank = { Purpose: '', Quantity: '', [`UnitCost (${currency})`]: '', Vendor: '', Status: '' };
+  rows.push({ ...blank, Component: 'Total', [`LineTotal (${currency})`]: bomTotals(bom).total });
+  const budget = effectiveBudget(bom, project.profile);
+  if (budget !== undefined) rows.push({ ...blank, Component: 'Budget', [`LineTotal (${currency})`]: budget });
+  return rows;
+}
+
+export function exportBomToCsv(project: Project): void {
+  const rows = bomRows(project);
+  if (rows.length === 0) {
+    downloadBlob(new Blob(['No components in the bill of materials.'], { type: 'text/plain' }), 'bom-empty.txt');
+    return;
+  }
+  downloadBlob(new Blob([rowsToCsv(rows)], { type: 'text/csv;charset=utf-8;' }), `${project.title.replace(/\s+/g, '_')}_bom.csv`);
+}
+
+export function exportBomToXlsx(project: Project): void {
+  const worksheet = XLSX.utils.json_to_sheet(bomRows(project));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'BOM');
+  XLSX.writeFile(workbook, `${project.title.replace(/\s+/g, '_')}_bom.xlsx`);
+}
+
 export function buildProjectSummary(project: Project): string {
   const taskCount = project.tasks?.length || 0;
   const doneCount = project.tasks?.filter(t => t.status === 'done').length || 0;
@@ -199,3 +398,168 @@ export function downloadProjectSummaryReport(project: Project): void {
   const filename = `${project.title.replace(/\s+/g, '_')}_summary.txt`;
   downloadBlob(new Blob([summary], { type: 'text/plain' }), filename);
 }
+
+export function exportChatThreadMarkdown(thread: ChatThread, projectTitle?: string): void {
+  const lines = [
+    `# ${thread.title}`,
+    '',
+    `_${projectTitle ? `Project: ${projectTitle} · ` : ''}Started ${new Date(thread.createdAt).toLocaleString()}_`,
+    '',
+  ];
+  if (thread.summary) {
+    lines.push('## Summary of earlier conversation', '', thread.summary, '');
+  }
+  for (const message of thread.messages) {
+    const speaker = message.role === 'user' ? 'You' : 'Plan Panni Pannuvom AI';
+    lines.push(`### ${speaker} — ${new Date(message.timestamp).toLocaleString()}`, '', message.content, '');
+  }
+  const filename = `${thread.title.replace(/[^\w-]+/g, '_')}_chat.md`;
+  downloadBlob(new Blob([lines.join('\n')], { type: 'text/markdown' }), filename);
+}
+
+export function exportPromptTemplatesJson(data: object): void {
+  const filename = `prompt_templates_${new Date().toISOString().split('T')[0]}.json`;
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+}
+
+/** Side-by-side idea matrix with rationales and a sign-off line, for the guide's approval */
+export function exportIdeaComparisonPDF(evaluations: IdeaEvaluation[], weights: CriterionWeights, profile: UserProfile): void {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4', orientation: 'landscape' });
+  const marginX = 40;
+  const marginY = 48;
+  const lineHeight = 13;
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const labelWidth = 130;
+  const columnWidth = (pageWidth - marginX * 2 - labelWidth) / evaluations.length;
+  const ranking = rankEvaluations(evaluations, weights);
+
+  const addPageIfNeeded = (cursorY: number, needed = 0) => {
+    if (cursorY + needed >= pageHeight - marginY) {
+      doc.addPage();
+      return marginY;
+    }
+    return cursorY;
+  };
+
+  let y = marginY;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('Project Idea Comparison', marginX, y);
+  y += 20;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(
+    `${profile.projectType} · ${profile.academicLevel} · Team of ${profile.teamSize} · ${profile.timeline} · Generated ${new Date().toLocaleDateString()}`,
+    marginX,
+    y
+  );
+  y += 24;
+
+  // Header row: idea titles
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  const headerLines = evaluations.map(e => doc.splitTextToSize(e.title, columnWidth - 8));
+  const headerHeight = Math.max(...headerLines.map(lines => lines.length)) * lineHeight + 6;
+  doc.text('Criterion (weight)', marginX, y);
+  headerLines.forEach((lines, i) => doc.text(lines, marginX + labelWidth + i * columnWidth, y));
+  y += headerHeight;
+  doc.line(marginX, y - lineHeight + 4, pageWidth - marginX, y - lineHeight + 4);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  for (const criterion of IDEA_CRITERIA) {
+    doc.text(`${criterion.label} (×${weights[criterion.id]})`, marginX, y);
+    evaluations.forEach((e, i) => doc.text(`${e.scores[criterion.id].score}/10`, marginX + labelWidth + i * columnWidth, y));
+    y += lineHeight + 4;
+  }
+
+  doc.line(marginX, y - lineHeight + 2, pageWidth - marginX, y - lineHeight + 2);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Weighted score', marginX, y);
+  evaluations.forEach((e, i) => {
+    const rank = ranking.indexOf(i) + 1;
+    doc.text(`${weightedScore(e, weights)}/100  (#${rank})`, marginX + labelWidth + i * columnWidth, y);
+  });
+  y += 30;
+
+  // Rationales, best-ranked idea first
+  const maxWidth = pageWidth - marginX * 2;
+  for (const index of ranking) {
+    const evaluation = evaluations[index];
+    y = addPageIfNeeded(y, lineHeight * 4);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(`#${ranking.indexOf(index) + 1} ${evaluation.title} — ${weightedScore(evaluation, weights)}/100`, marginX, y);
+    y += lineHeight + 4;
+    doc.setFontSize(10);
+    for (const criterion of IDEA_CRITERIA) {
+      const { score, rationale } = evaluation.scores[criterion.id];
+      const wrapped = doc.splitTextToSize(`${criterion.label} (${score}/10): ${rationale}`, maxWidth - 14);
+      doc.setFont('helvetica', 'normal');
+      for (const [lineIndex, line] of wrapped.entries()) {
+        y = addPageIfNeeded(y);
+        if (lineIndex === 0) doc.text('•', marginX + 4, y);
+        doc.text(line, marginX + 14, y);
+        y += lineHeight;
+      }
+    }
+    y += 10;
+  }
+
+  y = addPageIfNeeded(y + 20, 40);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text('Selected idea: ________________________________________', marginX, y);
+  y += 28;
+  doc.text('Guide approval: ______________________________   Date: ______________', marginX, y);
+
+  doc.save(`idea_comparison_${new Date().toISOString().split('T')[0]}.pdf`);
+}
+
+function architectureFilename(project: Project, extension: string): string {
+  return `${project.title.replace(/\s+/g, '_')}_architecture.${extension}`;
+}
+
+export function exportArchitectureSvg(project: Project, model: ArchitectureModel): void {
+  downloadBlob(new Blob([architectureToSvg(model)], { type: 'image/svg+xml' }), architectureFilename(project, 'svg'));
+}
+
+export function exportArchitectureMermaid(project: Project, model: ArchitectureModel): void {
+  downloadBlob(new Blob([architectureToMermaid(model)], { type: 'text/plain' }), architectureFilename(project, 'mmd'));
+}
+
+/** Rasterise the SVG at twice its size so the PNG stays sharp in slides and reports */
+function architectureToPng(model: ArchitectureModel): Promise<Blob> {
+  const svg = architectureToSvg(model);
+  const { width, height } = layoutArchitecture(model);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available in this browser.'));
+        return;
+      }
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the PNG.'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the diagram.'));
+    };
+    image.src = url;
+  });
+}
+
+export async function exportArchitecturePng(project: Project, model: ArchitectureModel): Promise<void> {
+  downloadBlob(await architectureToPng(model), architectureFilename(project, 'png'));
+}
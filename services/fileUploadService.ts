@@ -1,4 +1,5 @@
 import { FileAttachment } from '../types';
+import { extractText } from './textExtractionService';
 
 // ─── File Upload Service ────────────────────────────────────────────────────
 // Uses Cloudinary unsigned upload or falls back to local blob URLs for demo.
@@ -84,6 +85,7 @@ export async function uploadFile(
     uploadedBy,
     uploadedAt: new Date().toISOString(),
     thumbnailUrl,
+    extractedText: await extractText(file),
   };
 }
 
@@ -1,41 +1,33 @@
 
-import { UserProfile, Project, VivaQuestion, Milestone, Source, Task, TaskBreakdown, TaskPriority, TaskComplexity } from '../types';
-
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || '';
-const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1/chat/completions';
-const MODEL = 'google/gemini-2.0-flash-001';
-
-async function chatCompletion(systemPrompt: string, userPrompt: string, json = true): Promise<string> {
-  const body: any = {
-    model: MODEL,
+import { UserProfile, Project, VivaQuestion, TaskBreakdown, AIPurpose, GeneratedDocKey, DocumentKey, IdeaEvaluation, IdeaOperation, GuidanceSection, ArchitectureModel, BomItem } from '../types';
+import { completeWithActiveProvider, streamWithActiveProvider, LLMMessage } from './llmProvider';
+import { Schema, validate } from './aiSchema';
+import { buildToolInstructions } from './chatTools';
+import { buildPromptContext, renderPrompt } from './promptTemplates';
+import { normalizeArchitecture } from './architectureService';
+import { createBomItem, sanitizeBomItem } from './bomService';
+import { RetrievedPassage } from './retrievalService';
+import { ARCHITECTURE_SCHEMA, BOM_SCHEMA, GUIDANCE_SCHEMA, GUIDANCE_SECTION_SCHEMAS, GuidanceResult, GuidanceSectionItems, IDEA_COMPARISON_SCHEMA, IdeaDraft, IDEAS_SCHEMA, REFINED_IDEAS_SCHEMA, TASK_BREAKDOWN_SCHEMA, VIVA_SCHEMA } from './responseSchemas';
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+async function chatCompletion(
+  purpose: AIPurpose,
+  systemPrompt: string,
+  userPrompt: string,
+  json = true,
+  projectId: string | null = null
+): Promise<string> {
+  return completeWithActiveProvider({
+    purpose,
     messages: [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: userPrompt },
     ],
     temperature: 0.7,
-  };
-  if (json) {
-    body.response_format = { type: 'json_object' };
-  }
-
-  const response = await fetch(OPENROUTER_BASE_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-      'HTTP-Referer': window.location.origin,
-      'X-Title': 'Plan Panni Pannuvom',
-    },
-    body: JSON.stringify(body),
+    json,
+    projectId,
   });
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(`OpenRouter API error (${response.status}): ${errorBody}`);
-  }
-
-  const data = await response.json();
-  return data.choices[0].message.content;
 }
 
 function extractJSON(text: string): any {
@@ -68,11 +60,137 @@ function extractJSON(text: string): any {
   }
 }
 
+interface StructuredOptions {
+  /** Reshape the parsed JSON before validation, e.g. wrap a bare array */
+  normalise?: (parsed: any) => unknown;
+  /** Bypass the response cache for the first attempt */
+  refresh?: boolean;
+  projectId?: string | null;
+  /** Aborting cancels the pending request and any repair turns */
+  signal?: AbortSignal;
+}
+
+/**
+ * Request JSON, validate it against a schema and, on failure, feed the errors
+ * back to the model as a follow-up turn. Gives up after MAX_REPAIR_ATTEMPTS repairs.
+ */
+async function generateStructured<T>(
+  purpose: AIPurpose,
+  systemPrompt: string,
+  userPrompt: string,
+  schema: Schema<T>,
+  { normalise = parsed => parsed, refresh = false, projectId = null, signal }: StructuredOptions = {}
+): Promise<T> {
+  const messages: LLMMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // Repair turns have different messages, so only the first attempt can hit a stale cache entry
+    const responseText = await completeWithActiveProvider({
+      purpose,
+      messages,
+      temperature: 0.7,
+      json: true,
+      refresh: refresh && attempt === 0,
+      projectId,
+      signal,
+    });
+    try {
+      const result = validate(schema, normalise(extractJSON(responseText)));
+      if (result.errors.length === 0) return result.value;
+      errors = result.errors;
+    } catch (err: any) {
+      errors = [err.message];
+    }
+
+    console.warn(`AI ${purpose} response failed validation (attempt ${attempt + 1}):`, errors);
+    messages.push(
+      { role: 'assistant', content: responseText },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required JSON structure. Fix these problems and return the complete corrected JSON only:\n${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}`,
+      }
+    );
+  }
+
+  throw new Error(`AI response for ${purpose} was invalid after ${MAX_REPAIR_ATTEMPTS + 1} attempts: ${errors.slice(0, 3).join('; ')}`);
+}
+
+// ─── Documentation Prompts ──────────────────────────────────────────────────
+
+export const DOC_KEYS: GeneratedDocKey[] = ['abstract', 'prd', 'designDoc'];
+
+/** Regeneration from the editor has no wizard profile, only what can be derived from the project */
+export type DocumentationProfile = Pick<UserProfile, 'department' | 'techPreferences'>;
+
+/** Every document type has a `docs.<key>` template (see documentTypes) */
+function buildDocumentPrompt(key: DocumentKey, project: Partial<Project>, profile: DocumentationProfile): { system: string; user: string } {
+  return renderPrompt(`docs.${key}`, buildPromptContext(project, profile));
+}
+
+/** Strip any accidental code fences the model might still add */
+export function cleanDocumentText(text: string): string {
+  return text.replace(/^```[\w]*\n?/gm, '').replace(/```$/gm, '').trim();
+}
+
+// ─── Chat ───────────────────────────────────────────────────────────────────
+
+type ChatTurn = { role: 'user' | 'assistant'; content: string };
+
+export interface ChatOptions {
+  /** Rolling summary of earlier turns that are no longer sent verbatim */
+  summary?: string;
+  /** Describe the project actions (see chatTools) the assistant may propose */
+  tools?: boolean;
+  /** Retrieved project passages, numbered in order for [n] citations */
+  passages?: RetrievedPassage[];
+  signal?: AbortSignal;
+}
+
+function buildChatMessages(messages: ChatTurn[], projectContext: Partial<Project> | null | undefined, options: ChatOptions): LLMMessage[] {
+  let systemPrompt = buildChatSystemPrompt(projectContext);
+  if (options.summary) {
+    systemPrompt += `\n\nSUMMARY OF EARLIER CONVERSATION:\n${options.summary}`;
+  }
+  if (options.passages?.length) {
+    const excerpts = options.passages.map((p, i) => `[${i + 1}] (${p.label})\n${p.text}`).join('\n\n');
+    systemPrompt += `\n\nPROJECT DOCUMENT EXCERPTS:\n${excerpts}\n\nWhen your answer uses an excerpt, cite it inline as [n]. Do not cite excerpts you did not use.`;
+  }
+  if (options.tools && projectContext) {
+    systemPrompt += `\n${buildToolInstructions(projectContext)}`;
+  }
+  return [
+    { role: 'system', content: systemPrompt },
+    ...messages.map(m => ({ role: m.role, content: m.content })),
+  ];
+}
+
+function buildChatSystemPrompt(projectContext?: Partial<Project> | null): string {
+  return `You are Plan Panni Pannuvom AI — an expert academic project assistant. You help students with project planning, research guidance, technical decisions, debugging, documentation, and viva preparation.
+
+${projectContext ? `
+CURRENT PROJECT CONTEXT:
+Title: ${projectContext.title || 'Not set'}
+Problem: ${projectContext.problemStatement || 'Not set'}
+Tech Stack: ${projectContext.techStack?.map(t => t.name).join(', ') || 'Not set'}
+Status: ${projectContext.status || 'Not set'}
+` : 'No project is currently selected.'}
+
+RULES:
+- Be concise but thorough. Use bullet points and structured formatting.
+- When asked about code, provide working examples.
+- Reference the current project context when relevant.
+- For research questions, cite real papers / datasets / tools.
+- Be encouraging and mentor-like in tone.`;
+}
+
 export const geminiService = {
   async generateProjectIdeas(profile: UserProfile): Promise<{ 
     academicIdeas: Partial<Project>[], 
-    trendingIdeas: Partial<Project>[], 
-    sources: Source[] 
+    trendingIdeas: Partial<Project>[] 
   }> {
     const systemPrompt = `You are an expert academic mentor with deep knowledge of current research trends, IEEE publications, Smart India Hackathon (SIH) problem statements, and real-time technology trends. You always respond with valid JSON only.`;
 
@@ -88,6 +206,7 @@ export const geminiService = {
       - Respect faculty advisor guidelines if provided.
       - Consider the student's known subject areas when suggesting algorithms and techniques.
       - For Mini Projects, keep scope small (1-2 modules). For Major/Capstone, suggest full-stack solutions.
+      - For each idea, list 1-3 sources it is actually drawn from: the specific paper, dataset, SIH problem statement or news article, with its direct URL. Never list portal homepages such as IEEE Xplore or Google Scholar; leave "sources" empty rather than guess a URL.
       
       User Profile:
       Level: ${profile.academicLevel}
@@ -113,259 +232,267 @@ export const geminiService = {
       Return a JSON object with exactly this structure:
       {
         "academic": [
-          { "title": "...", "problemStatement": "...", "innovationAngle": "...", "solutionIdea": "..." }
+          { "title": "...", "problemStatement": "...", "innovationAngle": "...", "solutionIdea": "...", "sources": [{ "title": "...", "uri": "https://..." }] }
         ],
         "trending": [
-          { "title": "...", "problemStatement": "...", "innovationAngle": "...", "solutionIdea": "..." }
+          { "title": "...", "problemStatement": "...", "innovationAngle": "...", "solutionIdea": "...", "sources": [{ "title": "...", "uri": "https://..." }] }
         ]
       }
       Each array must have exactly 3 items.
     `;
 
-    const responseText = await chatCompletion(systemPrompt, userPrompt);
-    const parsed = extractJSON(responseText);
-
-    const sources: Source[] = [
-      { title: 'IEEE Xplore Digital Library', uri: 'https://ieeexplore.ieee.org/' },
-      { title: 'Google Scholar', uri: 'https://scholar.google.com/' },
-      { title: 'Smart India Hackathon', uri: 'https://sih.gov.in/' },
-    ];
+    const parsed = await generateStructured('ideas', systemPrompt, userPrompt, IDEAS_SCHEMA);
 
     return { 
       academicIdeas: parsed.academic, 
-      trendingIdeas: parsed.trending, 
-      sources 
+      trendingIdeas: parsed.trending 
     };
   },
 
-  async generateProjectDocumentation(project: Partial<Project>, profile: UserProfile): Promise<{ abstract: string; prd: string; designDoc: string }> {
-    // Split into 3 separate plain-text calls for reliability
-    const abstractPrompt = `You are an academic research assistant.
-Generate an ACADEMIC ABSTRACT in a STRICTLY STRUCTURED FORMAT.
-
-PROJECT DETAILS:
-- Title: ${project.title}
-- Domain: ${profile.department}
-- Problem Statement: ${project.problemStatement}
-- Techniques: ${project.innovationAngle}
-- Expected Outcome: ${project.solutionIdea}
-
-FORMAT RULES (MANDATORY):
-- Use EXACTLY the following section labels in UPPERCASE followed by a colon
-- Each section must be 2-3 sentences
-- DO NOT merge sections into one paragraph
-- DO NOT add extra headings
-- Separate each section with a blank line
-
-OUTPUT FORMAT (follow this EXACTLY, return ONLY the formatted text below, no JSON, no code fences):
-
-BACKGROUND:
-<2-3 sentences about domain context>
-
-PROBLEM STATEMENT:
-<2-3 sentences defining the core problem>
-
-PROPOSED SOLUTION:
-<2-3 sentences describing the proposed approach>
-
-METHODOLOGY:
-<2-3 sentences on techniques, algorithms, and tools used>
-
-EXPECTED RESULTS:
-<2-3 sentences on anticipated outcomes and impact>`;
-
-    const prdPrompt = `You are a senior system analyst.
-Generate a PRODUCT REQUIREMENTS DOCUMENT (PRD) in a STRICT, NUMBERED, OFFICIAL FORMAT.
-
-PROJECT:
-- Title: ${project.title}
-- Problem: ${project.problemStatement}
-- Solution: ${project.solutionIdea}
-- Target Users: Students, researchers, and relevant industry professionals
-- Constraints: 6 Months timeline, limited compute resources
-
-FORMAT RULES (MANDATORY):
-- Use numbered headings EXACTLY as given below
-- Use bullet points (- ) for all requirements and list items
-- DO NOT write continuous paragraphs
-- Each requirement MUST be on its own line
-- Separate major sections with blank lines
-- Return ONLY the formatted document text, no JSON, no code fences
-
-DOCUMENT STRUCTURE (follow this EXACTLY):
-
-1. Introduction
-
-1.1 Purpose
-- <bullet point>
-
-1.2 Intended Audience
-- <bullet point>
-
-1.3 Project Overview
-- <bullet point>
-
-2. Problem Definition
-
-2.1 Existing System
-- <bullet point>
-
-2.2 Limitations of Existing System
-- <bullet point list>
-
-2.3 Proposed System
-- <bullet point>
+  /** Derive new ideas from existing ones: variations of one, a narrower focus, or a merge of several */
+  async refineIdeas(
+    ideas: IdeaDraft[],
+    operation: Exclude<IdeaOperation, 'generated'>,
+    instruction: string,
+    profile: UserProfile
+  ): Promise<IdeaDraft[]> {
+    const systemPrompt = `You are an expert academic mentor who helps students reshape project ideas. You always respond with valid JSON only.`;
+
+    const tasks: Record<typeof operation, string> = {
+      variation: `Create 3 distinct variations of the idea below. Each must keep the core problem but change the approach, audience or technology.`,
+      narrow: `Create 2 narrower versions of the idea below with a tighter, more specific scope that is easier to finish and evaluate.`,
+      merge: `Merge the ${ideas.length} ideas below into 1 coherent project that combines their strongest parts without becoming unmanageably large.`,
+    };
 
-3. Functional Requirements
-- FR1: <requirement>
-- FR2: <requirement>
-- FR3: <requirement>
-- FR4: <requirement>
+    const userPrompt = `
+      REFINE IDEAS
+      ${tasks[operation]}
+      ${instruction ? `Follow this instruction from the student: "${instruction}"` : ''}
 
-4. Non-Functional Requirements
+      Keep every result feasible for a team of ${profile.teamSize} at ${profile.skillLevel} level within ${profile.timeline}, as a ${profile.projectType} (${profile.preferredComplexity} complexity). Budget: ${profile.budgetConstraint}.
 
-4.1 Performance
-- <bullet point>
+      ${ideas.map((idea, i) => `
+      IDEA ${i + 1}: ${idea.title}
+      Problem: ${idea.problemStatement}
+      Innovation: ${idea.innovationAngle}
+      Solution: ${idea.solutionIdea}`).join('\n')}
 
-4.2 Scalability
-- <bullet point>
+      Return a JSON object with exactly this structure:
+      {
+        "ideas": [
+          { "title": "...", "problemStatement": "...", "innovationAngle": "...", "solutionIdea": "..." }
+        ]
+      }
+    `;
 
-4.3 Security
-- <bullet point>
+    const parsed = await generateStructured('ideas', systemPrompt, userPrompt, REFINED_IDEAS_SCHEMA);
+    return parsed.ideas;
+  },
 
-4.4 Usability
-- <bullet point>
+  /** Score candidate ideas side by side; results follow the order of `ideas` */
+  async compareIdeas(ideas: Partial<Project>[], profile: UserProfile): Promise<IdeaEvaluation[]> {
+    const systemPrompt = `You are a strict academic project reviewer who compares candidate student projects before a team commits to one. You always respond with valid JSON only.`;
 
-5. Assumptions & Dependencies
-- <bullet points>
+    const ideaList = ideas.map((idea, i) => `
+      IDEA ${i + 1}: ${idea.title}
+      Problem: ${idea.problemStatement}
+      Solution: ${idea.solutionIdea}
+      Innovation: ${idea.innovationAngle}`).join('\n');
 
-6. Constraints
-- <bullet points>
+    const userPrompt = `
+      Score every idea below from 1 (poor) to 10 (excellent) on each criterion, with a one or two sentence rationale specific to that idea:
+      - feasibility: can a team of ${profile.teamSize} at ${profile.skillLevel} level finish it within ${profile.timeline}?
+      - novelty: how original is it compared with common student projects and existing products?
+      - dataAvailability: are suitable public datasets or data sources readily available?
+      - hardwareCost: how affordable is the required hardware? 10 = no special hardware, 1 = expensive equipment. Budget: ${profile.budgetConstraint}
+      - complexityFit: how well does the scope match the preferred complexity "${profile.preferredComplexity}" for a ${profile.projectType}?
 
-7. Success Criteria
-- <bullet points>`;
+      Use the full range of the scale so the ideas can be told apart.
 
-    const sddPrompt = `You are a software architect.
-Generate a SYSTEM DESIGN DOCUMENT (SDD) in a STRICTLY STRUCTURED FORMAT.
+      ${ideaList}
 
-INPUT:
-- Project Title: ${project.title}
-- Problem: ${project.problemStatement}
-- Solution: ${project.solutionIdea}
-- Tech Stack: ${profile.techPreferences.join(', ') || 'React, Node.js, Python, MongoDB'}
-- AI/ML Models: ${project.innovationAngle}
+      Return a JSON object with exactly this structure, one entry per idea:
+      {
+        "evaluations": [
+          {
+            "index": 1,
+            "feasibility": { "score": 7, "rationale": "..." },
+            "novelty": { "score": 7, "rationale": "..." },
+            "dataAvailability": { "score": 7, "rationale": "..." },
+            "hardwareCost": { "score": 7, "rationale": "..." },
+            "complexityFit": { "score": 7, "rationale": "..." }
+          }
+        ]
+      }
+    `;
 
-FORMAT RULES (MANDATORY):
-- Use numbered headings EXACTLY as given
-- Use bullet points (- ) for module descriptions
-- Use arrow notation (→) for data flow steps
-- DO NOT write paragraph-only explanations
-- Separate sections with blank lines
-- Return ONLY the formatted document text, no JSON, no code fences
+    const parsed = await generateStructured('comparison', systemPrompt, userPrompt, IDEA_COMPARISON_SCHEMA);
 
-DOCUMENT STRUCTURE (follow this EXACTLY):
+    return ideas.map((idea, i) => {
+      const entry = parsed.evaluations.find(e => e.index === i + 1) || parsed.evaluations[i];
+      if (!entry) throw new Error(`The comparison did not include "${idea.title}". Try again.`);
+      const { index, ...scores } = entry;
+      return { title: idea.title || `Idea ${i + 1}`, scores };
+    });
+  },
 
-1. System Overview
-- <bullet point description>
+  async generateProjectDocumentation(project: Partial<Project>, profile: DocumentationProfile): Promise<Record<GeneratedDocKey, string>> {
+    // Split into 3 separate plain-text calls for reliability
+    const [abstract, prd, designDoc] = await Promise.all(DOC_KEYS.map(key => {
+      const prompt = buildDocumentPrompt(key, project, profile);
+      return chatCompletion('docs', prompt.system, prompt.user, false, project.id ?? null);
+    }));
 
-2. System Architecture
+    return {
+      abstract: cleanDocumentText(abstract),
+      prd: cleanDocumentText(prd),
+      designDoc: cleanDocumentText(designDoc),
+    };
+  },
 
-2.1 High-Level Architecture
-- <bullet point describing architecture layers>
+  /** Stream a single document's tokens. Run the joined text through cleanDocumentText once the stream ends. */
+  streamDocument(key: DocumentKey, project: Partial<Project>, profile: DocumentationProfile, signal?: AbortSignal, refresh = false): AsyncIterable<string> {
+    const prompt = buildDocumentPrompt(key, project, profile);
+    return streamWithActiveProvider({
+      purpose: 'docs',
+      messages: [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ],
+      temperature: 0.7,
+      signal,
+      refresh,
+      projectId: project.id ?? null,
+    });
+  },
 
-2.2 Component Description
-- <bullet point per component>
+  async generateGuidance(project: Partial<Project>, signal?: AbortSignal): Promise<GuidanceResult> {
+    const { system: systemPrompt, user: userPrompt } = renderPrompt('guidance', buildPromptContext(project));
 
-3. Module Design
+    return generateStructured('guidance', systemPrompt, userPrompt, GUIDANCE_SCHEMA, { projectId: project.id ?? null, signal });
+  },
 
-3.1 User Interface Module
-- <bullet points>
+  /**
+   * Regenerate one guidance section, keeping it consistent with the rest of
+   * the blueprint. Always bypasses the cache: the point is a fresh answer.
+   */
+  async regenerateGuidanceSection<K extends GuidanceSection>(project: Project, section: K, instruction: string): Promise<GuidanceSectionItems[K]> {
+    const systemPrompt = `You are a Senior Technical Consultant with deep expertise in software architecture, AI/ML, and academic project planning. You always respond with valid JSON only.`;
 
-3.2 Backend Processing Module
-- <bullet points>
+    const sections: Record<GuidanceSection, { task: string; shape: string }> = {
+      techStack: {
+        task: 'Propose the tech stack: specific frameworks and libraries with their architectural roles.',
+        shape: '{ "name": "...", "role": "...", "description": "..." }',
+      },
+      algorithms: {
+        task: 'Propose at least 3 specific mathematical/AI/ML algorithms with detailed implementation logic.',
+        shape: '{ "name": "...", "description": "...", "implementationLogic": "..." }',
+      },
+      datasets: {
+        task: 'Suggest real-world datasets (Kaggle, UCI, GitHub) or API sources for training and testing, with working URLs.',
+        shape: '{ "name": "...", "source": "...", "url": "...", "description": "..." }',
+      },
+      roadmap: {
+        task: 'Lay out a modular roadmap of 4 execution phases.',
+        shape: '{ "phase": "...", "title": "...", "duration": "...", "description": "..." }',
+      },
+    };
 
-3.3 AI/ML Processing Module
-- <bullet points>
+    const userPrompt = `
+      REGENERATE GUIDANCE SECTION: ${section}
+      Project: "${project.title}"
+      Problem Statement: ${project.problemStatement}
+      Architecture: ${project.implementationStrategy}
 
-3.4 Database Module
-- <bullet points>
+      ${sections[section].task}
+      ${instruction ? `Follow this instruction from the student: "${instruction}"` : 'Improve on the current version.'}
+      Stay consistent with the parts of the blueprint that are not being regenerated.
 
-4. Data Flow Description
-- Step 1 → <description>
-- Step 2 → <description>
-- Step 3 → <description>
-- Step 4 → <description>
+      Current ${section}:
+      ${JSON.stringify(project[section] || [])}
 
-5. Workflow Description
-- <bullet points describing the end-to-end workflow>
+      Rest of the blueprint:
+      Tech Stack: ${section === 'techStack' ? '(being regenerated)' : project.techStack.map(t => `${t.name} (${t.role})`).join(', ')}
+      Algorithms: ${section === 'algorithms' ? '(being regenerated)' : project.algorithms.map(a => a.name).join(', ')}
+      Roadmap: ${section === 'roadmap' ? '(being regenerated)' : project.roadmap.map(m => `${m.phase}: ${m.title}`).join('; ')}
 
-6. Technology Stack Justification
-- <bullet point per technology choice with justification>
+      Return a JSON object with exactly this structure:
+      {
+        "items": [${sections[section].shape}]
+      }
+    `;
 
-7. Security Considerations
-- <bullet points>
+    const schema = GUIDANCE_SECTION_SCHEMAS[section] as Schema<{ items: GuidanceSectionItems[K] }>;
+    const parsed = await generateStructured('guidance', systemPrompt, userPrompt, schema, {
+      normalise: raw => Array.isArray(raw) ? { items: raw } : raw,
+      refresh: true,
+      projectId: project.id,
+    });
+    return parsed.items;
+  },
 
-8. Scalability & Future Enhancements
-- <bullet points>`;
+  /** Turn the architecture prose and tech stack into components, layers and connections */
+  async generateArchitecture(project: Project, refresh = false): Promise<ArchitectureModel> {
+    const systemPrompt = `You are a software architect who turns written system descriptions into precise component diagrams. You always respond with valid JSON only.`;
 
-    const sysAbstract = 'You are an expert academic writer. Return ONLY the formatted document text. No JSON. No markdown code fences.';
-    const sysPrd = 'You are a senior system analyst. Return ONLY the formatted document text. No JSON. No markdown code fences.';
-    const sysSdd = 'You are a software architect. Return ONLY the formatted document text. No JSON. No markdown code fences.';
+    const userPrompt = `
+      ARCHITECTURE MODEL
+      Project: "${project.title}"
+      Architecture description: ${project.implementationStrategy || '(none given; infer a sensible layered design)'}
+      Tech Stack: ${project.techStack.map(t => `${t.name} (${t.role})`).join(', ')}
 
-    const [abstract, prd, designDoc] = await Promise.all([
-      chatCompletion(sysAbstract, abstractPrompt, false),
-      chatCompletion(sysPrd, prdPrompt, false),
-      chatCompletion(sysSdd, sddPrompt, false),
-    ]);
+      List the 4-10 main runtime components of this system and the connections between them.
+      - layer is one of: presentation, application, ml, data, external
+      - technology names the framework or product from the tech stack that implements the component
+      - id is a short lowercase identifier; edges refer to components by id and point in the direction of the call or data flow
+      - label says what flows along the edge (e.g. "REST", "SQL", "features")
 
-    // Strip any accidental code fences the model might still add
-    const clean = (text: string) => text.replace(/^```[\w]*\n?/gm, '').replace(/```$/gm, '').trim();
+      Return a JSON object with exactly this structure:
+      {
+        "components": [{ "id": "api", "name": "...", "layer": "application", "technology": "...", "description": "..." }],
+        "edges": [{ "from": "web", "to": "api", "label": "..." }]
+      }
+    `;
 
-    return {
-      abstract: clean(abstract),
-      prd: clean(prd),
-      designDoc: clean(designDoc),
-    };
+    const parsed = await generateStructured('guidance', systemPrompt, userPrompt, ARCHITECTURE_SCHEMA, { refresh, projectId: project.id });
+    return normalizeArchitecture(parsed.components, parsed.edges);
   },
 
-  async generateGuidance(project: Partial<Project>): Promise<{ 
-    techStack: any[]; 
-    algorithms: any[]; 
-    datasets: any[];
-    roadmap: Milestone[]; 
-    implementationStrategy: string; 
-    learningResources: any[] 
-  }> {
-    const systemPrompt = `You are a Senior Technical Consultant with deep expertise in software architecture, AI/ML, and academic project planning. You always respond with valid JSON only.`;
+  /** Initial hardware bill of materials from the blueprint; every line starts as planned */
+  async generateBom(project: Project, currency: string, refresh = false): Promise<BomItem[]> {
+    const systemPrompt = `You are an electronics and IoT engineer who prices student hardware builds. You always respond with valid JSON only.`;
 
     const userPrompt = `
-      Provide a detailed technical blueprint for: "${project.title}".
-      The guidance MUST be highly specific to this project title and its core domain.
-      
-      Sections Required:
-      1. Modern Tech Stack: Specific frameworks and libraries with their architectural roles.
-      2. Algorithms: At least 3 specific mathematical/AI/ML algorithms with detailed implementation logic.
-      3. Datasets & Data Sources: Suggest real-world datasets (Kaggle, UCI, GitHub) or API sources for training/testing.
-      4. Architecture & Strategy: A multi-layered description of the system architecture (UI -> Backend -> ML Pipeline -> Data Storage).
-      5. Modular Roadmap: 4 phases of execution.
-      6. Deep Dive Learning: Links to documentation, research papers, and tutorials.
-      
-      Return as a JSON object with this exact structure:
+      BILL OF MATERIALS
+      Project: "${project.title}"
+      Solution: ${project.solutionIdea}
+      Architecture: ${project.implementationStrategy || '(not described)'}
+      Tech Stack: ${project.techStack.map(t => `${t.name} (${t.role})`).join(', ')}
+      Budget: ${project.profile?.budgetConstraint || 'Student budget'}
+
+      List every physical component the team must buy to build a working prototype: boards, sensors, actuators, power, connectors, enclosure and tools.
+      - quantity is a whole number for one prototype
+      - unitCost is a plain number in ${currency} (no symbols or ranges), at typical student-supplier prices
+      - vendor names a common place to buy it (e.g. Robu.in, Amazon, a local electronics market)
+      - purpose says what the part does in this project
+      Leave out software, cloud services and anything the team already has on a laptop.
+
+      Return a JSON object with exactly this structure:
       {
-        "techStack": [{ "name": "...", "role": "...", "description": "..." }],
-        "algorithms": [{ "name": "...", "description": "...", "implementationLogic": "..." }],
-        "datasets": [{ "name": "...", "source": "...", "url": "...", "description": "..." }],
-        "implementationStrategy": "...",
-        "roadmap": [{ "phase": "...", "title": "...", "duration": "...", "description": "..." }],
-        "learningResources": [{ "title": "...", "url": "...", "type": "documentation|tutorial|paper|course", "description": "..." }]
+        "items": [{ "name": "...", "purpose": "...", "quantity": 1, "unitCost": 0, "vendor": "..." }]
       }
     `;
 
-    const responseText = await chatCompletion(systemPrompt, userPrompt);
-    return extractJSON(responseText);
+    const parsed = await generateStructured('guidance', systemPrompt, userPrompt, BOM_SCHEMA, {
+      normalise: raw => Array.isArray(raw) ? { items: raw } : raw,
+      refresh,
+      projectId: project.id,
+    });
+    return parsed.items.map(item => sanitizeBomItem(createBomItem({ ...item, provenance: 'ai' })));
   },
 
-  async generateVivaPrep(project: Project): Promise<VivaQuestion[]> {
+  /** `refresh` bypasses the response cache so "Regenerate" yields a new set */
+  async generateVivaPrep(project: Project, refresh = false): Promise<VivaQuestion[]> {
     const systemPrompt = `You are an academic examiner preparing challenging viva voce questions. You always respond with valid JSON only.`;
 
     const userPrompt = `
@@ -386,107 +513,61 @@ DOCUMENT STRUCTURE (follow this EXACTLY):
       The "questions" array must have exactly 10 items.
     `;
 
-    const responseText = await chatCompletion(systemPrompt, userPrompt);
-    const parsed = extractJSON(responseText);
-    return parsed.questions || parsed;
+    const parsed = await generateStructured('viva', systemPrompt, userPrompt, VIVA_SCHEMA, {
+      normalise: raw => Array.isArray(raw) ? { questions: raw } : raw,
+      refresh,
+      projectId: project.id,
+    });
+    return parsed.questions;
   },
 
-  async generateTaskBreakdown(project: Partial<Project>, teamMembers: string[]): Promise<TaskBreakdown[]> {
-    const systemPrompt = `You are a senior project manager and software engineering lead specializing in academic project planning. You break down complex projects into well-defined, dependency-aware tasks with accurate time estimates. You always respond with valid JSON only.`;
+  async generateTaskBreakdown(project: Partial<Project>, teamMembers: string[], signal?: AbortSignal): Promise<TaskBreakdown[]> {
+    const { system: systemPrompt, user: userPrompt } = renderPrompt('tasks', buildPromptContext(project, undefined, teamMembers));
 
-    const userPrompt = `
-      Break down the following academic project into granular, actionable tasks for a team of ${teamMembers.length} members: ${teamMembers.join(', ')}.
-      
-      Project Title: ${project.title}
-      Problem Statement: ${project.problemStatement}
-      Tech Stack: ${project.techStack?.map(t => t.name).join(', ') || 'To be decided'}
-      Roadmap Phases: ${project.roadmap?.map(m => m.title).join(' → ') || 'Standard 4-phase'}
-      
-      For EACH major project phase, create a parent task and break it into 3-5 subtasks.
-      
-      RULES:
-      - Every task MUST have: title, description, assignedTo (pick from team), deadline (YYYY-MM-DD format, spread over 6 months from 2026-02-09), priority (critical/high/medium/low), complexity (1=trivial, 2=simple, 3=moderate, 5=complex, 8=epic), estimatedHours, tags, dependencies (list of other task titles this depends on)
-      - Use realistic time estimates (2-40 hours per task)
-      - Create meaningful dependency chains (e.g., "Design DB Schema" must come before "Implement Backend API")
-      - Assign tasks balanced across team members
-      - Include at least 4 parent phases with 3-5 subtasks each
-      
-      Return a JSON object:
-      {
-        "phases": [
-          {
-            "parentTask": "Phase 1: Research & Planning",
-            "subtasks": [
-              {
-                "title": "...",
-                "description": "...",
-                "assignedTo": "...",
-                "status": "todo",
-                "deadline": "YYYY-MM-DD",
-                "priority": "high",
-                "complexity": 3,
-                "estimatedHours": 10,
-                "dependencies": [],
-                "tags": ["research", "planning"]
-              }
-            ]
-          }
-        ]
-      }
-    `;
-
-    const responseText = await chatCompletion(systemPrompt, userPrompt);
-    const parsed = extractJSON(responseText);
-    return parsed.phases || [];
+    const parsed = await generateStructured('tasks', systemPrompt, userPrompt, TASK_BREAKDOWN_SCHEMA, {
+      normalise: raw => Array.isArray(raw) ? { phases: raw } : raw,
+      projectId: project.id ?? null,
+      signal,
+    });
+    return parsed.phases;
   },
 
   async chatWithAI(
-    messages: { role: 'user' | 'assistant'; content: string }[],
-    projectContext?: Partial<Project> | null
+    messages: ChatTurn[],
+    projectContext?: Partial<Project> | null,
+    options: ChatOptions = {}
   ): Promise<string> {
-    const systemPrompt = `You are Plan Panni Pannuvom AI — an expert academic project assistant. You help students with project planning, research guidance, technical decisions, debugging, documentation, and viva preparation.
-
-${projectContext ? `
-CURRENT PROJECT CONTEXT:
-Title: ${projectContext.title || 'Not set'}
-Problem: ${projectContext.problemStatement || 'Not set'}
-Tech Stack: ${projectContext.techStack?.map(t => t.name).join(', ') || 'Not set'}
-Status: ${projectContext.status || 'Not set'}
-` : 'No project is currently selected.'}
-
-RULES:
-- Be concise but thorough. Use bullet points and structured formatting.
-- When asked about code, provide working examples.
-- Reference the current project context when relevant.
-- For research questions, cite real papers / datasets / tools.
-- Be encouraging and mentor-like in tone.`;
+    return completeWithActiveProvider({
+      purpose: 'chat',
+      messages: buildChatMessages(messages, projectContext, options),
+      temperature: 0.7,
+      signal: options.signal,
+      projectId: projectContext?.id ?? null,
+    });
+  },
 
-    const apiMessages = [
-      { role: 'system', content: systemPrompt },
-      ...messages.map(m => ({ role: m.role, content: m.content })),
-    ];
-
-    const response = await fetch(OPENROUTER_BASE_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'HTTP-Referer': window.location.origin,
-        'X-Title': 'Plan Panni Pannuvom',
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages: apiMessages,
-        temperature: 0.7,
-      }),
+  /** Same as chatWithAI but yields tokens as they arrive; abort via `options.signal` */
+  streamChatWithAI(
+    messages: ChatTurn[],
+    projectContext?: Partial<Project> | null,
+    options: ChatOptions = {}
+  ): AsyncIterable<string> {
+    return streamWithActiveProvider({
+      purpose: 'chat',
+      messages: buildChatMessages(messages, projectContext, options),
+      temperature: 0.7,
+      signal: options.signal,
+      projectId: projectContext?.id ?? null,
     });
+  },
 
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(`API error (${response.status}): ${errorBody}`);
-    }
+  /** Condense older chat turns (plus any previous summary) so long threads fit the context window */
+  async summarizeConversation(previousSummary: string, turns: ChatTurn[], projectId: string | null = null): Promise<string> {
+    const systemPrompt = `You summarise conversations between a student and an academic project assistant. Keep decisions, facts about the project, open questions and any code or commands that were agreed on. Write at most 200 words as bullet points. Return only the summary.`;
+
+    const transcript = turns.map(t => `${t.role === 'user' ? 'Student' : 'Assistant'}: ${t.content}`).join('\n\n');
+    const userPrompt = `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New conversation turns to fold in:\n${transcript}`;
 
-    const data = await response.json();
-    return data.choices[0].message.content;
+    return (await chatCompletion('chat', systemPrompt, userPrompt, false, projectId)).trim();
   }
 };
@@ -0,0 +1,142 @@
+import { GuidanceSection, Project, Task } from '../types';
+import { GuidanceSectionItems } from './responseSchemas';
+import { isDatasetItem } from './guidanceSectionService';
+
+// ─── Manual Blueprint Edits ─────────────────────────────────────────────────
+// Teams change their minds after the AI has written the blueprint (MongoDB
+// becomes PostgreSQL). Edited and added items are marked manual, and a rename
+// or removal looks for tasks and design-doc passages that still mention the
+// old name so the user can decide whether to carry the change over.
+
+export type EditableSection = Exclude<GuidanceSection, 'roadmap'>;
+
+export type EditableItemOf<S extends EditableSection> = GuidanceSectionItems[S][number];
+
+export type EditableItem = EditableItemOf<EditableSection>;
+
+export interface EditableField {
+  key: string;
+  label: string;
+  multiline?: boolean;
+}
+
+export const EDITABLE_FIELDS: Record<EditableSection, EditableField[]> = {
+  techStack: [
+    { key: 'name', label: 'Name' },
+    { key: 'role', label: 'Role' },
+    { key: 'description', label: 'Description', multiline: true },
+  ],
+  algorithms: [
+    { key: 'name', label: 'Name' },
+    { key: 'description', label: 'Overview', multiline: true },
+    { key: 'implementationLogic', label: 'Implementation logic', multiline: true },
+  ],
+  datasets: [
+    { key: 'name', label: 'Name' },
+    { key: 'source', label: 'Source' },
+    { key: 'url', label: 'URL' },
+    { key: 'description', label: 'Description', multiline: true },
+  ],
+};
+
+/** Form values for one item, keyed by EDITABLE_FIELDS */
+export type EditableDraft = Partial<Record<string, string>>;
+
+export function draftFromItem(section: EditableSection, item: EditableItem): EditableDraft {
+  const values = new Map(Object.entries(item));
+  return Object.fromEntries(EDITABLE_FIELDS[section].map(field => [field.key, String(values.get(field.key) ?? '')]));
+}
+
+/** `base` with the form values written over its editable fields */
+export function itemFromDraft<T extends EditableItem>(section: EditableSection, base: T, draft: EditableDraft): T {
+  return { ...base, ...Object.fromEntries(EDITABLE_FIELDS[section].map(field => [field.key, draft[field.key] ?? ''])) };
+}
+
+export function emptyItem<S extends EditableSection>(section: S): EditableItemOf<S> {
+  const blank = Object.fromEntries(EDITABLE_FIELDS[section].map(field => [field.key, '']));
+  return { ...blank, provenance: 'manual' } as EditableItemOf<S>;
+}
+
+/** Mark an edited item as manual; a dataset whose URL changed loses its old link check */
+export function markEdited<T extends EditableItem>(section: EditableSection, before: T | null, after: T): T {
+  const edited: T = { ...after, provenance: 'manual' };
+  if (section === 'datasets' && before && isDatasetItem(before) && isDatasetItem(edited) && before.url !== edited.url) {
+    return { ...edited, verification: undefined };
+  }
+  return edited;
+}
+
+// ─── Propagation ────────────────────────────────────────────────────────────
+
+/** A rename (`newName` set) or removal whose effects on tasks and docs are still undecided */
+export interface PendingPropagation {
+  section: EditableSection;
+  oldName: string;
+  newName?: string;
+  taskIds: string[];
+  docMentions: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word, case-insensitive match so "React" doesn't hit "Reactive" */
+function mentionPattern(name: string): RegExp {
+  return new RegExp(`(?<![\\w])${escapeRegExp(name.trim())}(?![\\w])`, 'gi');
+}
+
+function taskMentions(task: Task, pattern: RegExp): boolean {
+  return [task.title, task.description || '', ...task.tags].some(text => {
+    pattern.lastIndex = 0;
+    return pattern.test(text);
+  });
+}
+
+/** Null when nothing else in the project refers to `oldName` */
+export function findDependents(
+  project: Project,
+  section: EditableSection,
+  oldName: string,
+  newName?: string
+): PendingPropagation | null {
+  if (!oldName.trim() || (newName !== undefined && newName.trim().toLowerCase() === oldName.trim().toLowerCase())) return null;
+  const pattern = mentionPattern(oldName);
+  const taskIds = project.tasks.filter(task => taskMentions(task, pattern)).map(task => task.id);
+  const docMentions = (project.designDoc || '').match(pattern)?.length || 0;
+  if (taskIds.length === 0 && docMentions === 0) return null;
+  return { section, oldName, newName, taskIds, docMentions };
+}
+
+/** Replace the old name with the new one in the affected tasks */
+export function renameInTasks(project: Project, pending: PendingPropagation): Project {
+  const newName = pending.newName;
+  if (!newName) return project;
+  const pattern = mentionPattern(pending.oldName);
+  // A function replacement keeps "$&" or "$1" in a typed name literal
+  const replace = (text: string) => text.replace(pattern, () => newName);
+  return {
+    ...project,
+    tasks: project.tasks.map(task => pending.taskIds.includes(task.id)
+      ? { ...task, title: replace(task.title), description: task.description && replace(task.description), tags: task.tags.map(replace) }
+      : task),
+  };
+}
+
+export const REVIEW_TAG = 'needs-review';
+
+/** Tag the affected tasks so the removed item is dealt with from the task board */
+export function flagTasksForReview(project: Project, pending: PendingPropagation): Project {
+  return {
+    ...project,
+    tasks: project.tasks.map(task => pending.taskIds.includes(task.id) && !task.tags.includes(REVIEW_TAG)
+      ? { ...task, tags: [...task.tags, REVIEW_TAG] }
+      : task),
+  };
+}
+
+export function renameInDesignDoc(project: Project, pending: PendingPropagation): Project {
+  const newName = pending.newName;
+  if (!newName) return project;
+  return { ...project, designDoc: project.designDoc.replace(mentionPattern(pending.oldName), () => newName) };
+}
@@ -0,0 +1,87 @@
+import { Dataset, GuidanceSection, Milestone, Project } from '../types';
+import { GuidanceSectionItems } from './responseSchemas';
+
+// ─── Section-Level Guidance Regeneration ────────────────────────────────────
+// A regenerated section is previewed as a diff against the current one and
+// only written back when accepted. Merging keeps what the user attached to
+// matching items (link checks, milestone dates and progress) so accepting a
+// new roadmap doesn't wipe the schedule.
+
+export const GUIDANCE_SECTION_LABELS: Record<GuidanceSection, string> = {
+  techStack: 'Tech Stack',
+  algorithms: 'Core Algorithms',
+  datasets: 'Datasets',
+  roadmap: 'Development Roadmap',
+};
+
+type SectionItem<K extends GuidanceSection> = GuidanceSectionItems[K][number];
+
+/** Datasets are the only section items that carry a link */
+export function isDatasetItem(item: SectionItem<GuidanceSection>): item is Dataset {
+  return 'url' in item;
+}
+
+function isMilestone(item: SectionItem<GuidanceSection>): item is Milestone {
+  return 'phase' in item;
+}
+
+/** Identity used to pair old and new items: the name or title, ignoring case and spacing */
+export function sectionItemKey<K extends GuidanceSection>(section: K, item: SectionItem<K>): string {
+  const label = 'name' in item ? item.name : 'title' in item ? item.title : '';
+  return `${section}:${label.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+}
+
+/** One-line description of an item, used for the preview and to detect changes */
+export function describeSectionItem<K extends GuidanceSection>(item: SectionItem<K>): string {
+  if ('implementationLogic' in item) return `${item.description} — ${item.implementationLogic}`;
+  if ('role' in item) return `${item.role}: ${item.description}`;
+  if ('source' in item) return `${item.source} · ${item.url}${item.description ? ` — ${item.description}` : ''}`;
+  if ('phase' in item) return `${item.phase} · ${item.duration}${item.description ? ` — ${item.description}` : ''}`;
+  return '';
+}
+
+export interface SectionItemChange<T> {
+  kind: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: T;
+  after?: T;
+}
+
+/** Items in the order of the new section, with removed items appended */
+export function diffSectionItems<K extends GuidanceSection>(
+  section: K,
+  before: SectionItem<K>[],
+  after: SectionItem<K>[]
+): SectionItemChange<SectionItem<K>>[] {
+  const previous = new Map(before.map(item => [sectionItemKey(section, item), item]));
+  const changes: SectionItemChange<SectionItem<K>>[] = after.map(item => {
+    const match = previous.get(sectionItemKey(section, item));
+    if (!match) return { kind: 'added', after: item };
+    previous.delete(sectionItemKey(section, item));
+    const kind = describeSectionItem(match) === describeSectionItem(item) ? 'unchanged' : 'changed';
+    return { kind, before: match, after: item };
+  });
+  previous.forEach(item => changes.push({ kind: 'removed', before: item }));
+  return changes;
+}
+
+/** Replace one section of `project`, carrying user-owned fields over to matching items */
+export function applySectionItems<K extends GuidanceSection>(project: Project, section: K, items: GuidanceSectionItems[K]): Project {
+  const previous = new Map<string, SectionItem<K>>(
+    (project[section] as SectionItem<K>[] || []).map(item => [sectionItemKey(section, item), item])
+  );
+
+  const merged = items.map((item: SectionItem<K>): SectionItem<GuidanceSection> => {
+    const match: SectionItem<GuidanceSection> | undefined = previous.get(sectionItemKey(section, item));
+    if (!match) return item;
+    if (section === 'roadmap' && isMilestone(item) && isMilestone(match)) {
+      const { id, startDate, targetDate, aiSuggestedDate, completionPercentage, status, linkedTaskIds } = match;
+      return { ...item, id, startDate, targetDate, aiSuggestedDate, completionPercentage, status, linkedTaskIds };
+    }
+    if (section === 'datasets' && isDatasetItem(item) && isDatasetItem(match) && match.url === item.url) {
+      return { ...item, verification: match.verification };
+    }
+    return item;
+  });
+
+  return { ...project, [section]: merged };
+}
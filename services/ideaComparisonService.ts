@@ -0,0 +1,58 @@
+import { IdeaCriterion, IdeaEvaluation } from '../types';
+
+// ─── Idea Comparison ────────────────────────────────────────────────────────
+// The AI scores each candidate per criterion (1-10); the team decides how much
+// each criterion matters. Weights are kept per user so a guide's preferred
+// weighting survives between ideation sessions.
+
+export const IDEA_CRITERIA: { id: IdeaCriterion; label: string; description: string }[] = [
+  { id: 'feasibility', label: 'Feasibility', description: 'Achievable by the team size and skill level within the timeline' },
+  { id: 'novelty', label: 'Novelty', description: 'Originality compared with common student projects and existing products' },
+  { id: 'dataAvailability', label: 'Data availability', description: 'Public datasets or data sources are readily available' },
+  { id: 'hardwareCost', label: 'Hardware cost', description: 'Affordability of required hardware (10 = none needed)' },
+  { id: 'complexityFit', label: 'Complexity fit', description: 'Scope matches the preferred complexity and project type' },
+];
+
+export type CriterionWeights = Record<IdeaCriterion, number>;
+
+export const DEFAULT_WEIGHTS: CriterionWeights = {
+  feasibility: 3,
+  novelty: 2,
+  dataAvailability: 2,
+  hardwareCost: 1,
+  complexityFit: 2,
+};
+
+function weightsKey(userId: string): string {
+  return `Plan Panni Pannuvom_idea_weights_${userId}`;
+}
+
+export function getCriterionWeights(userId: string): CriterionWeights {
+  const raw = localStorage.getItem(weightsKey(userId));
+  if (!raw) return { ...DEFAULT_WEIGHTS };
+  try {
+    return { ...DEFAULT_WEIGHTS, ...JSON.parse(raw) };
+  } catch {
+    return { ...DEFAULT_WEIGHTS };
+  }
+}
+
+export function saveCriterionWeights(userId: string, weights: CriterionWeights): void {
+  localStorage.setItem(weightsKey(userId), JSON.stringify(weights));
+}
+
+/** Weighted average of the criterion scores, scaled to 0-100 */
+export function weightedScore(evaluation: IdeaEvaluation, weights: CriterionWeights): number {
+  const totalWeight = IDEA_CRITERIA.reduce((sum, c) => sum + weights[c.id], 0);
+  if (totalWeight === 0) return 0;
+  const weighted = IDEA_CRITERIA.reduce((sum, c) => sum + evaluation.scores[c.id].score * weights[c.id], 0);
+  return Math.round((weighted / totalWeight) * 10);
+}
+
+/** Indexes of the evaluations, best weighted score first */
+export function rankEvaluations(evaluations: IdeaEvaluation[], weights: CriterionWeights): number[] {
+  return evaluations
+    .map((evaluation, index) => ({ index, score: weightedScore(evaluation, weights) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.index);
+}
@@ -0,0 +1,121 @@
+import { IdeaNode, IdeaOperation, Project } from '../types';
+import { IdeaDraft } from './responseSchemas';
+
+// ─── Idea Lineage ───────────────────────────────────────────────────────────
+// Every generated or refined idea is a node; refinements point back at the
+// idea(s) they came from. Nodes are stored per user so starred favourites
+// survive between ideation sessions.
+
+// Unstarred nodes beyond this are dropped, oldest first; starred nodes and
+// their ancestors are always kept so lineage stays intact.
+const MAX_NODES = 200;
+
+function lineageKey(userId: string): string {
+  return `Plan Panni Pannuvom_idea_lineage_${userId}`;
+}
+
+export function getIdeaNodes(userId: string): IdeaNode[] {
+  const raw = localStorage.getItem(lineageKey(userId));
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as IdeaNode[];
+  } catch {
+    return [];
+  }
+}
+
+function ancestorIds(nodes: IdeaNode[], ids: string[]): Set<string> {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const seen = new Set<string>();
+  const stack = [...ids];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(byId.get(id)?.parentIds || []));
+  }
+  return seen;
+}
+
+function writeIdeaNodes(userId: string, nodes: IdeaNode[]): void {
+  let kept = nodes;
+  if (nodes.length > MAX_NODES) {
+    const pinned = ancestorIds(nodes, nodes.filter(n => n.starred).map(n => n.id));
+    const recent = new Set(nodes.slice(-MAX_NODES).map(n => n.id));
+    kept = nodes.filter(n => pinned.has(n.id) || recent.has(n.id));
+  }
+  localStorage.setItem(lineageKey(userId), JSON.stringify(kept));
+}
+
+function createNode(idea: Partial<IdeaDraft>, parentIds: string[], operation: IdeaOperation, instruction?: string): IdeaNode {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    idea: {
+      title: idea.title || 'Untitled idea',
+      problemStatement: idea.problemStatement || '',
+      innovationAngle: idea.innovationAngle || '',
+      solutionIdea: idea.solutionIdea || '',
+    },
+    parentIds,
+    operation,
+    instruction: instruction?.trim() || undefined,
+    starred: false,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** Record a fresh set of wizard ideas as lineage roots */
+export function addGeneratedIdeas(userId: string, ideas: Partial<Project>[]): IdeaNode[] {
+  const created = ideas.map(idea => createNode(idea, [], 'generated'));
+  writeIdeaNodes(userId, [...getIdeaNodes(userId), ...created]);
+  return created;
+}
+
+export function addRefinedIdeas(
+  userId: string,
+  parents: IdeaNode[],
+  ideas: IdeaDraft[],
+  operation: Exclude<IdeaOperation, 'generated'>,
+  instruction: string
+): IdeaNode[] {
+  const parentIds = parents.map(p => p.id);
+  const created = ideas.map(idea => createNode(idea, parentIds, operation, instruction));
+  writeIdeaNodes(userId, [...getIdeaNodes(userId), ...created]);
+  return created;
+}
+
+export function toggleStar(userId: string, nodeId: string): IdeaNode[] {
+  const nodes = getIdeaNodes(userId).map(n => n.id === nodeId ? { ...n, starred: !n.starred } : n);
+  writeIdeaNodes(userId, nodes);
+  return nodes;
+}
+
+// ─── Tree Helpers ───────────────────────────────────────────────────────────
+
+/**
+ * Children keyed by parent id. A merge is listed under its first parent
+ * only, so each node appears once in the rendered tree.
+ */
+export function childrenByParent(nodes: IdeaNode[]): Map<string, IdeaNode[]> {
+  const children = new Map<string, IdeaNode[]>();
+  for (const node of nodes) {
+    const parentId = node.parentIds[0];
+    if (!parentId) continue;
+    children.set(parentId, [...(children.get(parentId) || []), node]);
+  }
+  return children;
+}
+
+/** The given roots plus everything refined from them */
+export function descendantIds(nodes: IdeaNode[], rootIds: string[]): Set<string> {
+  const children = childrenByParent(nodes);
+  const seen = new Set<string>();
+  const stack = [...rootIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(children.get(id) || []).map(c => c.id));
+  }
+  return seen;
+}
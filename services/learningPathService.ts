@@ -0,0 +1,229 @@
+import { AppUser, LearningPlanItem, Project, SkillLevel, Task } from '../types';
+import { getLastProfile } from './profilePresetService';
+import { createTask } from './taskBreakdownService';
+
+// ─── Learning Path Planner ──────────────────────────────────────────────────
+// Each technology and algorithm in the blueprint is mapped to the knowledge
+// area it leans on. Comparing those areas with what every member says they
+// know gives per-member gaps, which become an ordered plan (fundamentals
+// first) that can be pushed into the task list and ticked off.
+
+export const KNOWLEDGE_AREAS = [
+  'Data Structures',
+  'Algorithms',
+  'DBMS',
+  'Operating Systems',
+  'Computer Networks',
+  'Software Engineering',
+  'Machine Learning',
+  'Deep Learning',
+  'Web Development',
+  'Mobile Development',
+  'Embedded Systems',
+  'Digital Signal Processing',
+  'Compiler Design',
+  'Discrete Math',
+  'Statistics & Probability',
+];
+
+/** Checked in order, so more specific areas come before broader ones */
+const AREA_RULES: { area: string; pattern: RegExp }[] = [
+  { area: 'Deep Learning', pattern: /tensorflow|pytorch|keras|\bcnn\b|lstm|\brnn\b|transformer|bert|yolo|neural|deep learning|\bgan\b/i },
+  { area: 'Machine Learning', pattern: /scikit|sklearn|xgboost|lightgbm|random forest|\bsvm\b|k-?means|decision tree|naive bayes|regression|classif|cluster|smote|shap|\bml\b|machine learning|recommend/i },
+  { area: 'Statistics & Probability', pattern: /statistic|probabilit|pandas|numpy|scipy|bayesian|hypothesis/i },
+  { area: 'Digital Signal Processing', pattern: /signal|\bdsp\b|audio|\bfft\b|fourier|spectrogram/i },
+  { area: 'Embedded Systems', pattern: /arduino|esp32|esp8266|raspberry|embedded|microcontroller|firmware|sensor|\biot\b/i },
+  { area: 'Mobile Development', pattern: /flutter|react native|android|kotlin|swift|\bios\b|mobile/i },
+  { area: 'Computer Networks', pattern: /mqtt|websocket|socket|network|grpc|\btcp\b|lora|bluetooth|zigbee/i },
+  { area: 'DBMS', pattern: /sql|postgres|mysql|mongo|sqlite|redis|firebase|firestore|database|dynamo|cassandra|storage/i },
+  { area: 'Operating Systems', pattern: /docker|kubernetes|linux|container|devops|nginx/i },
+  { area: 'Web Development', pattern: /react|vue|angular|next\.?js|node|express|django|flask|fastapi|spring|html|css|tailwind|frontend|backend|\bapi\b|web/i },
+  { area: 'Compiler Design', pattern: /compiler|parser|lexer|grammar|antlr/i },
+  { area: 'Algorithms', pattern: /dijkstra|graph|a\*|search|dynamic programming|optimi[sz]ation|heuristic|genetic/i },
+  { area: 'Data Structures', pattern: /\btree\b|heap|hash|queue|trie/i },
+];
+
+const FALLBACK_AREA = 'Software Engineering';
+
+/** Fundamentals before the areas that build on them */
+const LEARNING_ORDER = [
+  'Discrete Math',
+  'Statistics & Probability',
+  'Data Structures',
+  'Algorithms',
+  'DBMS',
+  'Operating Systems',
+  'Computer Networks',
+  'Software Engineering',
+  'Web Development',
+  'Mobile Development',
+  'Embedded Systems',
+  'Digital Signal Processing',
+  'Compiler Design',
+  'Machine Learning',
+  'Deep Learning',
+];
+
+/** Hours to get working knowledge of one topic, by the team's self-rated skill level */
+const HOURS_BY_LEVEL: Record<SkillLevel, number> = {
+  [SkillLevel.Beginner]: 12,
+  [SkillLevel.Intermediate]: 8,
+  [SkillLevel.Advanced]: 5,
+};
+
+/** Areas that take noticeably longer to pick up than a typical library */
+const HEAVY_AREAS = new Set(['Deep Learning', 'Machine Learning', 'Embedded Systems', 'Digital Signal Processing']);
+
+export function areaFor(text: string): string {
+  return AREA_RULES.find(rule => rule.pattern.test(text))?.area || FALLBACK_AREA;
+}
+
+export interface SkillRequirement {
+  area: string;
+  /** What in the blueprint needs the area, e.g. "Backend: FastAPI" */
+  topics: { topic: string; reason: string }[];
+}
+
+/** Areas the blueprint needs, in learning order */
+export function requiredAreas(project: Project): SkillRequirement[] {
+  const byArea = new Map<string, SkillRequirement>();
+  const add = (area: string, topic: string, reason: string) => {
+    const requirement = byArea.get(area) || { area, topics: [] };
+    if (!requirement.topics.some(t => t.topic.toLowerCase() === topic.toLowerCase())) requirement.topics.push({ topic, reason });
+    byArea.set(area, requirement);
+  };
+
+  for (const tech of project.techStack || []) add(areaFor(`${tech.name} ${tech.role}`), tech.name, `${tech.role}: ${tech.name}`);
+  for (const algo of project.algorithms || []) add(areaFor(`${algo.name} ${algo.description}`), algo.name, `Algorithm: ${algo.name}`);
+
+  return [...byArea.values()].sort((a, b) => LEARNING_ORDER.indexOf(a.area) - LEARNING_ORDER.indexOf(b.area));
+}
+
+/** The project's own record wins; otherwise fall back to what the member picked in their last ideation */
+export function memberKnowledge(project: Project, member: AppUser): string[] {
+  return project.memberSkills?.[member.fullName] ?? getLastProfile(member.id)?.knowledgeAreas ?? [];
+}
+
+export interface MemberSkillGap {
+  member: string;
+  known: string[];
+  missing: SkillRequirement[];
+}
+
+export function computeSkillGaps(project: Project, members: AppUser[]): MemberSkillGap[] {
+  const required = requiredAreas(project);
+  return members.map(member => {
+    const known = memberKnowledge(project, member);
+    return { member: member.fullName, known, missing: required.filter(r => !known.includes(r.area)) };
+  });
+}
+
+// ─── Plan ───────────────────────────────────────────────────────────────────
+
+function matchResources(project: Project, topic: string, area: string): LearningPlanItem['resources'] {
+  const resources = project.learningResources || [];
+  const topicLower = topic.toLowerCase();
+  const byTopic = resources.filter(r => `${r.title} ${r.description}`.toLowerCase().includes(topicLower));
+  const matched = byTopic.length ? byTopic : resources.filter(r => areaFor(`${r.title} ${r.description}`) === area);
+  return matched.slice(0, 3).map(r => ({ title: r.title, url: r.url }));
+}
+
+/**
+ * One item per member and missing topic, grouped by member in learning order.
+ * Progress and task links from an earlier plan carry over to the same topic.
+ */
+export function buildLearningPlan(project: Project, gaps: MemberSkillGap[]): LearningPlanItem[] {
+  const baseHours = HOURS_BY_LEVEL[project.profile?.skillLevel ?? SkillLevel.Intermediate] ?? HOURS_BY_LEVEL[SkillLevel.Intermediate];
+  const previous = new Map((project.learningPlan || []).map(item => [`${item.member}|${item.topic.toLowerCase()}`, item]));
+
+  return gaps.flatMap(gap => gap.missing.flatMap(requirement => requirement.topics.map(({ topic, reason }) => {
+    const existing = previous.get(`${gap.member}|${topic.toLowerCase()}`);
+    return {
+      id: existing?.id || Math.random().toString(36).substr(2, 9),
+      member: gap.member,
+      area: requirement.area,
+      topic,
+      reason,
+      estimatedHours: Math.round(baseHours * (HEAVY_AREAS.has(requirement.area) ? 1.5 : 1)),
+      resources: matchResources(project, topic, requirement.area),
+      completedAt: existing?.completedAt,
+      taskId: existing?.taskId,
+    };
+  })));
+}
+
+export function isItemComplete(project: Project, item: LearningPlanItem): boolean {
+  if (item.completedAt) return true;
+  return !!item.taskId && project.tasks.find(t => t.id === item.taskId)?.status === 'done';
+}
+
+/** Tick or untick a step, keeping its task (if any) in the same state */
+export function setItemComplete(project: Project, itemId: string, complete: boolean): Project {
+  const item = project.learningPlan?.find(i => i.id === itemId);
+  if (!item) return project;
+  return {
+    ...project,
+    learningPlan: project.learningPlan!.map(i => i.id === itemId ? { ...i, completedAt: complete ? new Date().toISOString() : undefined } : i),
+    tasks: project.tasks.map(t => t.id === item.taskId ? { ...t, status: complete ? 'done' : t.status === 'done' ? 'todo' : t.status } : t),
+  };
+}
+
+export const LEARNING_TAG = 'learning';
+
+/**
+ * Add a task for every step not yet in the task list. A member's steps depend
+ * on each other in plan order and are due before the first milestone.
+ */
+export function addPlanToTasks(project: Project): Project {
+  const plan = project.learningPlan || [];
+  const firstDeadline = project.roadmap.find(m => m.targetDate)?.targetDate;
+  const lastTaskByMember = new Map<string, string>();
+  const newTasks: Task[] = [];
+
+  const learningPlan = plan.map(item => {
+    if (item.taskId && project.tasks.some(t => t.id === item.taskId)) {
+      lastTaskByMember.set(item.member, item.taskId);
+      return item;
+    }
+    const previous = lastTaskByMember.get(item.member);
+    const task = createTask({
+      title: `Learn ${item.topic}`,
+      description: `${item.reason}. Knowledge area: ${item.area}.${item.resources.length ? `\nResources:\n${item.resources.map(r => `- ${r.title}: ${r.url}`).join('\n')}` : ''}`,
+      assignedTo: item.member,
+      estimatedHours: item.estimatedHours,
+      deadline: firstDeadline,
+      dependencies: previous ? [previous] : [],
+      tags: [LEARNING_TAG, item.area],
+      status: item.completedAt ? 'done' : 'todo',
+    });
+    newTasks.push(task);
+    lastTaskByMember.set(item.member, task.id);
+    return { ...item, taskId: task.id };
+  });
+
+  return { ...project, learningPlan, tasks: [...project.tasks, ...newTasks] };
+}
+
+export interface MemberProgress {
+  member: string;
+  done: number;
+  total: number;
+  hoursDone: number;
+  hoursTotal: number;
+}
+
+export function learningProgress(project: Project): MemberProgress[] {
+  const byMember = new Map<string, MemberProgress>();
+  for (const item of project.learningPlan || []) {
+    const progress = byMember.get(item.member) || { member: item.member, done: 0, total: 0, hoursDone: 0, hoursTotal: 0 };
+    const complete = isItemComplete(project, item);
+    progress.total++;
+    progress.hoursTotal += item.estimatedHours;
+    if (complete) {
+      progress.done++;
+      progress.hoursDone += item.estimatedHours;
+    }
+    byMember.set(item.member, progress);
+  }
+  return [...byMember.values()];
+}
@@ -0,0 +1,329 @@
+import { AIPurpose, LLMProviderKind, LLMSettings } from '../types';
+import { getCurrentUser } from './authService';
+import { getMockResponse } from './mockResponses';
+import { CacheMissError, getCacheSettings, hashRequest, readCachedResponse, writeCachedResponse } from './aiCacheService';
+import { assertWithinBudget, recordUsage, ReportedUsage } from './usageService';
+import { LLMRequestError, parseRetryAfter, scheduleRequest, scheduleStream } from './requestScheduler';
+
+// ─── LLM Provider Layer ─────────────────────────────────────────────────────
+// geminiService builds prompts; a provider turns them into a completion.
+// OpenRouter and local servers (Ollama, llama.cpp, vLLM) share the OpenAI
+// chat/completions wire format, so both come from the same factory.
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  purpose: AIPurpose;
+  messages: LLMMessage[];
+  temperature?: number;
+  json?: boolean;
+  signal?: AbortSignal;
+  /** Skip the cached answer (e.g. "Regenerate") but still store the fresh one */
+  refresh?: boolean;
+  /** Project the call is made for, used to attribute token usage */
+  projectId?: string | null;
+}
+
+export interface LLMCompletion {
+  content: string;
+  /** Absent when the server doesn't report usage; tokens are then estimated */
+  usage?: ReportedUsage;
+}
+
+export interface LLMProvider {
+  kind: LLMProviderKind;
+  label: string;
+  complete(request: LLMRequest, settings: LLMSettings): Promise<LLMCompletion>;
+  /**
+   * Yields content deltas as they arrive; aborting `request.signal` ends the stream with an AbortError.
+   * `onUsage` is called once if the server reports usage at the end of the stream.
+   */
+  stream(request: LLMRequest, settings: LLMSettings, onUsage?: (usage: ReportedUsage) => void): AsyncIterable<string>;
+}
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'openrouter',
+  model: 'google/gemini-2.0-flash-001',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+// ─── Server-Sent Events ─────────────────────────────────────────────────────
+
+/** Parse an SSE body into JSON payloads, stopping at the `[DONE]` sentinel */
+async function* readServerSentEvents(response: Response): AsyncGenerator<any> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        // Comment lines (": keep-alive") and event names carry no content
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') return;
+        try {
+          yield JSON.parse(data);
+        } catch { /* ignore malformed keep-alive payloads */ }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ─── OpenAI-compatible Providers ────────────────────────────────────────────
+
+/** Read the OpenAI `usage` block; OpenRouter adds `cost` in USD when asked for it */
+function parseUsage(usage: any): ReportedUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens ?? 0,
+    cost: typeof usage.cost === 'number' ? usage.cost : undefined,
+  };
+}
+
+/**
+ * OpenRouter reports failures that happen after the response has started
+ * (provider overload, moderation) as an `error` payload, including mid-stream
+ * as `data: {"error": {...}}`. Surface them like HTTP errors so partial text
+ * is neither shown as finished nor cached.
+ */
+function assertNoErrorPayload(label: string, payload: any): void {
+  const error = payload?.error;
+  if (!error) return;
+  const status = typeof error.code === 'number' ? error.code : 500;
+  throw new LLMRequestError(`${label} API error (${status}): ${error.message || JSON.stringify(error)}`, status);
+}
+
+function createOpenAICompatibleProvider(
+  kind: LLMProviderKind,
+  label: string,
+  resolve: (settings: LLMSettings) => { url: string; headers: Record<string, string>; extraBody?: Record<string, unknown> }
+): LLMProvider {
+  const send = async (request: LLMRequest, settings: LLMSettings, stream: boolean): Promise<Response> => {
+    const { url, headers, extraBody } = resolve(settings);
+    const body: any = {
+      model: settings.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      stream,
+      ...extraBody,
+    };
+    if (stream) {
+      body.stream_options = { include_usage: true };
+    }
+    if (request.json) {
+      body.response_format = { type: 'json_object' };
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      // fetch only rejects when no response arrived (offline, DNS, refused connection)
+      throw new LLMRequestError(`${label} is unreachable: ${(err as Error).message}`, 0);
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new LLMRequestError(
+        `${label} API error (${response.status}): ${errorBody}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  };
+
+  return {
+    kind,
+    label,
+    async complete(request, settings) {
+      const response = await send(request, settings, false);
+      const data = await response.json();
+      assertNoErrorPayload(label, data);
+      return { content: data.choices[0].message.content, usage: parseUsage(data.usage) };
+    },
+    async *stream(request, settings, onUsage) {
+      const response = await send(request, settings, true);
+      for await (const chunk of readServerSentEvents(response)) {
+        assertNoErrorPayload(label, chunk);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+        // The usage block arrives on the final chunk, which has no choices
+        const usage = parseUsage(chunk.usage);
+        if (usage) onUsage?.(usage);
+      }
+    },
+  };
+}
+
+const openRouterProvider = createOpenAICompatibleProvider('openrouter', 'OpenRouter', settings => ({
+  url: `${OPENROUTER_BASE_URL}/chat/completions`,
+  headers: {
+    'Authorization': `Bearer ${settings.apiKey || process.env.OPENROUTER_API_KEY || ''}`,
+    'HTTP-Referer': window.location.origin,
+    'X-Title': 'Plan Panni Pannuvom',
+  },
+  extraBody: { usage: { include: true } },
+}));
+
+const localProvider = createOpenAICompatibleProvider('openai-compatible', 'Local server', settings => ({
+  url: `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+  headers: settings.apiKey ? { 'Authorization': `Bearer ${settings.apiKey}` } : {},
+}));
+
+// ─── Mock Provider ──────────────────────────────────────────────────────────
+
+function mockText(request: LLMRequest): string {
+  const prompt = request.messages.map(m => m.content).join('\n');
+  return getMockResponse(request.purpose, prompt);
+}
+
+const mockProvider: LLMProvider = {
+  kind: 'mock',
+  label: 'Mock (offline)',
+  async complete(request) {
+    return { content: mockText(request) };
+  },
+  async *stream(request) {
+    // Word-sized chunks with a small delay so streaming UIs can be exercised offline
+    for (const chunk of mockText(request).match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      yield chunk;
+    }
+  },
+};
+
+// ─── Registry & Per-user Settings ───────────────────────────────────────────
+
+const providers: Record<LLMProviderKind, LLMProvider> = {
+  'openrouter': openRouterProvider,
+  'openai-compatible': localProvider,
+  'mock': mockProvider,
+};
+
+export function getProviders(): LLMProvider[] {
+  return Object.values(providers);
+}
+
+function settingsKey(): string {
+  return `Plan Panni Pannuvom_llm_settings_${getCurrentUser()?.id || 'anonymous'}`;
+}
+
+export function getLLMSettings(): LLMSettings {
+  const raw = localStorage.getItem(settingsKey());
+  if (!raw) return { ...DEFAULT_LLM_SETTINGS };
+  try {
+    return { ...DEFAULT_LLM_SETTINGS, ...JSON.parse(raw) };
+  } catch {
+    return { ...DEFAULT_LLM_SETTINGS };
+  }
+}
+
+export function saveLLMSettings(settings: LLMSettings): void {
+  localStorage.setItem(settingsKey(), JSON.stringify(settings));
+}
+
+/**
+ * Resolve the cache key for a request, or null when caching is off.
+ * In replay-only mode a miss is an error rather than a network call.
+ */
+async function lookupCache(request: LLMRequest, settings: LLMSettings): Promise<{ key: string | null; hit: string | null }> {
+  const cache = getCacheSettings();
+  if (!cache.enabled && !cache.replayOnly) return { key: null, hit: null };
+
+  const key = await hashRequest(settings, request);
+  const hit = request.refresh && !cache.replayOnly ? null : await readCachedResponse(key);
+  if (hit === null && cache.replayOnly) throw new CacheMissError(request.purpose);
+  return { key, hit };
+}
+
+function logUsage(request: LLMRequest, settings: LLMSettings, response: string, usage?: ReportedUsage): void {
+  recordUsage({
+    purpose: request.purpose,
+    projectId: request.projectId ?? null,
+    provider: settings.provider,
+    model: settings.provider === 'mock' ? 'mock' : settings.model,
+    prompt: request.messages.map(m => m.content).join('\n'),
+    response,
+    usage,
+  });
+}
+
+/** Send a request through the provider the current user picked in settings */
+export async function completeWithActiveProvider(request: LLMRequest): Promise<string> {
+  const settings = getLLMSettings();
+  const provider = providers[settings.provider] || openRouterProvider;
+
+  const { key, hit } = await lookupCache(request, settings);
+  if (hit !== null) return hit;
+
+  const { content, usage } = await scheduleRequest(request.purpose, () => {
+    // Checked per attempt so calls queued behind others see the latest spend
+    assertWithinBudget();
+    return provider.complete(request, settings);
+  }, request.signal);
+  logUsage(request, settings, content, usage);
+  if (key) await writeCachedResponse(key, settings, request, content);
+  return content;
+}
+
+export async function* streamWithActiveProvider(request: LLMRequest): AsyncIterable<string> {
+  const settings = getLLMSettings();
+  const provider = providers[settings.provider] || openRouterProvider;
+
+  const { key, hit } = await lookupCache(request, settings);
+  if (hit !== null) {
+    // Replay in word-sized chunks so streaming UIs behave the same as a live response
+    for (const chunk of hit.match(/\s*\S+\s*/g) || []) {
+      if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      yield chunk;
+    }
+    return;
+  }
+
+  let full = '';
+  let usage: ReportedUsage | undefined;
+  const start = () => {
+    assertWithinBudget();
+    return provider.stream(request, settings, reported => { usage = reported; });
+  };
+  try {
+    for await (const delta of scheduleStream(request.purpose, start, request.signal)) {
+      full += delta;
+      yield delta;
+    }
+  } finally {
+    // Aborted streams still consumed tokens, so they are logged too
+    if (full) logUsage(request, settings, full, usage);
+  }
+  // Only complete responses are cached; an aborted stream throws before reaching here
+  if (key && full) await writeCachedResponse(key, settings, request, full);
+}
@@ -0,0 +1,273 @@
+import { AIPurpose } from '../types';
+import { ADDITIONAL_DOCUMENT_TYPES } from './documentTypes';
+
+// ─── Mock Provider Fixtures ─────────────────────────────────────────────────
+// Canned, deterministic responses for the 'mock' LLM provider. They follow the
+// exact shapes the generators in geminiService ask for, so the whole app can be
+// exercised offline (lab machines, demos) and in tests without an API key.
+
+const IDEA = (title: string, domain: string) => ({
+  title,
+  problemStatement: `Teams working in ${domain} lack an affordable, data-driven way to detect problems early and act on them.`,
+  innovationAngle: `Combines lightweight machine learning with a rule-based fallback so it runs on commodity hardware.`,
+  solutionIdea: `A web dashboard backed by a Python service that ingests ${domain.toLowerCase()} data, scores risk and notifies users.`,
+  sources: [],
+});
+
+const IDEAS = {
+  academic: [
+    IDEA('Smart Crop Disease Early-Warning System', 'Agriculture'),
+    IDEA('Explainable Credit Risk Scoring for Micro-Lenders', 'FinTech'),
+    IDEA('Campus Energy Usage Forecasting Platform', 'Smart Infrastructure'),
+  ],
+  trending: [
+    IDEA('Deepfake Voice Call Detector for Senior Citizens', 'Cybersecurity'),
+    IDEA('Hyperlocal Flood Alert Network', 'Disaster Management'),
+    IDEA('AI Study Planner for Competitive Exams', 'EdTech'),
+  ],
+};
+
+const ABSTRACT = `BACKGROUND:
+The domain has seen rapid growth in data availability. Yet most institutions still rely on manual processes.
+
+PROBLEM STATEMENT:
+Existing approaches are slow, expensive and error-prone. Decisions are made too late to be useful.
+
+PROPOSED SOLUTION:
+We propose a modular platform that ingests data, applies machine learning and surfaces actionable insights. It is designed for low-cost deployment.
+
+METHODOLOGY:
+The system uses a React frontend, a FastAPI backend and a gradient boosted model. Data is cleaned with pandas and stored in PostgreSQL.
+
+EXPECTED RESULTS:
+We expect at least 85% accuracy on held-out data. The platform should cut response time by half compared to manual review.`;
+
+const PRD = `1. Introduction
+
+1.1 Purpose
+- Define the requirements for the proposed system
+
+1.2 Intended Audience
+- Students, faculty reviewers and end users
+
+1.3 Project Overview
+- A data-driven platform that detects issues early
+
+2. Problem Definition
+
+2.1 Existing System
+- Manual review of records
+
+2.2 Limitations of Existing System
+- Slow turnaround
+- High error rate
+
+2.3 Proposed System
+- Automated scoring with human review
+
+3. Functional Requirements
+- FR1: Users can upload datasets
+- FR2: The system scores each record
+- FR3: Users receive alerts for high-risk records
+- FR4: Admins can view analytics dashboards
+
+4. Non-Functional Requirements
+
+4.1 Performance
+- Score 1,000 records in under 5 seconds
+
+4.2 Scalability
+- Horizontal scaling of the API layer
+
+4.3 Security
+- Role-based access control
+
+4.4 Usability
+- Mobile-friendly interface
+
+5. Assumptions & Dependencies
+- Public datasets remain available
+
+6. Constraints
+- 6 month timeline
+
+7. Success Criteria
+- Model accuracy above 85%`;
+
+const SDD = `1. System Overview
+- A three-tier web application with an ML scoring service
+
+2. System Architecture
+
+2.1 High-Level Architecture
+- React UI → FastAPI backend → ML pipeline → PostgreSQL
+
+2.2 Component Description
+- UI, API gateway, model service, database
+
+3. Module Design
+
+3.1 User Interface Module
+- Dashboard, upload form, alerts view
+
+3.2 Backend Processing Module
+- REST endpoints and validation
+
+3.3 AI/ML Processing Module
+- Feature extraction and model inference
+
+3.4 Database Module
+- Normalised relational schema
+
+4. Data Flow Description
+- Step 1 → User uploads data
+- Step 2 → Backend validates and stores it
+- Step 3 → Model scores each record
+- Step 4 → Results are shown on the dashboard
+
+5. Workflow Description
+- Upload, score, review, act
+
+6. Technology Stack Justification
+- React for a rich UI, FastAPI for fast Python APIs
+
+7. Security Considerations
+- JWT authentication and input validation
+
+8. Scalability & Future Enhancements
+- Containerised deployment and model retraining`;
+
+const GUIDANCE = {
+  techStack: [
+    { name: 'React', role: 'Frontend', description: 'Component-based UI for dashboards and forms.' },
+    { name: 'FastAPI', role: 'Backend', description: 'Async Python API serving model predictions.' },
+    { name: 'scikit-learn', role: 'ML', description: 'Classical models for tabular data.' },
+    { name: 'PostgreSQL', role: 'Database', description: 'Relational storage for records and results.' },
+  ],
+  algorithms: [
+    { name: 'Random Forest', description: 'Ensemble of decision trees for robust classification.', implementationLogic: 'Train 200 trees with max_depth=12, tune via grid search.' },
+    { name: 'SMOTE', description: 'Oversampling for class imbalance.', implementationLogic: 'Apply to training split only before fitting the classifier.' },
+    { name: 'SHAP', description: 'Model-agnostic feature attribution.', implementationLogic: 'Compute TreeExplainer values per prediction for the UI.' },
+  ],
+  datasets: [
+    { name: 'UCI Sample Dataset', source: 'UCI', url: 'https://archive.ics.uci.edu/', description: 'Public tabular benchmark data.' },
+  ],
+  implementationStrategy: 'UI → Backend → ML Pipeline → Data Storage. The React UI calls FastAPI, which runs the scikit-learn pipeline and persists results in PostgreSQL.',
+  roadmap: [
+    { phase: 'Phase 1', title: 'Research & Planning', duration: '4 weeks', description: 'Literature survey and requirements.' },
+    { phase: 'Phase 2', title: 'Data & Modelling', duration: '6 weeks', description: 'Collect data and train models.' },
+    { phase: 'Phase 3', title: 'Application Development', duration: '8 weeks', description: 'Build UI and API.' },
+    { phase: 'Phase 4', title: 'Testing & Documentation', duration: '4 weeks', description: 'Evaluate and write the report.' },
+  ],
+  learningResources: [
+    { title: 'FastAPI Documentation', url: 'https://fastapi.tiangolo.com/', type: 'documentation', description: 'Official FastAPI docs.' },
+    { title: 'scikit-learn User Guide', url: 'https://scikit-learn.org/stable/user_guide.html', type: 'documentation', description: 'Official scikit-learn guide.' },
+  ],
+};
+
+const ARCHITECTURE = {
+  components: [
+    { id: 'web', name: 'Web Dashboard', layer: 'presentation', technology: 'React', description: 'Forms, results and alerts.' },
+    { id: 'api', name: 'REST API', layer: 'application', technology: 'FastAPI', description: 'Validates requests and orchestrates scoring.' },
+    { id: 'auth', name: 'Auth Service', layer: 'application', technology: 'JWT', description: 'Login and role checks.' },
+    { id: 'model', name: 'Scoring Model', layer: 'ml', technology: 'scikit-learn', description: 'Random Forest with SHAP explanations.' },
+    { id: 'db', name: 'Primary Database', layer: 'data', technology: 'PostgreSQL', description: 'Records and prediction history.' },
+  ],
+  edges: [
+    { from: 'web', to: 'api', label: 'HTTPS/JSON' },
+    { from: 'api', to: 'auth', label: 'verify token' },
+    { from: 'api', to: 'model', label: 'predict' },
+    { from: 'api', to: 'db', label: 'SQL' },
+    { from: 'model', to: 'db', label: 'training data' },
+  ],
+};
+
+const BOM = {
+  items: [
+    { name: 'ESP32 DevKit V1', purpose: 'Reads sensors and sends data over Wi-Fi', quantity: 1, unitCost: 450, vendor: 'Robu.in' },
+    { name: 'DHT22 Temperature & Humidity Sensor', purpose: 'Ambient readings', quantity: 2, unitCost: 280, vendor: 'Robu.in' },
+    { name: 'Capacitive Soil Moisture Sensor', purpose: 'Field moisture readings', quantity: 3, unitCost: 90, vendor: 'Amazon' },
+    { name: '5V 2A Power Adapter', purpose: 'Powers the board', quantity: 1, unitCost: 220, vendor: 'Local electronics market' },
+    { name: 'Breadboard and Jumper Wire Kit', purpose: 'Prototyping connections', quantity: 1, unitCost: 250, vendor: 'Amazon' },
+  ],
+};
+
+const VIVA = {
+  questions: Array.from({ length: 10 }, (_, i) => ({
+    question: `Viva question ${i + 1}: Why did you choose this approach over the alternatives?`,
+    answerSimple: 'It balances accuracy, cost and the time we had available.',
+    answerAdvanced: 'We benchmarked three baselines; the chosen model gave the best F1 score under our compute budget.',
+  })),
+};
+
+const TASKS = {
+  phases: ['Research & Planning', 'Data & Modelling', 'Application Development', 'Testing & Documentation'].map((phase, p) => ({
+    parentTask: `Phase ${p + 1}: ${phase}`,
+    subtasks: [1, 2, 3].map(n => ({
+      title: `${phase} — step ${n}`,
+      description: `Complete step ${n} of ${phase.toLowerCase()}.`,
+      assignedTo: 'Unassigned',
+      status: 'todo',
+      deadline: `2026-0${3 + p}-${String(n * 7).padStart(2, '0')}`,
+      priority: n === 1 ? 'high' : 'medium',
+      complexity: 3,
+      estimatedHours: 8,
+      dependencies: n > 1 ? [`${phase} — step ${n - 1}`] : [],
+      tags: [phase.split(' ')[0].toLowerCase()],
+    })),
+  })),
+};
+
+/** Scores vary per idea so the comparison matrix has something to rank */
+function comparison(prompt: string) {
+  const count = (prompt.match(/IDEA \d+:/g) || []).length || 1;
+  const score = (i: number, offset: number) => ({
+    score: 4 + ((i * 3 + offset) % 6),
+    rationale: 'Mock rationale: judged from the idea summary against the team profile.',
+  });
+  return {
+    evaluations: Array.from({ length: count }, (_, i) => ({
+      index: i + 1,
+      feasibility: score(i, 0),
+      novelty: score(i, 2),
+      dataAvailability: score(i, 4),
+      hardwareCost: score(i, 1),
+      complexityFit: score(i, 3),
+    })),
+  };
+}
+
+const CHAT = `This is a **mock response** from the offline provider.
+
+- Your message was received and processed locally.
+- Switch to OpenRouter or a local OpenAI-compatible server in AI settings for real answers.`;
+
+/** Registry documents answer with their own structure, placeholders filled in */
+function additionalDocument(prompt: string): string | undefined {
+  const type = ADDITIONAL_DOCUMENT_TYPES.find(t => prompt.includes(t.spec.heading));
+  return type?.spec.structure.replace(/<([^>]+)>/g, (_, placeholder: string) => `Mock ${placeholder}`);
+}
+
+/** Pick the canned response for a request. Documentation, refinement, section, architecture and BOM prompts are told apart by their heading. */
+export function getMockResponse(purpose: AIPurpose, prompt: string): string {
+  switch (purpose) {
+    case 'ideas':
+      if (prompt.includes('REFINE IDEAS')) return JSON.stringify({ ideas: IDEAS.trending.slice(0, 2) });
+      return JSON.stringify(IDEAS);
+    case 'comparison': return JSON.stringify(comparison(prompt));
+    case 'guidance': {
+      if (prompt.includes('ARCHITECTURE MODEL')) return JSON.stringify(ARCHITECTURE);
+      if (prompt.includes('BILL OF MATERIALS')) return JSON.stringify(BOM);
+      const section = prompt.match(/REGENERATE GUIDANCE SECTION: (\w+)/)?.[1] as keyof typeof GUIDANCE | undefined;
+      return JSON.stringify(section ? { items: GUIDANCE[section] } : GUIDANCE);
+    }
+    case 'viva': return JSON.stringify(VIVA);
+    case 'tasks': return JSON.stringify(TASKS);
+    case 'docs':
+      if (additionalDocument(prompt)) return additionalDocument(prompt)!;
+      if (prompt.includes('PRODUCT REQUIREMENTS DOCUMENT')) return PRD;
+      if (prompt.includes('SYSTEM DESIGN DOCUMENT')) return SDD;
+      return ABSTRACT;
+    default: return CHAT;
+  }
+}
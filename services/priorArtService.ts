@@ -0,0 +1,193 @@
+import * as XLSX from 'xlsx';
+import { PriorArtMatch, PriorProject, Project } from '../types';
+import { tokenize } from './retrievalService';
+
+// ─── Prior-art Check ────────────────────────────────────────────────────────
+// Flags ideas that repeat past projects, fully offline. Past projects come from
+// an imported list (previous years' titles) plus the projects stored in the
+// app; ideas and past projects are compared as TF-IDF vectors by cosine
+// similarity, both on the full text and on titles alone.
+
+export const DUPLICATE_THRESHOLD = 0.6;
+export const SIMILAR_THRESHOLD = 0.35;
+const MAX_MATCHES = 5;
+
+// Words found in most project titles that say nothing about the idea itself
+const GENERIC_TERMS = new Set(['system', 'using', 'based', 'project', 'application', 'app', 'platform', 'smart', 'web', 'online']);
+
+function corpusKey(userId: string): string {
+  return `Plan Panni Pannuvom_prior_art_${userId}`;
+}
+
+// ─── Corpus Storage ─────────────────────────────────────────────────────────
+
+export function getCorpus(userId: string): PriorProject[] {
+  const raw = localStorage.getItem(corpusKey(userId));
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as PriorProject[];
+  } catch {
+    return [];
+  }
+}
+
+export function clearCorpus(userId: string): void {
+  localStorage.removeItem(corpusKey(userId));
+}
+
+function entryKey(entry: Pick<PriorProject, 'title' | 'year'>): string {
+  return `${entry.title.trim().toLowerCase()}|${entry.year || ''}`;
+}
+
+/** Add entries, skipping ones already present (same title and year). Returns how many were new. */
+export function importCorpus(userId: string, entries: PriorProject[]): number {
+  const existing = getCorpus(userId);
+  const seen = new Set(existing.map(entryKey));
+  const fresh = entries.filter(entry => {
+    const key = entryKey(entry);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  localStorage.setItem(corpusKey(userId), JSON.stringify([...existing, ...fresh]));
+  return fresh.length;
+}
+
+// ─── File Import ────────────────────────────────────────────────────────────
+
+// Header names are compared lower-cased with punctuation and spaces removed
+const COLUMN_ALIASES: Record<'title' | 'problemStatement' | 'solutionIdea' | 'year' | 'department', string[]> = {
+  title: ['title', 'projecttitle', 'project', 'projectname', 'name', 'topic'],
+  problemStatement: ['problemstatement', 'problem', 'abstract', 'description', 'summary'],
+  solutionIdea: ['solutionidea', 'solution', 'approach', 'methodology', 'proposedsolution'],
+  year: ['year', 'batch', 'academicyear'],
+  department: ['department', 'dept', 'branch'],
+};
+
+function rowToEntry(row: Record<string, unknown>): PriorProject | null {
+  const normalised = new Map(Object.entries(row).map(([key, value]) => [key.toLowerCase().replace(/[^a-z0-9]/g, ''), String(value ?? '').trim()]));
+  const pick = (field: keyof typeof COLUMN_ALIASES) =>
+    COLUMN_ALIASES[field].map(alias => normalised.get(alias)).find(value => !!value) || undefined;
+
+  const title = pick('title');
+  if (!title) return null;
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    title,
+    problemStatement: pick('problemStatement'),
+    solutionIdea: pick('solutionIdea'),
+    year: pick('year'),
+    department: pick('department'),
+    source: 'imported',
+  };
+}
+
+/** Read past projects from JSON (an array, or `{ projects: [...] }`), CSV or XLSX */
+export async function parseCorpusFile(file: File): Promise<PriorProject[]> {
+  let rows: Record<string, unknown>[];
+  if (file.name.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(await file.text());
+    rows = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.projects) ? parsed.projects : [];
+  } else {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    rows = sheet ? XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' }) : [];
+  }
+  const entries = rows.map(rowToEntry).filter((entry): entry is PriorProject => !!entry);
+  if (entries.length === 0) {
+    throw new Error('No projects found. The file needs a "title" column (or JSON objects with a "title" field).');
+  }
+  return entries;
+}
+
+/** Stored projects as prior art, so teams are warned about ideas already taken in the app */
+export function projectsAsPriorArt(projects: Project[]): PriorProject[] {
+  return projects.map(project => ({
+    id: project.id,
+    title: project.title,
+    problemStatement: project.problemStatement,
+    solutionIdea: project.solutionIdea,
+    source: 'app',
+  }));
+}
+
+// ─── TF-IDF Similarity ──────────────────────────────────────────────────────
+
+type Vector = Map<string, number>;
+
+export interface PriorArtIndex {
+  entries: PriorProject[];
+  documentFrequency: Map<string, number>;
+  fullVectors: Vector[];
+  titleVectors: Vector[];
+}
+
+function terms(text: string): string[] {
+  return tokenize(text).filter(token => token.length > 2 && !GENERIC_TERMS.has(token));
+}
+
+function vectorize(tokens: string[], index: Pick<PriorArtIndex, 'documentFrequency' | 'entries'>): Vector {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) || 0) + 1);
+
+  const n = index.entries.length;
+  const vector: Vector = new Map();
+  let norm = 0;
+  counts.forEach((count, term) => {
+    const idf = Math.log((n + 1) / ((index.documentFrequency.get(term) || 0) + 1)) + 1;
+    const weight = (1 + Math.log(count)) * idf;
+    vector.set(term, weight);
+    norm += weight * weight;
+  });
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+  return vector;
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => { dot += weight * (large.get(term) || 0); });
+  return dot;
+}
+
+function fullText(entry: Pick<PriorProject, 'title' | 'problemStatement' | 'solutionIdea'>): string {
+  return [entry.title, entry.problemStatement, entry.solutionIdea].filter(Boolean).join(' ');
+}
+
+export function buildPriorArtIndex(entries: PriorProject[]): PriorArtIndex {
+  const documentFrequency = new Map<string, number>();
+  const tokenized = entries.map(entry => terms(fullText(entry)));
+  for (const tokens of tokenized) {
+    new Set(tokens).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  }
+  const base = { entries, documentFrequency };
+  return {
+    ...base,
+    fullVectors: tokenized.map(tokens => vectorize(tokens, base)),
+    titleVectors: entries.map(entry => vectorize(terms(entry.title), base)),
+  };
+}
+
+/**
+ * Past projects resembling the idea, best first. The score is the higher of
+ * full-text and title-only similarity, so a reused title is caught even when
+ * the imported row has no description.
+ */
+export function findPriorArt(index: PriorArtIndex, idea: Partial<Project>): PriorArtMatch[] {
+  if (index.entries.length === 0 || !idea.title) return [];
+  const fullVector = vectorize(terms(fullText({ title: idea.title, problemStatement: idea.problemStatement, solutionIdea: idea.solutionIdea })), index);
+  const titleVector = vectorize(terms(idea.title), index);
+
+  const matches: PriorArtMatch[] = [];
+  index.entries.forEach((entry, i) => {
+    const score = Math.max(cosine(fullVector, index.fullVectors[i]), cosine(titleVector, index.titleVectors[i]));
+    if (score < SIMILAR_THRESHOLD) return;
+    const sharedTerms = [...fullVector.keys()]
+      .filter(term => index.fullVectors[i].has(term))
+      .sort((a, b) => fullVector.get(b)! * index.fullVectors[i].get(b)! - fullVector.get(a)! * index.fullVectors[i].get(a)!)
+      .slice(0, 5);
+    matches.push({ entry, score: Math.min(1, score), sharedTerms });
+  });
+  return matches.sort((a, b) => b.score - a.score).slice(0, MAX_MATCHES);
+}
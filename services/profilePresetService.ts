@@ -0,0 +1,155 @@
+import { Project, ProfilePreset, UserProfile } from '../types';
+
+// ─── Ideation Profiles ──────────────────────────────────────────────────────
+// The wizard's last profile and any named presets are stored per user, next
+// to `Plan Panni Pannuvom_projects_${userId}`.
+
+function presetsKey(userId: string): string {
+  return `Plan Panni Pannuvom_profile_presets_${userId}`;
+}
+
+function lastProfileKey(userId: string): string {
+  return `Plan Panni Pannuvom_last_profile_${userId}`;
+}
+
+export function getPresets(userId: string): ProfilePreset[] {
+  const raw = localStorage.getItem(presetsKey(userId));
+  if (!raw) return [];
+  try {
+    const presets = JSON.parse(raw) as ProfilePreset[];
+    return presets.sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+function writePresets(userId: string, presets: ProfilePreset[]): void {
+  localStorage.setItem(presetsKey(userId), JSON.stringify(presets));
+}
+
+/** Save under `name`, overwriting an existing preset with the same name (case-insensitive) */
+export function savePreset(userId: string, name: string, profile: UserProfile): ProfilePreset {
+  const now = new Date().toISOString();
+  const presets = getPresets(userId);
+  const existing = presets.find(p => p.name.toLowerCase() === name.trim().toLowerCase());
+  const preset: ProfilePreset = existing
+    ? { ...existing, profile, updatedAt: now }
+    : { id: Math.random().toString(36).substr(2, 9), name: name.trim(), profile, createdAt: now, updatedAt: now };
+  writePresets(userId, [...presets.filter(p => p.id !== preset.id), preset]);
+  return preset;
+}
+
+export function deletePreset(userId: string, presetId: string): void {
+  writePresets(userId, getPresets(userId).filter(p => p.id !== presetId));
+}
+
+export function getLastProfile(userId: string): UserProfile | null {
+  const raw = localStorage.getItem(lastProfileKey(userId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as UserProfile;
+  } catch {
+    return null;
+  }
+}
+
+export function saveLastProfile(userId: string, profile: UserProfile): void {
+  localStorage.setItem(lastProfileKey(userId), JSON.stringify(profile));
+}
+
+// ─── Profile & Idea Diffs ───────────────────────────────────────────────────
+
+const PROFILE_FIELD_LABELS: Record<keyof UserProfile, string> = {
+  academicLevel: 'Academic level',
+  department: 'Department',
+  semester: 'Semester',
+  skillLevel: 'Skill level',
+  domainInterests: 'Domain interests',
+  techPreferences: 'Tech preferences',
+  careerGoal: 'Career goal',
+  timeline: 'Timeline',
+  interestPrompt: 'Interest prompt',
+  projectType: 'Project type',
+  teamSize: 'Team size',
+  methodology: 'Methodology',
+  preferredComplexity: 'Complexity',
+  knowledgeAreas: 'Knowledge areas',
+  advisorGuidelines: 'Advisor guidelines',
+  budgetConstraint: 'Budget',
+  hasHardwareComponent: 'Hardware component',
+  targetPlatform: 'Target platform',
+  referenceProjects: 'Reference projects',
+};
+
+export interface ProfileChange {
+  field: keyof UserProfile;
+  label: string;
+  before: string;
+  after: string;
+}
+
+function formatProfileValue(value: UserProfile[keyof UserProfile]): string {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value ?? '').trim() || '—';
+}
+
+export function diffProfiles(before: UserProfile, after: UserProfile): ProfileChange[] {
+  return (Object.keys(PROFILE_FIELD_LABELS) as (keyof UserProfile)[])
+    .map(field => ({
+      field,
+      label: PROFILE_FIELD_LABELS[field],
+      before: formatProfileValue(before[field]),
+      after: formatProfileValue(after[field]),
+    }))
+    .filter(change => change.before !== change.after);
+}
+
+function titleTokens(title = ''): Set<string> {
+  return new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 2));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+// Title overlap (Jaccard) at which a regenerated idea counts as the same idea reworded
+const SAME_IDEA_THRESHOLD = 0.5;
+
+export interface IdeaSetDiff {
+  added: Partial<Project>[];
+  removed: Partial<Project>[];
+  /** Ideas present in both runs, paired with their earlier version */
+  kept: { previous: Partial<Project>; next: Partial<Project> }[];
+}
+
+/** Match each new idea to at most one previous idea by title overlap */
+export function diffIdeaSets(previous: Partial<Project>[], next: Partial<Project>[]): IdeaSetDiff {
+  const previousTokens = previous.map(idea => titleTokens(idea.title));
+  const unmatched = new Set(previous.map((_, i) => i));
+  const diff: IdeaSetDiff = { added: [], removed: [], kept: [] };
+
+  for (const idea of next) {
+    const tokens = titleTokens(idea.title);
+    let best = -1;
+    let bestScore = SAME_IDEA_THRESHOLD;
+    unmatched.forEach(i => {
+      const score = similarity(tokens, previousTokens[i]);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best >= 0) {
+      unmatched.delete(best);
+      diff.kept.push({ previous: previous[best], next: idea });
+    } else {
+      diff.added.push(idea);
+    }
+  }
+  unmatched.forEach(i => diff.removed.push(previous[i]));
+  return diff;
+}
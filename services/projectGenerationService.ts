@@ -0,0 +1,142 @@
+import { GenerationStep, Project, Task, TaskBreakdown, TaskComplexity, TaskPriority } from '../types';
+import { cleanDocumentText, DOC_KEYS, DocumentationProfile, geminiService } from './geminiService';
+import { GuidanceResult } from './responseSchemas';
+
+// ─── Project Generation Steps ───────────────────────────────────────────────
+// Creating a project from an idea runs five independent AI calls. Each may
+// fail on its own: the project is saved with whatever succeeded and the
+// failed steps are kept in `failedGenerations` so they can be retried later.
+
+export const GENERATION_STEP_LABELS: Record<GenerationStep, string> = {
+  abstract: 'Abstract',
+  prd: 'PRD',
+  designDoc: 'Design Doc',
+  guidance: 'Tech guidance',
+  tasks: 'Task breakdown',
+};
+
+/** Turn AI phases into parent tasks with linked subtasks */
+export function buildTasksFromBreakdowns(breakdowns: TaskBreakdown[], fallbackAssignee: string): Task[] {
+  return breakdowns.flatMap(breakdown => {
+    const parentTaskId = Math.random().toString(36).substr(2, 9);
+    const childIds = (breakdown.subtasks || []).map(() => Math.random().toString(36).substr(2, 9));
+    const parentTask: Task = {
+      id: parentTaskId,
+      title: breakdown.parentTask,
+      description: `Parent task for ${breakdown.parentTask}`,
+      assignedTo: fallbackAssignee,
+      status: 'todo',
+      deadline: 'No Deadline',
+      priority: TaskPriority.Medium,
+      priorityScore: 0,
+      complexity: TaskComplexity.Moderate,
+      estimatedHours: (breakdown.subtasks || []).reduce((sum, sub) => sum + (sub.estimatedHours || 0), 0),
+      dependencies: [],
+      subtasks: childIds,
+      tags: ['auto-generated'],
+    };
+
+    const subtasks: Task[] = (breakdown.subtasks || []).map((sub, idx) => ({
+      ...sub,
+      id: childIds[idx],
+      status: sub.status || 'todo',
+      priority: sub.priority || TaskPriority.Medium,
+      complexity: sub.complexity || TaskComplexity.Moderate,
+      priorityScore: 0,
+      dependencies: sub.dependencies || [],
+      subtasks: [],
+      tags: sub.tags || ['auto-generated'],
+      parentTaskId: parentTaskId,
+      estimatedHours: sub.estimatedHours || 4,
+      assignedTo: sub.assignedTo || fallbackAssignee,
+      deadline: sub.deadline || 'No Deadline',
+    }));
+
+    return [parentTask, ...subtasks];
+  });
+}
+
+export function guidanceFields(guidance: GuidanceResult): Pick<Project, 'techStack' | 'algorithms' | 'datasets' | 'roadmap' | 'implementationStrategy' | 'learningResources'> {
+  return {
+    techStack: guidance.techStack || [],
+    algorithms: guidance.algorithms || [],
+    datasets: guidance.datasets || [],
+    roadmap: guidance.roadmap || [],
+    implementationStrategy: guidance.implementationStrategy || '',
+    learningResources: guidance.learningResources || [],
+  };
+}
+
+export interface GenerationContext {
+  profile: DocumentationProfile;
+  /** Names the task breakdown may assign work to */
+  teamMembers: string[];
+  fallbackAssignee: string;
+}
+
+async function runStep(step: GenerationStep, project: Project, context: GenerationContext): Promise<Partial<Project>> {
+  if (step === 'guidance') {
+    return guidanceFields(await geminiService.generateGuidance(project));
+  }
+  if (step === 'tasks') {
+    const breakdowns = await geminiService.generateTaskBreakdown(project, context.teamMembers);
+    return { tasks: buildTasksFromBreakdowns(breakdowns, context.fallbackAssignee) };
+  }
+  let text = '';
+  for await (const delta of geminiService.streamDocument(step, project, context.profile)) {
+    text += delta;
+  }
+  return { [step]: cleanDocumentText(text) };
+}
+
+/** What a retry produced; `tasks` in `fields` are new tasks, added to the existing ones */
+export interface RetryResult {
+  fields: Partial<Project>;
+  failedGenerations?: GenerationStep[];
+}
+
+/**
+ * Re-run the project's failed steps. Documents and guidance run together;
+ * tasks wait for guidance because the breakdown is based on the tech stack.
+ * Only the regenerated fields are returned, since the project may change while
+ * the steps run; write them back with `applyRetryResult`.
+ */
+export async function retryFailedGenerations(project: Project, context: GenerationContext): Promise<RetryResult> {
+  const pending = project.failedGenerations || [];
+  // Later steps are prompted with what earlier ones produced
+  let working: Project = { ...project };
+  let fields: Partial<Project> = {};
+  const stillFailing: GenerationStep[] = [];
+
+  const apply = (steps: GenerationStep[], results: PromiseSettledResult<Partial<Project>>[]) => {
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        working = { ...working, ...result.value };
+        fields = { ...fields, ...result.value };
+      } else {
+        console.warn(`Retrying ${steps[i]} failed:`, result.reason);
+        stillFailing.push(steps[i]);
+      }
+    });
+  };
+
+  const firstPass = pending.filter(step => step !== 'tasks');
+  apply(firstPass, await Promise.allSettled(firstPass.map(step => runStep(step, working, context))));
+  if (pending.includes('tasks')) {
+    apply(['tasks'], await Promise.allSettled([runStep('tasks', working, context)]));
+  }
+
+  // Order follows the creation flow so the banner reads consistently
+  const order: GenerationStep[] = [...DOC_KEYS, 'guidance', 'tasks'];
+  const failedGenerations = order.filter(step => stillFailing.includes(step));
+  return { fields, failedGenerations: failedGenerations.length > 0 ? failedGenerations : undefined };
+}
+
+export function applyRetryResult(project: Project, { fields, failedGenerations }: RetryResult): Project {
+  return {
+    ...project,
+    ...fields,
+    tasks: fields.tasks ? [...project.tasks, ...fields.tasks] : project.tasks,
+    failedGenerations,
+  };
+}
@@ -0,0 +1,458 @@
+import { AdditionalDocKey, Project, PromptTemplateId, PromptTemplateVersion, UserProfile } from '../types';
+import { getCurrentUser } from './authService';
+import { ADDITIONAL_DOCUMENT_TYPES, DocumentType } from './documentTypes';
+import { referencesForPrompt } from './citationService';
+
+// ─── Prompt Templates ───────────────────────────────────────────────────────
+// Generator prompts are named templates with {{variable}} placeholders. The
+// shipped prompts below are the defaults; users can save edited versions,
+// which are kept as a history so any earlier version can be restored, and
+// share them between accounts as JSON.
+
+export interface PromptTemplateDefinition {
+  name: string;
+  description: string;
+  system: string;
+  user: string;
+}
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+export const PROMPT_VARIABLES: PromptVariable[] = [
+  { name: 'project.title', description: 'Project title' },
+  { name: 'project.problemStatement', description: 'Problem statement' },
+  { name: 'project.innovationAngle', description: 'Innovation angle / techniques' },
+  { name: 'project.solutionIdea', description: 'Proposed solution' },
+  { name: 'project.techStack', description: 'Tech stack names, comma separated' },
+  { name: 'project.roadmap', description: 'Roadmap milestone titles joined with →' },
+  { name: 'project.abstract', description: 'Current abstract text' },
+  { name: 'project.requirements', description: 'FR lines from the current PRD' },
+  { name: 'project.algorithms', description: 'Algorithm names, comma separated' },
+  { name: 'project.datasets', description: 'Dataset names, comma separated' },
+  { name: 'project.references', description: 'Reference library, one [@citeKey] entry per line' },
+  { name: 'profile.department', description: 'Student department / domain' },
+  { name: 'profile.techPreferences', description: 'Preferred technologies, comma separated' },
+  { name: 'team.size', description: 'Number of team members' },
+  { name: 'team.members', description: 'Team member names, comma separated' },
+];
+
+const EXPORT_FORMAT = 'plan-panni-pannuvom-prompt-templates';
+
+/** Default template for a registry document: its inputs, rules and structure laid out like the hand-written ones */
+function documentTemplate(type: DocumentType & { spec: NonNullable<DocumentType['spec']> }): PromptTemplateDefinition {
+  const { heading, role, inputs, rules, structure } = type.spec;
+  return {
+    name: type.title,
+    description: type.description,
+    system: `${role} Return ONLY the formatted document text. No JSON. No markdown code fences.`,
+    user: `Generate a ${heading} in a STRICTLY STRUCTURED FORMAT.
+
+INPUT:
+${inputs.map(input => `- ${input.label}: {{${input.variable}}}`).join('\n')}
+
+FORMAT RULES (MANDATORY):
+${rules.map(rule => `- ${rule}`).join('\n')}
+
+DOCUMENT STRUCTURE (follow this EXACTLY, replacing every <placeholder>):
+
+${structure}`,
+  };
+}
+
+const ADDITIONAL_DOCUMENT_PROMPTS = Object.fromEntries(
+  ADDITIONAL_DOCUMENT_TYPES.map(type => [`docs.${type.key}`, documentTemplate(type)])
+) as Record<`docs.${AdditionalDocKey}`, PromptTemplateDefinition>;
+
+export const DEFAULT_PROMPTS: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  'docs.abstract': {
+    name: 'Abstract',
+    description: 'Structured academic abstract with uppercase section labels',
+    system: 'You are an expert academic writer. Return ONLY the formatted document text. No JSON. No markdown code fences.',
+    user: `You are an academic research assistant.
+Generate an ACADEMIC ABSTRACT in a STRICTLY STRUCTURED FORMAT.
+
+PROJECT DETAILS:
+- Title: {{project.title}}
+- Domain: {{profile.department}}
+- Problem Statement: {{project.problemStatement}}
+- Techniques: {{project.innovationAngle}}
+- Expected Outcome: {{project.solutionIdea}}
+
+FORMAT RULES (MANDATORY):
+- Use EXACTLY the following section labels in UPPERCASE followed by a colon
+- Each section must be 2-3 sentences
+- DO NOT merge sections into one paragraph
+- DO NOT add extra headings
+- Separate each section with a blank line
+
+OUTPUT FORMAT (follow this EXACTLY, return ONLY the formatted text below, no JSON, no code fences):
+
+BACKGROUND:
+<2-3 sentences about domain context>
+
+PROBLEM STATEMENT:
+<2-3 sentences defining the core problem>
+
+PROPOSED SOLUTION:
+<2-3 sentences describing the proposed approach>
+
+METHODOLOGY:
+<2-3 sentences on techniques, algorithms, and tools used>
+
+EXPECTED RESULTS:
+<2-3 sentences on anticipated outcomes and impact>`,
+  },
+  'docs.prd': {
+    name: 'Product Requirements Document',
+    description: 'Numbered PRD with functional and non-functional requirements',
+    system: 'You are a senior system analyst. Return ONLY the formatted document text. No JSON. No markdown code fences.',
+    user: `You are a senior system analyst.
+Generate a PRODUCT REQUIREMENTS DOCUMENT (PRD) in a STRICT, NUMBERED, OFFICIAL FORMAT.
+
+PROJECT:
+- Title: {{project.title}}
+- Problem: {{project.problemStatement}}
+- Solution: {{project.solutionIdea}}
+- Target Users: Students, researchers, and relevant industry professionals
+- Constraints: 6 Months timeline, limited compute resources
+
+FORMAT RULES (MANDATORY):
+- Use numbered headings EXACTLY as given below
+- Use bullet points (- ) for all requirements and list items
+- DO NOT write continuous paragraphs
+- Each requirement MUST be on its own line
+- Separate major sections with blank lines
+- Return ONLY the formatted document text, no JSON, no code fences
+
+DOCUMENT STRUCTURE (follow this EXACTLY):
+
+1. Introduction
+
+1.1 Purpose
+- <bullet point>
+
+1.2 Intended Audience
+- <bullet point>
+
+1.3 Project Overview
+- <bullet point>
+
+2. Problem Definition
+
+2.1 Existing System
+- <bullet point>
+
+2.2 Limitations of Existing System
+- <bullet point list>
+
+2.3 Proposed System
+- <bullet point>
+
+3. Functional Requirements
+- FR1: <requirement>
+- FR2: <requirement>
+- FR3: <requirement>
+- FR4: <requirement>
+
+4. Non-Functional Requirements
+
+4.1 Performance
+- <bullet point>
+
+4.2 Scalability
+- <bullet point>
+
+4.3 Security
+- <bullet point>
+
+4.4 Usability
+- <bullet point>
+
+5. Assumptions & Dependencies
+- <bullet points>
+
+6. Constraints
+- <bullet points>
+
+7. Success Criteria
+- <bullet points>`,
+  },
+  'docs.designDoc': {
+    name: 'System Design Document',
+    description: 'Numbered SDD covering architecture, modules and data flow',
+    system: 'You are a software architect. Return ONLY the formatted document text. No JSON. No markdown code fences.',
+    user: `You are a software architect.
+Generate a SYSTEM DESIGN DOCUMENT (SDD) in a STRICTLY STRUCTURED FORMAT.
+
+INPUT:
+- Project Title: {{project.title}}
+- Problem: {{project.problemStatement}}
+- Solution: {{project.solutionIdea}}
+- Tech Stack: {{profile.techPreferences}}
+- AI/ML Models: {{project.innovationAngle}}
+
+FORMAT RULES (MANDATORY):
+- Use numbered headings EXACTLY as given
+- Use bullet points (- ) for module descriptions
+- Use arrow notation (→) for data flow steps
+- DO NOT write paragraph-only explanations
+- Separate sections with blank lines
+- Return ONLY the formatted document text, no JSON, no code fences
+
+DOCUMENT STRUCTURE (follow this EXACTLY):
+
+1. System Overview
+- <bullet point description>
+
+2. System Architecture
+
+2.1 High-Level Architecture
+- <bullet point describing architecture layers>
+
+2.2 Component Description
+- <bullet point per component>
+
+3. Module Design
+
+3.1 User Interface Module
+- <bullet points>
+
+3.2 Backend Processing Module
+- <bullet points>
+
+3.3 AI/ML Processing Module
+- <bullet points>
+
+3.4 Database Module
+- <bullet points>
+
+4. Data Flow Description
+- Step 1 → <description>
+- Step 2 → <description>
+- Step 3 → <description>
+- Step 4 → <description>
+
+5. Workflow Description
+- <bullet points describing the end-to-end workflow>
+
+6. Technology Stack Justification
+- <bullet point per technology choice with justification>
+
+7. Security Considerations
+- <bullet points>
+
+8. Scalability & Future Enhancements
+- <bullet points>`,
+  },
+  ...ADDITIONAL_DOCUMENT_PROMPTS,
+  'guidance': {
+    name: 'Technical Guidance',
+    description: 'Tech stack, algorithms, datasets, roadmap and resources. Keep the JSON structure intact.',
+    system: `You are a Senior Technical Consultant with deep expertise in software architecture, AI/ML, and academic project planning. You always respond with valid JSON only.`,
+    user: `Provide a detailed technical blueprint for: "{{project.title}}".
+The guidance MUST be highly specific to this project title and its core domain.
+
+Sections Required:
+1. Modern Tech Stack: Specific frameworks and libraries with their architectural roles.
+2. Algorithms: At least 3 specific mathematical/AI/ML algorithms with detailed implementation logic.
+3. Datasets & Data Sources: Suggest real-world datasets (Kaggle, UCI, GitHub) or API sources for training/testing.
+4. Architecture & Strategy: A multi-layered description of the system architecture (UI -> Backend -> ML Pipeline -> Data Storage).
+5. Modular Roadmap: 4 phases of execution.
+6. Deep Dive Learning: Links to documentation, research papers, and tutorials.
+
+Return as a JSON object with this exact structure:
+{
+  "techStack": [{ "name": "...", "role": "...", "description": "..." }],
+  "algorithms": [{ "name": "...", "description": "...", "implementationLogic": "..." }],
+  "datasets": [{ "name": "...", "source": "...", "url": "...", "description": "..." }],
+  "implementationStrategy": "...",
+  "roadmap": [{ "phase": "...", "title": "...", "duration": "...", "description": "..." }],
+  "learningResources": [{ "title": "...", "url": "...", "type": "documentation|tutorial|paper|course", "description": "..." }]
+}`,
+  },
+  'tasks': {
+    name: 'Task Breakdown',
+    description: 'Phased, dependency-aware task plan. Keep the JSON structure intact.',
+    system: `You are a senior project manager and software engineering lead specializing in academic project planning. You break down complex projects into well-defined, dependency-aware tasks with accurate time estimates. You always respond with valid JSON only.`,
+    user: `Break down the following academic project into granular, actionable tasks for a team of {{team.size}} members: {{team.members}}.
+
+Project Title: {{project.title}}
+Problem Statement: {{project.problemStatement}}
+Tech Stack: {{project.techStack}}
+Roadmap Phases: {{project.roadmap}}
+
+For EACH major project phase, create a parent task and break it into 3-5 subtasks.
+
+RULES:
+- Every task MUST have: title, description, assignedTo (pick from team), deadline (YYYY-MM-DD format, spread over 6 months from 2026-02-09), priority (critical/high/medium/low), complexity (1=trivial, 2=simple, 3=moderate, 5=complex, 8=epic), estimatedHours, tags, dependencies (list of other task titles this depends on)
+- Use realistic time estimates (2-40 hours per task)
+- Create meaningful dependency chains (e.g., "Design DB Schema" must come before "Implement Backend API")
+- Assign tasks balanced across team members
+- Include at least 4 parent phases with 3-5 subtasks each
+
+Return a JSON object:
+{
+  "phases": [
+    {
+      "parentTask": "Phase 1: Research & Planning",
+      "subtasks": [
+        {
+          "title": "...",
+          "description": "...",
+          "assignedTo": "...",
+          "status": "todo",
+          "deadline": "YYYY-MM-DD",
+          "priority": "high",
+          "complexity": 3,
+          "estimatedHours": 10,
+          "dependencies": [],
+          "tags": ["research", "planning"]
+        }
+      ]
+    }
+  ]
+}`,
+  },
+};
+
+// ─── Storage ────────────────────────────────────────────────────────────────
+
+type TemplateStore = Partial<Record<PromptTemplateId, PromptTemplateVersion[]>>;
+
+function storageKey(): string {
+  return `Plan Panni Pannuvom_prompt_templates_${getCurrentUser()?.id || 'anonymous'}`;
+}
+
+function readStore(): TemplateStore {
+  const raw = localStorage.getItem(storageKey());
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as TemplateStore;
+  } catch {
+    return {};
+  }
+}
+
+function writeStore(store: TemplateStore): void {
+  localStorage.setItem(storageKey(), JSON.stringify(store));
+}
+
+/** Saved versions, oldest first; empty while the shipped default is in use */
+export function getTemplateHistory(id: PromptTemplateId): PromptTemplateVersion[] {
+  return readStore()[id] || [];
+}
+
+export function getActiveTemplate(id: PromptTemplateId): { system: string; user: string; version: number | null } {
+  const history = getTemplateHistory(id);
+  const latest = history[history.length - 1];
+  return latest
+    ? { system: latest.system, user: latest.user, version: latest.version }
+    : { system: DEFAULT_PROMPTS[id].system, user: DEFAULT_PROMPTS[id].user, version: null };
+}
+
+export function saveTemplateVersion(id: PromptTemplateId, content: { system: string; user: string }, note: string): PromptTemplateVersion {
+  const store = readStore();
+  const history = store[id] || [];
+  const version: PromptTemplateVersion = {
+    version: (history[history.length - 1]?.version || 0) + 1,
+    system: content.system,
+    user: content.user,
+    note: note.trim(),
+    createdAt: new Date().toISOString(),
+    createdBy: getCurrentUser()?.fullName || 'Unknown',
+  };
+  store[id] = [...history, version];
+  writeStore(store);
+  return version;
+}
+
+/** Reverting is recorded as a new version so the edited history is kept */
+export function resetTemplate(id: PromptTemplateId): PromptTemplateVersion {
+  const { system, user } = DEFAULT_PROMPTS[id];
+  return saveTemplateVersion(id, { system, user }, 'Reset to shipped default');
+}
+
+// ─── Rendering ──────────────────────────────────────────────────────────────
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export type PromptContext = Record<string, string>;
+
+export function buildPromptContext(
+  project: Partial<Project>,
+  profile?: Pick<UserProfile, 'department' | 'techPreferences'>,
+  teamMembers: string[] = []
+): PromptContext {
+  return {
+    'project.title': project.title || '',
+    'project.problemStatement': project.problemStatement || '',
+    'project.innovationAngle': project.innovationAngle || '',
+    'project.solutionIdea': project.solutionIdea || '',
+    'project.techStack': project.techStack?.map(t => t.name).join(', ') || 'To be decided',
+    'project.roadmap': project.roadmap?.map(m => m.title).join(' → ') || 'Standard 4-phase',
+    'project.abstract': project.abstract || 'Not written yet',
+    'project.requirements': (project.prd || '').split('\n').map(line => line.trim()).filter(line => /FR\d+:/.test(line)).join('\n') || 'Not written yet',
+    'project.algorithms': project.algorithms?.map(a => a.name).join(', ') || 'To be decided',
+    'project.datasets': project.datasets?.map(d => d.name).join(', ') || 'To be decided',
+    'project.references': referencesForPrompt(project.references || []),
+    'profile.department': profile?.department || '',
+    'profile.techPreferences': profile?.techPreferences.join(', ') || 'React, Node.js, Python, MongoDB',
+    'team.size': String(teamMembers.length),
+    'team.members': teamMembers.join(', '),
+  };
+}
+
+export function renderTemplate(text: string, context: PromptContext): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => context[name] ?? placeholder);
+}
+
+/** Placeholders that don't match a known variable, for warnings in the editor */
+export function findUnknownVariables(text: string): string[] {
+  const known = new Set(PROMPT_VARIABLES.map(v => v.name));
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map(m => m[1]))].filter(name => !known.has(name));
+}
+
+export function renderPrompt(id: PromptTemplateId, context: PromptContext): { system: string; user: string } {
+  const template = getActiveTemplate(id);
+  return {
+    system: renderTemplate(template.system, context),
+    user: renderTemplate(template.user, context),
+  };
+}
+
+// ─── Import / Export ────────────────────────────────────────────────────────
+
+export function buildTemplateExport(): object {
+  return {
+    format: EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    templates: readStore(),
+  };
+}
+
+/**
+ * Append the latest version of each imported template as a new local version.
+ * Returns how many templates changed; throws on files that aren't template exports.
+ */
+export function importTemplates(json: string): number {
+  const data = JSON.parse(json);
+  if (data?.format !== EXPORT_FORMAT || typeof data.templates !== 'object') {
+    throw new Error('Not a prompt template export file');
+  }
+
+  let imported = 0;
+  for (const id of Object.keys(DEFAULT_PROMPTS) as PromptTemplateId[]) {
+    const versions = data.templates[id];
+    const latest = Array.isArray(versions) ? versions[versions.length - 1] : null;
+    if (!latest || typeof latest.system !== 'string' || typeof latest.user !== 'string') continue;
+
+    const current = getActiveTemplate(id);
+    if (current.system === latest.system && current.user === latest.user) continue;
+    saveTemplateVersion(id, latest, `Imported${latest.note ? `: ${latest.note}` : ''}`);
+    imported++;
+  }
+  return imported;
+}
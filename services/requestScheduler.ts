@@ -0,0 +1,239 @@
+import { AIPurpose } from '../types';
+
+// ─── AI Request Scheduler ───────────────────────────────────────────────────
+// Every network completion goes through one queue so bursts (project creation
+// fires five generators at once) stay under provider rate limits. Transient
+// failures — 429, 5xx and dropped connections — are retried with exponential
+// backoff and jitter; anything else fails on the first attempt.
+
+const MAX_CONCURRENT = 2;
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+
+/** A failed HTTP exchange with the model server; `status` is 0 when no response arrived */
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/** Parse a Retry-After header, which is either delta-seconds or an HTTP date */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export type ScheduledJobState = 'queued' | 'running' | 'retrying';
+
+export interface ScheduledJob {
+  id: string;
+  purpose: AIPurpose;
+  state: ScheduledJobState;
+  attempt: number;
+  /** Epoch ms when a retrying job will be dispatched again */
+  retryAt?: number;
+  lastError?: string;
+}
+
+export interface SchedulerSnapshot {
+  jobs: ScheduledJob[];
+  /** Jobs finished since the queue was last empty, for progress display */
+  completed: number;
+  failed: number;
+  maxAttempts: number;
+}
+
+// ─── Queue State ────────────────────────────────────────────────────────────
+
+type SchedulerListener = (snapshot: SchedulerSnapshot) => void;
+
+const jobs = new Map<string, ScheduledJob>();
+const listeners = new Set<SchedulerListener>();
+const waiting: (() => void)[] = [];
+let running = 0;
+let completed = 0;
+let failed = 0;
+/** Set by a 429 so queued jobs back off together instead of hammering the server */
+let cooldownUntil = 0;
+
+function snapshot(): SchedulerSnapshot {
+  return { jobs: [...jobs.values()].map(job => ({ ...job })), completed, failed, maxAttempts: MAX_ATTEMPTS };
+}
+
+function notify() {
+  const current = snapshot();
+  listeners.forEach(fn => fn(current));
+}
+
+export function subscribeScheduler(listener: SchedulerListener): () => void {
+  listeners.add(listener);
+  listener(snapshot());
+  return () => listeners.delete(listener);
+}
+
+function addJob(purpose: AIPurpose): ScheduledJob {
+  const job: ScheduledJob = { id: Math.random().toString(36).substr(2, 9), purpose, state: 'queued', attempt: 0 };
+  jobs.set(job.id, job);
+  notify();
+  return job;
+}
+
+function updateJob(job: ScheduledJob, patch: Partial<ScheduledJob>) {
+  Object.assign(job, patch);
+  notify();
+}
+
+function finishJob(job: ScheduledJob, succeeded: boolean) {
+  jobs.delete(job.id);
+  if (succeeded) completed++;
+  else failed++;
+  notify();
+  if (jobs.size === 0) {
+    completed = 0;
+    failed = 0;
+  }
+}
+
+// ─── Slots & Delays ─────────────────────────────────────────────────────────
+
+function abortError(): DOMException {
+  return new DOMException('Aborted', 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function acquireSlot(signal?: AbortSignal): Promise<void> {
+  while (Date.now() < cooldownUntil) {
+    await sleep(cooldownUntil - Date.now(), signal);
+  }
+  if (signal?.aborted) throw abortError();
+  if (running < MAX_CONCURRENT) {
+    running++;
+    return;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      running++;
+      resolve();
+    };
+    const onAbort = () => {
+      const index = waiting.indexOf(grant);
+      if (index >= 0) waiting.splice(index, 1);
+      reject(abortError());
+    };
+    waiting.push(grant);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function releaseSlot() {
+  running--;
+  waiting.shift()?.();
+}
+
+/** Milliseconds to wait before the next attempt, or null when the error is not transient */
+function retryDelay(err: unknown, attempt: number): number | null {
+  if (attempt >= MAX_ATTEMPTS || !(err instanceof LLMRequestError)) return null;
+  if (err.status !== 0 && err.status !== 429 && err.status < 500) return null;
+
+  const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  const delay = err.retryAfterMs !== undefined
+    ? Math.min(MAX_DELAY_MS, err.retryAfterMs)
+    : backoff / 2 + Math.random() * (backoff / 2);
+  if (err.status === 429) cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+  return delay;
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof LLMRequestError) return err.status ? `HTTP ${err.status}` : 'Connection failed';
+  return err instanceof Error ? err.message : String(err);
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/** Run a completion once a slot is free, retrying transient failures */
+export async function scheduleRequest<T>(purpose: AIPurpose, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const job = addJob(purpose);
+  try {
+    for (let attempt = 1; ; attempt++) {
+      await acquireSlot(signal);
+      updateJob(job, { state: 'running', attempt, retryAt: undefined });
+      let delay = 0;
+      try {
+        const result = await task();
+        finishJob(job, true);
+        return result;
+      } catch (err) {
+        const next = retryDelay(err, attempt);
+        if (next === null) throw err;
+        delay = next;
+        updateJob(job, { state: 'retrying', retryAt: Date.now() + delay, lastError: errorMessage(err) });
+      } finally {
+        releaseSlot();
+      }
+      await sleep(delay, signal);
+      updateJob(job, { state: 'queued' });
+    }
+  } catch (err) {
+    finishJob(job, false);
+    throw err;
+  }
+}
+
+/**
+ * Streaming counterpart of `scheduleRequest`. The slot is held until the
+ * stream ends; a failure is only retried before the first chunk, since the
+ * caller has already shown whatever came through.
+ */
+export async function* scheduleStream(purpose: AIPurpose, start: () => AsyncIterable<string>, signal?: AbortSignal): AsyncIterable<string> {
+  const job = addJob(purpose);
+  let succeeded = true;
+  try {
+    for (let attempt = 1; ; attempt++) {
+      await acquireSlot(signal);
+      updateJob(job, { state: 'running', attempt, retryAt: undefined });
+      let started = false;
+      let delay = 0;
+      try {
+        for await (const chunk of start()) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (err) {
+        const next = started ? null : retryDelay(err, attempt);
+        if (next === null) throw err;
+        delay = next;
+        updateJob(job, { state: 'retrying', retryAt: Date.now() + delay, lastError: errorMessage(err) });
+      } finally {
+        releaseSlot();
+      }
+      await sleep(delay, signal);
+      updateJob(job, { state: 'queued' });
+    }
+  } catch (err) {
+    succeeded = false;
+    throw err;
+  } finally {
+    finishJob(job, succeeded);
+  }
+}
@@ -0,0 +1,214 @@
+import { ArchitectureLayer, Dataset, GuidanceSection, IdeaCriterion, IdeaCriterionScore, LearningResource, Milestone, Project, Source, Task, TaskBreakdown, TechComponent, VivaQuestion } from '../types';
+import { array, complexity, number, object, oneOf, optional, priority, randomId, Schema, string } from './aiSchema';
+
+// ─── Response Schemas ───────────────────────────────────────────────────────
+// One schema per generator in geminiService. They mirror the JSON structures
+// spelled out in the prompts (see promptTemplates); keep the two in sync when editing either.
+
+export type IdeaDraft = Pick<Project, 'title' | 'problemStatement' | 'innovationAngle' | 'solutionIdea'>;
+
+const ideaSchema = object<IdeaDraft>({
+  title: string(),
+  problemStatement: string(),
+  innovationAngle: string(),
+  solutionIdea: string(),
+});
+
+/** A freshly generated idea with the papers, datasets or problem statements it draws on */
+export type GeneratedIdea = IdeaDraft & { sources: Source[] };
+
+const generatedIdeaSchema = object<GeneratedIdea>({
+  title: string(),
+  problemStatement: string(),
+  innovationAngle: string(),
+  solutionIdea: string(),
+  sources: optional(array(object<Source>({
+    title: string(),
+    uri: string(),
+  }), { max: 4 }), () => []),
+});
+
+export const IDEAS_SCHEMA = object<{ academic: GeneratedIdea[]; trending: GeneratedIdea[] }>({
+  academic: array(generatedIdeaSchema, { min: 3, max: 3 }),
+  trending: array(generatedIdeaSchema, { min: 3, max: 3 }),
+});
+
+export const REFINED_IDEAS_SCHEMA = object<{ ideas: IdeaDraft[] }>({
+  ideas: array(ideaSchema, { min: 1, max: 5 }),
+});
+
+const criterionScoreSchema = object<IdeaCriterionScore>({
+  score: number({ min: 1, max: 10 }),
+  rationale: string(),
+});
+
+/** One scored idea; `index` is the 1-based position of the idea in the prompt */
+export type IdeaComparisonEntry = { index: number } & Record<IdeaCriterion, IdeaCriterionScore>;
+
+export const IDEA_COMPARISON_SCHEMA = object<{ evaluations: IdeaComparisonEntry[] }>({
+  evaluations: array(object<IdeaComparisonEntry>({
+    index: number({ min: 1 }),
+    feasibility: criterionScoreSchema,
+    novelty: criterionScoreSchema,
+    dataAvailability: criterionScoreSchema,
+    hardwareCost: criterionScoreSchema,
+    complexityFit: criterionScoreSchema,
+  }), { min: 1 }),
+});
+
+export const TECH_STACK_SCHEMA: Schema<TechComponent[]> = array(object<TechComponent>({
+  name: string(),
+  role: string(),
+  description: optional(string(), () => ''),
+}), { min: 1 });
+
+export type Algorithm = Project['algorithms'][number];
+
+export const ALGORITHMS_SCHEMA: Schema<Algorithm[]> = array(object<Algorithm>({
+  name: string(),
+  description: string(),
+  implementationLogic: string(),
+}), { min: 1 });
+
+export const DATASETS_SCHEMA: Schema<Dataset[]> = array(object<Dataset>({
+  name: string(),
+  source: string(),
+  url: optional(string(), () => ''),
+  description: optional(string(), () => ''),
+}));
+
+export const ROADMAP_SCHEMA: Schema<Milestone[]> = array(object<Milestone>({
+  id: optional(string(), randomId),
+  phase: string(),
+  title: string(),
+  duration: string(),
+  description: optional(string(), () => ''),
+}), { min: 1 });
+
+export const LEARNING_RESOURCES_SCHEMA: Schema<LearningResource[]> = array(object<LearningResource>({
+  title: string(),
+  url: string(),
+  type: oneOf<LearningResource['type']>(['documentation', 'tutorial', 'paper', 'course'], {
+    docs: 'documentation',
+    video: 'tutorial',
+    article: 'tutorial',
+    research: 'paper',
+    mooc: 'course',
+  }),
+  description: optional(string(), () => ''),
+}));
+
+export interface GuidanceResult {
+  techStack: TechComponent[];
+  algorithms: Algorithm[];
+  datasets: Dataset[];
+  roadmap: Milestone[];
+  implementationStrategy: string;
+  learningResources: LearningResource[];
+}
+
+export const GUIDANCE_SCHEMA = object<GuidanceResult>({
+  techStack: TECH_STACK_SCHEMA,
+  algorithms: ALGORITHMS_SCHEMA,
+  datasets: DATASETS_SCHEMA,
+  roadmap: ROADMAP_SCHEMA,
+  implementationStrategy: string(),
+  learningResources: LEARNING_RESOURCES_SCHEMA,
+});
+
+export interface GuidanceSectionItems {
+  techStack: TechComponent[];
+  algorithms: Algorithm[];
+  datasets: Dataset[];
+  roadmap: Milestone[];
+}
+
+/** Regenerating one section returns just that section's items under "items" */
+export const GUIDANCE_SECTION_SCHEMAS: { [K in GuidanceSection]: Schema<{ items: GuidanceSectionItems[K] }> } = {
+  techStack: object({ items: TECH_STACK_SCHEMA }),
+  algorithms: object({ items: ALGORITHMS_SCHEMA }),
+  datasets: object({ items: DATASETS_SCHEMA }),
+  roadmap: object({ items: ROADMAP_SCHEMA }),
+};
+
+export interface ArchitectureDraft {
+  components: { id: string; name: string; layer: ArchitectureLayer; technology: string; description: string }[];
+  edges: { from: string; to: string; label: string }[];
+}
+
+export const ARCHITECTURE_SCHEMA = object<ArchitectureDraft>({
+  components: array(object<ArchitectureDraft['components'][number]>({
+    id: string(),
+    name: string(),
+    layer: oneOf<ArchitectureLayer>(['presentation', 'application', 'ml', 'data', 'external'], {
+      ui: 'presentation',
+      frontend: 'presentation',
+      client: 'presentation',
+      backend: 'application',
+      api: 'application',
+      service: 'application',
+      ai: 'ml',
+      model: 'ml',
+      'ml pipeline': 'ml',
+      database: 'data',
+      storage: 'data',
+      'third-party': 'external',
+      integration: 'external',
+    }),
+    technology: optional(string(), () => ''),
+    description: optional(string(), () => ''),
+  }), { min: 2 }),
+  edges: array(object<ArchitectureDraft['edges'][number]>({
+    from: string(),
+    to: string(),
+    label: optional(string(), () => ''),
+  })),
+});
+
+export interface BomDraft {
+  name: string;
+  purpose: string;
+  quantity: number;
+  unitCost: number;
+  vendor: string;
+}
+
+export const BOM_SCHEMA = object<{ items: BomDraft[] }>({
+  items: array(object<BomDraft>({
+    name: string(),
+    purpose: optional(string(), () => ''),
+    quantity: optional(number({ min: 1 }), () => 1),
+    unitCost: number({ min: 0 }),
+    vendor: optional(string(), () => ''),
+  }), { min: 1 }),
+});
+
+export const VIVA_SCHEMA = object<{ questions: VivaQuestion[] }>({
+  questions: array(object<VivaQuestion>({
+    question: string(),
+    answerSimple: string(),
+    answerAdvanced: string(),
+  }), { min: 5, max: 10 }),
+});
+
+type Subtask = TaskBreakdown['subtasks'][number];
+
+const subtaskSchema = object<Subtask>({
+  title: string(),
+  description: optional(string(), () => ''),
+  assignedTo: optional(string(), () => 'Unassigned'),
+  status: optional(oneOf<Task['status']>(['todo', 'in-progress', 'done', 'blocked']), () => 'todo'),
+  deadline: optional(string(), () => 'No Deadline'),
+  priority: priority(),
+  complexity: complexity(),
+  estimatedHours: optional(number({ min: 1, max: 200 }), () => 4),
+  dependencies: optional(array(string()), () => []),
+  tags: optional(array(string()), () => []),
+});
+
+export const TASK_BREAKDOWN_SCHEMA = object<{ phases: TaskBreakdown[] }>({
+  phases: array(object<TaskBreakdown>({
+    parentTask: string(),
+    subtasks: array(subtaskSchema, { min: 1 }),
+  }), { min: 1 }),
+});
@@ -0,0 +1,175 @@
+import { ChatCitation, FileAttachment, Project } from '../types';
+import { DOCUMENT_TYPES, getDocumentText } from './documentTypes';
+
+// ─── Document Retrieval ─────────────────────────────────────────────────────
+// Grounds chat answers in the project's own documents. Generated docs are cut
+// at their numbered headings, attachments at paragraph boundaries, and the
+// resulting passages are ranked against the question with Okapi BM25.
+
+const CHUNK_CHARS = 900;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is',
+  'it', 'me', 'my', 'of', 'on', 'or', 'our', 'should', 'that', 'the', 'this', 'to', 'we', 'what', 'when',
+  'which', 'will', 'with', 'you', 'your',
+]);
+
+export interface RetrievedPassage extends Omit<ChatCitation, 'index' | 'excerpt'> {
+  text: string;
+}
+
+interface RetrievalIndex {
+  passages: RetrievedPassage[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/** Group paragraphs into passages of roughly CHUNK_CHARS, splitting oversized paragraphs */
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > CHUNK_CHARS) {
+      chunks.push(current);
+      current = '';
+    }
+    if (paragraph.length > CHUNK_CHARS) {
+      for (let i = 0; i < paragraph.length; i += CHUNK_CHARS) {
+        chunks.push(paragraph.slice(i, i + CHUNK_CHARS));
+      }
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+const NUMBERED_HEADING = /^\d+(\.\d+)*\.?\s+\S.{0,80}$/;
+
+/** Split a generated document into (heading, body) sections at its numbered headings */
+function splitSections(text: string): { heading: string; body: string }[] {
+  const sections: { heading: string; body: string }[] = [];
+  let heading = '';
+  let lines: string[] = [];
+
+  const flush = () => {
+    const body = lines.join('\n').trim();
+    if (body) sections.push({ heading, body });
+  };
+
+  for (const line of text.split('\n')) {
+    if (NUMBERED_HEADING.test(line.trim())) {
+      flush();
+      heading = line.trim();
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+function collectPassages(project: Project): RetrievedPassage[] {
+  const passages: RetrievedPassage[] = [];
+
+  for (const { key: document, label: documentLabel } of DOCUMENT_TYPES) {
+    for (const { heading, body } of splitSections(getDocumentText(project, document))) {
+      const label = heading ? `${documentLabel} › ${heading}` : documentLabel;
+      for (const text of chunkText(body)) {
+        passages.push({ label, document, text: heading ? `${heading}\n${text}` : text });
+      }
+    }
+  }
+
+  const addAttachment = (file: FileAttachment, context?: string) => {
+    if (!file.extractedText) return;
+    const label = context ? `${file.name} (${context})` : file.name;
+    for (const text of chunkText(file.extractedText)) {
+      passages.push({ label, url: file.url, text });
+    }
+  };
+
+  project.documentationAttachments?.forEach(file => addAttachment(file));
+  project.tasks?.forEach(task => task.attachments?.forEach(file => addAttachment(file, `task: ${task.title}`)));
+
+  return passages;
+}
+
+function buildIndex(project: Project): RetrievalIndex {
+  const passages = collectPassages(project);
+  const termFrequencies: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const passage of passages) {
+    const frequencies = new Map<string, number>();
+    const tokens = tokenize(passage.text);
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+    termFrequencies.push(frequencies);
+    lengths.push(tokens.length);
+  }
+
+  const averageLength = lengths.length > 0 ? lengths.reduce((a, b) => a + b, 0) / lengths.length : 0;
+  return { passages, termFrequencies, lengths, documentFrequency, averageLength };
+}
+
+// Projects are replaced (never mutated) on update, so each version is indexed once
+const indexCache = new WeakMap<Project, RetrievalIndex>();
+
+/** Top passages for a question, best first; empty when nothing in the project matches */
+export function retrievePassages(project: Project, query: string, limit = 4): RetrievedPassage[] {
+  let index = indexCache.get(project);
+  if (!index) {
+    index = buildIndex(project);
+    indexCache.set(project, index);
+  }
+
+  const { passages, termFrequencies, lengths, documentFrequency, averageLength } = index;
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0 || passages.length === 0) return [];
+
+  const scored = passages.map((passage, i) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = termFrequencies[i].get(term);
+      if (!tf) continue;
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengths[i] / averageLength));
+    }
+    return { passage, score };
+  });
+
+  return scored
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(s => s.passage);
+}
+
+/** Keep only the passages the reply actually cites with [n] markers */
+export function citationsFromReply(reply: string, passages: RetrievedPassage[]): ChatCitation[] {
+  const cited = new Set([...reply.matchAll(/\[(\d+)\]/g)].map(m => parseInt(m[1], 10)));
+  return passages
+    .map(({ text, ...passage }, i) => ({ ...passage, index: i + 1, excerpt: text.slice(0, 240) }))
+    .filter(citation => cited.has(citation.index));
+}
@@ -0,0 +1,177 @@
+// ─── Text Extraction ────────────────────────────────────────────────────────
+// Best-effort plain text from uploaded files so they can be searched by the
+// chat retrieval index. Runs once at upload time (blob URLs don't survive a
+// reload) using only browser built-ins: DecompressionStream handles the
+// deflate streams inside PDFs and DOCX zip archives.
+
+// Extracted text is stored on the attachment inside the project, which lives in localStorage
+const MAX_EXTRACTED_CHARS = 50_000;
+
+async function inflate(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return out;
+}
+
+// ─── PDF ────────────────────────────────────────────────────────────────────
+
+/** Decode a PDF literal string body: backslash escapes and octal character codes */
+function decodePdfString(raw: string): string {
+  return raw.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, esc: string) => {
+    switch (esc) {
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'b': case 'f': return '';
+      case '(': case ')': case '\\': return esc;
+      default: return String.fromCharCode(parseInt(esc, 8));
+    }
+  });
+}
+
+/** Pull text-showing operators (Tj, TJ, ', ") out of a page content stream */
+function textFromContentStream(content: string): string {
+  const out: string[] = [];
+  const blocks = content.match(/BT[\s\S]*?ET/g) || [];
+
+  for (const block of blocks) {
+    const tokens = block.match(/\((?:\\.|[^\\)])*\)|\[[^\]]*\]\s*TJ|T\*|Td|TD|'|"/g) || [];
+    for (const token of tokens) {
+      if (token === 'T*' || token === 'Td' || token === 'TD' || token === "'" || token === '"') {
+        out.push('\n');
+      } else if (token.endsWith('TJ')) {
+        const parts = token.match(/\((?:\\.|[^\\)])*\)/g) || [];
+        out.push(parts.map(p => decodePdfString(p.slice(1, -1))).join(''));
+      } else {
+        out.push(decodePdfString(token.slice(1, -1)));
+      }
+    }
+    out.push('\n');
+  }
+  return out.join('');
+}
+
+async function extractPdfText(buffer: ArrayBuffer): Promise<string> {
+  const bytes = new Uint8Array(buffer);
+  const source = latin1(bytes);
+  const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+  const pages: string[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(source)) !== null) {
+    const dict = match[1];
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    // Fonts, images and other binary payloads never contain page text
+    if (/\/Subtype\s*\/Image|\/Length1|\/FontFile|\/XRef|\/ObjStm/.test(dict)) continue;
+
+    try {
+      const raw = bytes.subarray(start, end);
+      const content = /\/FlateDecode/.test(dict) ? latin1(await inflate(raw, 'deflate')) : latin1(raw);
+      const text = textFromContentStream(content);
+      if (text.trim()) pages.push(text);
+    } catch {
+      // Unsupported filter or truncated stream — skip it
+    }
+  }
+  return pages.join('\n\n');
+}
+
+// ─── DOCX ───────────────────────────────────────────────────────────────────
+
+/** Read one entry out of a zip archive via its central directory */
+async function readZipEntry(buffer: ArrayBuffer, entryName: string): Promise<Uint8Array | null> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // End of central directory record sits within the last 64 KB (+22 byte header)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd === -1) return null;
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) return null;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (name === entryName) {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflate(data, 'deflate-raw');
+      return null;
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+async function extractDocxText(buffer: ArrayBuffer): Promise<string> {
+  const xml = await readZipEntry(buffer, 'word/document.xml');
+  if (!xml) return '';
+  const body = new TextDecoder().decode(xml)
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:br\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(body);
+}
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+function isPlainText(file: File): boolean {
+  return file.type.startsWith('text/') || /\.(md|txt|csv|json|tex|bib)$/i.test(file.name);
+}
+
+/** Extract searchable text from a file; returns undefined when the format isn't supported */
+export async function extractText(file: File): Promise<string | undefined> {
+  try {
+    let text: string;
+    if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+      text = await extractPdfText(await file.arrayBuffer());
+    } else if (/\.docx$/i.test(file.name)) {
+      text = await extractDocxText(await file.arrayBuffer());
+    } else if (isPlainText(file)) {
+      text = await file.text();
+    } else {
+      return undefined;
+    }
+
+    const normalised = text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+    return normalised ? normalised.slice(0, MAX_EXTRACTED_CHARS) : undefined;
+  } catch (err) {
+    console.warn(`Text extraction failed for ${file.name} (non-fatal):`, err);
+    return undefined;
+  }
+}
@@ -0,0 +1,213 @@
+import { Project, UrlVerification, UrlVerificationStatus, UrlVerifierSettings } from '../types';
+import { getCurrentUser } from './authService';
+import { isAbortError } from './llmProvider';
+
+// ─── Link Verification ──────────────────────────────────────────────────────
+// Sources, learning resources and datasets suggested by the AI are often
+// plausible-looking but dead links. Each URL is checked by a fetcher; the
+// fetcher is chosen in settings and can be replaced entirely (e.g. with a
+// stub during local development) through `setUrlFetcher`.
+
+const CHECK_TIMEOUT_MS = 10_000;
+const MAX_PARALLEL_CHECKS = 4;
+
+export interface UrlCheckResult {
+  status: UrlVerificationStatus;
+  httpStatus?: number;
+  note?: string;
+}
+
+export type UrlFetcher = (url: string, signal: AbortSignal) => Promise<UrlCheckResult>;
+
+export const DEFAULT_VERIFIER_SETTINGS: UrlVerifierSettings = {
+  mode: 'browser',
+  proxyUrl: 'http://localhost:8787/check',
+};
+
+function settingsKey(): string {
+  return `Plan Panni Pannuvom_url_verifier_${getCurrentUser()?.id || 'anonymous'}`;
+}
+
+export function getVerifierSettings(): UrlVerifierSettings {
+  const raw = localStorage.getItem(settingsKey());
+  if (!raw) return { ...DEFAULT_VERIFIER_SETTINGS };
+  try {
+    return { ...DEFAULT_VERIFIER_SETTINGS, ...JSON.parse(raw) };
+  } catch {
+    return { ...DEFAULT_VERIFIER_SETTINGS };
+  }
+}
+
+export function saveVerifierSettings(settings: UrlVerifierSettings): void {
+  localStorage.setItem(settingsKey(), JSON.stringify(settings));
+  checked.clear();
+}
+
+// ─── Fetchers ───────────────────────────────────────────────────────────────
+
+function fromHttpStatus(httpStatus: number): UrlCheckResult {
+  if (httpStatus >= 200 && httpStatus < 400) return { status: 'verified', httpStatus };
+  if (httpStatus === 404 || httpStatus === 410) return { status: 'broken', httpStatus, note: 'Page not found' };
+  if (httpStatus === 401 || httpStatus === 403) return { status: 'unverified', httpStatus, note: 'Access restricted (login or paywall)' };
+  return { status: 'unverified', httpStatus, note: `Server answered ${httpStatus}` };
+}
+
+/**
+ * Checks from the browser. Most sites don't allow cross-origin reads, so when
+ * the readable request is blocked an opaque one at least shows whether the
+ * host answers at all.
+ */
+const browserFetcher: UrlFetcher = async (url, signal) => {
+  try {
+    const response = await fetch(url, { method: 'HEAD', signal });
+    return fromHttpStatus(response.status);
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+  }
+  try {
+    await fetch(url, { mode: 'no-cors', signal });
+    return { status: 'unverified', note: 'Site is reachable, but the browser hides the page status. Use a proxy checker for a definite answer.' };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    return { status: 'broken', note: 'Site did not respond' };
+  }
+};
+
+function createProxyFetcher(proxyUrl: string): UrlFetcher {
+  return async (url, signal) => {
+    const endpoint = `${proxyUrl}${proxyUrl.includes('?') ? '&' : '?'}url=${encodeURIComponent(url)}`;
+    try {
+      const response = await fetch(endpoint, { signal });
+      const data = await response.json();
+      if (typeof data?.status === 'number') return fromHttpStatus(data.status);
+      if (typeof data?.ok === 'boolean') return data.ok ? { status: 'verified' } : { status: 'broken', note: data.error || 'Reported broken by proxy' };
+      return { status: 'unverified', note: 'Proxy gave an unrecognised answer' };
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      return { status: 'unverified', note: `Proxy checker at ${proxyUrl} is unavailable` };
+    }
+  };
+}
+
+const offlineFetcher: UrlFetcher = async () => ({ status: 'unverified', note: 'Not checked (offline mode)' });
+
+let fetcherOverride: UrlFetcher | null = null;
+
+/** Replace the configured fetcher (pass null to go back to settings) */
+export function setUrlFetcher(fetcher: UrlFetcher | null): void {
+  fetcherOverride = fetcher;
+  checked.clear();
+}
+
+function activeFetcher(): UrlFetcher {
+  if (fetcherOverride) return fetcherOverride;
+  const settings = getVerifierSettings();
+  if (settings.mode === 'offline') return offlineFetcher;
+  if (settings.mode === 'proxy' && settings.proxyUrl.trim()) return createProxyFetcher(settings.proxyUrl.trim());
+  return browserFetcher;
+}
+
+// ─── Verification ───────────────────────────────────────────────────────────
+
+// Results are reused for the rest of the session so re-verifying a project is cheap
+const checked = new Map<string, UrlVerification>();
+
+export async function verifyUrl(url: string, signal?: AbortSignal): Promise<UrlVerification> {
+  const checkedAt = new Date().toISOString();
+  const trimmed = (url || '').trim();
+  if (!trimmed) return { status: 'unverified', checkedAt, note: 'No link given' };
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return { status: 'broken', checkedAt, note: 'Not a valid web address' };
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { status: 'broken', checkedAt, note: 'Not a web address' };
+  }
+
+  const cached = checked.get(parsed.href);
+  if (cached) return cached;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CHECK_TIMEOUT_MS);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  try {
+    const result = await activeFetcher()(parsed.href, controller.signal);
+    const verification: UrlVerification = { ...result, checkedAt };
+    checked.set(parsed.href, verification);
+    return verification;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    // With the caller's signal untouched, an aborted controller means our timer fired
+    if (controller.signal.aborted) return { status: 'unverified', checkedAt, note: 'Timed out' };
+    return { status: 'unverified', checkedAt, note: `Check failed: ${err instanceof Error ? err.message : String(err)}` };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+export interface LinkSummary {
+  verified: number;
+  broken: number;
+  unverified: number;
+  unchecked: number;
+}
+
+/** Sources, learning resources and datasets in display order */
+function projectLinks(project: Project): { verification?: UrlVerification }[] {
+  return [...(project.sources || []), ...(project.learningResources || []), ...(project.datasets || [])];
+}
+
+export function summarizeLinks(project: Project): LinkSummary {
+  const summary: LinkSummary = { verified: 0, broken: 0, unverified: 0, unchecked: 0 };
+  for (const link of projectLinks(project)) {
+    if (link.verification) summary[link.verification.status]++;
+    else summary.unchecked++;
+  }
+  return summary;
+}
+
+/**
+ * Check every link in the project, a few at a time. Results are keyed by URL
+ * rather than written into the project, since the project may be edited while
+ * the check runs; merge them with `applyLinkVerifications`.
+ */
+export async function verifyProjectLinks(
+  project: Project,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Map<string, UrlVerification>> {
+  const urls = [...new Set([
+    ...(project.sources || []).map(s => s.uri),
+    ...(project.learningResources || []).map(r => r.url),
+    ...(project.datasets || []).map(d => d.url),
+  ])];
+  const results = new Map<string, UrlVerification>();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      results.set(url, await verifyUrl(url, signal));
+      onProgress?.(results.size, urls.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_CHECKS, urls.length) }, worker));
+  return results;
+}
+
+/** Attach check results to the links they belong to; links added or changed since the check keep their own state */
+export function applyLinkVerifications(project: Project, results: Map<string, UrlVerification>): Project {
+  const withResult = <T extends { verification?: UrlVerification }>(item: T, url: string): T =>
+    results.has(url) ? { ...item, verification: results.get(url) } : item;
+  return {
+    ...project,
+    sources: project.sources?.map(s => withResult(s, s.uri)),
+    learningResources: project.learningResources?.map(r => withResult(r, r.url)),
+    datasets: project.datasets.map(d => withResult(d, d.url)),
+  };
+}
@@ -0,0 +1,204 @@
+import { AIPurpose, LLMProviderKind, UsageBudget, UsageRecord } from '../types';
+import { getCurrentUser } from './authService';
+import { addNotification } from './notificationService';
+
+// ─── Token Usage & Cost Accounting ──────────────────────────────────────────
+// Every network completion is recorded per user, tagged with the generator
+// and project that issued it. Cache hits are free and therefore not recorded.
+
+// Older records are dropped beyond this so the log stays within localStorage limits
+const MAX_RECORDS = 5000;
+
+/** USD per million tokens, used when the provider doesn't report cost */
+const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
+  'google/gemini-2.0-flash-001': { prompt: 0.10, completion: 0.40 },
+  'google/gemini-2.5-flash': { prompt: 0.30, completion: 2.50 },
+  'openai/gpt-4o-mini': { prompt: 0.15, completion: 0.60 },
+  'openai/gpt-4o': { prompt: 2.50, completion: 10.00 },
+  'anthropic/claude-3.5-haiku': { prompt: 0.80, completion: 4.00 },
+  'meta-llama/llama-3.1-8b-instruct': { prompt: 0.02, completion: 0.05 },
+};
+
+export const DEFAULT_BUDGET: UsageBudget = {
+  monthlyLimit: 0,
+  mode: 'warn',
+  warnAt: 0.8,
+};
+
+export interface ReportedUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
+
+/** Thrown before a network call when the monthly budget is exhausted in "block" mode */
+export class BudgetExceededError extends Error {
+  constructor(spent: number, limit: number) {
+    super(`Monthly AI budget reached ($${spent.toFixed(2)} of $${limit.toFixed(2)}). Raise the limit in Usage & Budget to keep generating.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+function userScope(): string {
+  return getCurrentUser()?.id || 'anonymous';
+}
+
+function usageKey(): string {
+  return `Plan Panni Pannuvom_usage_${userScope()}`;
+}
+
+function budgetKey(): string {
+  return `Plan Panni Pannuvom_usage_budget_${userScope()}`;
+}
+
+// ─── Records ────────────────────────────────────────────────────────────────
+
+export function getUsageRecords(): UsageRecord[] {
+  const raw = localStorage.getItem(usageKey());
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as UsageRecord[];
+  } catch {
+    return [];
+  }
+}
+
+export function clearUsageRecords(): void {
+  localStorage.removeItem(usageKey());
+}
+
+/** Rough token count for providers that don't report usage (~4 characters per token) */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function recordUsage(entry: {
+  purpose: AIPurpose;
+  projectId: string | null;
+  provider: LLMProviderKind;
+  model: string;
+  prompt: string;
+  response: string;
+  usage?: ReportedUsage;
+}): UsageRecord {
+  const promptTokens = entry.usage?.promptTokens ?? estimateTokens(entry.prompt);
+  const completionTokens = entry.usage?.completionTokens ?? estimateTokens(entry.response);
+  const pricing = entry.provider === 'openrouter' ? MODEL_PRICING[entry.model] : undefined;
+  const cost = entry.usage?.cost
+    ?? (pricing ? (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000 : 0);
+
+  const record: UsageRecord = {
+    id: Math.random().toString(36).substr(2, 9),
+    projectId: entry.projectId,
+    purpose: entry.purpose,
+    provider: entry.provider,
+    model: entry.model,
+    promptTokens,
+    completionTokens,
+    cost,
+    estimated: !entry.usage || entry.usage.cost === undefined,
+    timestamp: new Date().toISOString(),
+  };
+
+  const records = [...getUsageRecords(), record].slice(-MAX_RECORDS);
+  localStorage.setItem(usageKey(), JSON.stringify(records));
+  return record;
+}
+
+// ─── Aggregation ────────────────────────────────────────────────────────────
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce((totals, r) => ({
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + r.promptTokens,
+    completionTokens: totals.completionTokens + r.completionTokens,
+    cost: totals.cost + r.cost,
+  }), emptyTotals());
+}
+
+export function groupUsage<K extends string>(records: UsageRecord[], keyOf: (r: UsageRecord) => K): Record<K, UsageTotals> {
+  const groups = {} as Record<K, UsageRecord[]>;
+  for (const record of records) {
+    (groups[keyOf(record)] ||= []).push(record);
+  }
+  const totals = {} as Record<K, UsageTotals>;
+  for (const key of Object.keys(groups) as K[]) {
+    totals[key] = sumUsage(groups[key]);
+  }
+  return totals;
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function getMonthRecords(date = new Date()): UsageRecord[] {
+  const month = monthKey(date);
+  return getUsageRecords().filter(r => r.timestamp.startsWith(month));
+}
+
+// ─── Budget ─────────────────────────────────────────────────────────────────
+
+export function getBudget(): UsageBudget {
+  const raw = localStorage.getItem(budgetKey());
+  if (!raw) return { ...DEFAULT_BUDGET };
+  try {
+    return { ...DEFAULT_BUDGET, ...JSON.parse(raw) };
+  } catch {
+    return { ...DEFAULT_BUDGET };
+  }
+}
+
+export function saveBudget(budget: UsageBudget): void {
+  localStorage.setItem(budgetKey(), JSON.stringify(budget));
+}
+
+export interface BudgetStatus {
+  spent: number;
+  limit: number;
+  state: 'none' | 'ok' | 'warning' | 'exceeded';
+}
+
+export function getBudgetStatus(): BudgetStatus {
+  const budget = getBudget();
+  const spent = sumUsage(getMonthRecords()).cost;
+  if (budget.monthlyLimit <= 0) return { spent, limit: 0, state: 'none' };
+  const state = spent >= budget.monthlyLimit ? 'exceeded' : spent >= budget.monthlyLimit * budget.warnAt ? 'warning' : 'ok';
+  return { spent, limit: budget.monthlyLimit, state };
+}
+
+/**
+ * Called before every network completion. Throws in "block" mode once the
+ * limit is reached; otherwise posts a notification (once per month and level).
+ */
+export function assertWithinBudget(): void {
+  const budget = getBudget();
+  const status = getBudgetStatus();
+  if (status.state === 'none' || status.state === 'ok') return;
+
+  if (status.state === 'exceeded' && budget.mode === 'block') {
+    throw new BudgetExceededError(status.spent, status.limit);
+  }
+
+  const warnedKey = `${budgetKey()}_warned`;
+  const marker = `${monthKey(new Date())}:${status.state}`;
+  if (localStorage.getItem(warnedKey) === marker) return;
+  localStorage.setItem(warnedKey, marker);
+
+  addNotification({
+    type: 'info',
+    title: status.state === 'exceeded' ? 'AI budget exceeded' : 'AI budget almost used',
+    message: `You have spent $${status.spent.toFixed(2)} of your $${status.limit.toFixed(2)} monthly AI budget.`,
+  });
+}
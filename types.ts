@@ -40,9 +40,20 @@ export enum ProjectComplexity {
   Research = 'Research-grade (Novel contribution expected)'
 }
 
+export type UrlVerificationStatus = 'verified' | 'broken' | 'unverified';
+
+/** Result of checking that a link the AI suggested actually exists */
+export interface UrlVerification {
+  status: UrlVerificationStatus;
+  checkedAt: string;
+  httpStatus?: number;
+  note?: string;
+}
+
 export interface Source {
   title: string;
   uri: string;
+  verification?: UrlVerification;
 }
 
 export interface LearningResource {
@@ -50,12 +61,17 @@ export interface LearningResource {
   url: string;
   type: 'documentation' | 'tutorial' | 'paper' | 'course';
   description: string;
+  verification?: UrlVerification;
 }
 
+/** Who wrote a blueprint item; items without a marker came from the AI */
+export type ItemProvenance = 'ai' | 'manual';
+
 export interface TechComponent {
   name: string;
   role: string;
   description: string;
+  provenance?: ItemProvenance;
 }
 
 export interface Dataset {
@@ -63,6 +79,106 @@ export interface Dataset {
   source: string;
   url: string;
   description: string;
+  verification?: UrlVerification;
+  provenance?: ItemProvenance;
+}
+
+export type ArchitectureLayer = 'presentation' | 'application' | 'ml' | 'data' | 'external';
+
+export interface ArchitectureComponent {
+  id: string;
+  name: string;
+  layer: ArchitectureLayer;
+  technology: string;
+  description: string;
+}
+
+export interface ArchitectureEdge {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+/** Structured form of `implementationStrategy`, drawn as a layered diagram */
+export interface ArchitectureModel {
+  components: ArchitectureComponent[];
+  edges: ArchitectureEdge[];
+  updatedAt: string;
+}
+
+/** One step of a member's learning path; `taskId` links it to the task list once converted */
+export interface LearningPlanItem {
+  id: string;
+  member: string;
+  area: string;
+  topic: string;
+  /** Why the step is needed, e.g. "Backend: FastAPI" */
+  reason: string;
+  estimatedHours: number;
+  resources: { title: string; url: string }[];
+  completedAt?: string;
+  taskId?: string;
+}
+
+export type DocRevisionSource = 'ai' | 'manual';
+
+/** A saved version of one generated document */
+export interface DocRevision {
+  id: string;
+  text: string;
+  author: string;
+  source: DocRevisionSource;
+  createdAt: string;
+  /** e.g. "Restored from 12 Mar, 14:05" or "Section 3 taken from …" */
+  note?: string;
+}
+
+export type ReferenceKind = 'article' | 'conference' | 'book' | 'website' | 'other';
+
+export type CitationStyle = 'ieee' | 'apa' | 'acm';
+
+/** An entry in a project's reference library; documents cite it inline as [@citeKey] */
+export interface Reference {
+  id: string;
+  citeKey: string;
+  kind: ReferenceKind;
+  title: string;
+  /** "Family, Given" where the given names are known */
+  authors: string[];
+  year?: string;
+  /** Journal, proceedings or site name */
+  venue?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  publisher?: string;
+  doi?: string;
+  url?: string;
+  /** ISO date a web page was read */
+  accessed?: string;
+}
+
+export type BomItemStatus = 'planned' | 'ordered' | 'received';
+
+/** One line of a hardware bill of materials; `unitCost` is in the BOM's currency */
+export interface BomItem {
+  id: string;
+  name: string;
+  /** What the part is used for, e.g. "Soil moisture sensing" */
+  purpose: string;
+  quantity: number;
+  unitCost: number;
+  vendor: string;
+  status: BomItemStatus;
+  provenance?: ItemProvenance;
+}
+
+export interface BillOfMaterials {
+  items: BomItem[];
+  /** Spending limit set by the team; when absent one is suggested from the profile's budget constraint */
+  budget?: number;
+  currency: string;
 }
 
 export interface UserProfile {
@@ -87,6 +203,62 @@ export interface UserProfile {
   referenceProjects: string;
 }
 
+/** Criteria candidate ideas are scored on before the team commits to one */
+export type IdeaCriterion = 'feasibility' | 'novelty' | 'dataAvailability' | 'hardwareCost' | 'complexityFit';
+
+export interface IdeaCriterionScore {
+  /** 1-10, higher is better (for hardware cost: cheaper) */
+  score: number;
+  rationale: string;
+}
+
+export interface IdeaEvaluation {
+  title: string;
+  scores: Record<IdeaCriterion, IdeaCriterionScore>;
+}
+
+export type IdeaOperation = 'generated' | 'variation' | 'narrow' | 'merge';
+
+/** One idea in the refinement lineage; merges have several parents, generated ideas none */
+export interface IdeaNode {
+  id: string;
+  idea: Pick<Project, 'title' | 'problemStatement' | 'innovationAngle' | 'solutionIdea'>;
+  parentIds: string[];
+  operation: IdeaOperation;
+  /** What the user asked for, e.g. "make it hardware-free" */
+  instruction?: string;
+  starred: boolean;
+  createdAt: string;
+}
+
+/** A past project an idea is checked against; imported from a CSV/JSON/XLSX list or taken from stored projects */
+export interface PriorProject {
+  id: string;
+  title: string;
+  problemStatement?: string;
+  solutionIdea?: string;
+  year?: string;
+  department?: string;
+  source: 'imported' | 'app';
+}
+
+export interface PriorArtMatch {
+  entry: PriorProject;
+  /** Cosine similarity of TF-IDF vectors, 0-1 */
+  score: number;
+  /** Distinctive terms the idea and the past project share */
+  sharedTerms: string[];
+}
+
+/** A named UserProfile kept per user so teams can switch contexts (e.g. "SIH team", "solo mini project") */
+export interface ProfilePreset {
+  id: string;
+  name: string;
+  profile: UserProfile;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Project {
   id: string;
   title: string;
@@ -97,8 +269,11 @@ export interface Project {
   prd: string;
   designDoc: string;
   documentationAttachments?: FileAttachment[];
+  /** Oldest first, per document */
+  docRevisions?: Partial<Record<DocumentKey, DocRevision[]>>;
+  documents?: Partial<Record<AdditionalDocKey, string>>;
   techStack: TechComponent[];
-  algorithms: { name: string; description: string; implementationLogic: string }[];
+  algorithms: { name: string; description: string; implementationLogic: string; provenance?: ItemProvenance }[];
   datasets: Dataset[];
   roadmap: Milestone[];
   vivaQuestions: VivaQuestion[];
@@ -106,6 +281,18 @@ export interface Project {
   sources?: Source[];
   learningResources?: LearningResource[];
   implementationStrategy?: string;
+  architecture?: ArchitectureModel;
+  /** Knowledge areas per team member (by name), overriding their saved ideation profile */
+  memberSkills?: Record<string, string[]>;
+  learningPlan?: LearningPlanItem[];
+  bom?: BillOfMaterials;
+  references?: Reference[];
+  /** Bibliography style for previews and exports; IEEE when unset */
+  citationStyle?: CitationStyle;
+  /** The ideation profile that produced this project */
+  profile?: UserProfile;
+  /** Generators that failed while the project was created, retried from the project view */
+  failedGenerations?: GenerationStep[];
   status: 'ideation' | 'planning' | 'implementation' | 'documentation';
 }
 
@@ -132,6 +319,8 @@ export interface FileAttachment {
   uploadedBy: string;
   uploadedAt: string;
   thumbnailUrl?: string;
+  /** Plain text pulled from PDFs, DOCX and text files at upload time, used for chat retrieval */
+  extractedText?: string;
 }
 
 export interface AppUser {
@@ -201,6 +390,51 @@ export interface Task {
   attachments?: FileAttachment[];
 }
 
+/** Project mutations the chat assistant can propose; each is confirmed by the user before it is applied */
+export type ChatToolCall =
+  | { name: 'create_task'; arguments: { title: string; description: string; priority: TaskPriority; assignedTo: string; deadline: string; estimatedHours: number } }
+  | { name: 'update_task_status'; arguments: { task: string; status: Task['status'] } }
+  | { name: 'reschedule_tasks'; arguments: Record<string, never> }
+  | { name: 'add_milestone'; arguments: { phase: string; title: string; duration: string; description: string } }
+  | { name: 'append_prd_section'; arguments: { heading: string; content: string } };
+
+export interface ChatToolCallState {
+  id: string;
+  call: ChatToolCall;
+  status: 'pending' | 'applied' | 'dismissed';
+}
+
+/** A project passage the assistant cited with an inline [n] marker */
+export interface ChatCitation {
+  index: number;
+  label: string;
+  excerpt: string;
+  /** Set when the passage comes from a generated document */
+  document?: DocumentKey;
+  /** Set when the passage comes from an uploaded file */
+  url?: string;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  toolCalls?: ChatToolCallState[];
+  citations?: ChatCitation[];
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  projectId: string | null; // null for the general assistant (no project selected)
+  messages: StoredChatMessage[];
+  summary?: string; // rolling summary of the oldest turns, sent instead of them
+  summarizedCount?: number; // how many leading messages the summary covers
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ChatMessageAttachment {
   id: string;
   file: FileAttachment;
@@ -228,4 +462,85 @@ export interface TaskBreakdown {
   subtasks: Omit<Task, 'id' | 'priorityScore' | 'scheduledStart' | 'scheduledEnd' | 'criticalPath'>[];
 }
 
+export type LLMProviderKind = 'openrouter' | 'openai-compatible' | 'mock';
+
+/** Which generator issued an AI call — used to route mock fixtures and tag requests */
+export type AIPurpose = 'ideas' | 'comparison' | 'docs' | 'guidance' | 'viva' | 'tasks' | 'chat';
+
+export interface LLMSettings {
+  provider: LLMProviderKind;
+  model: string;
+  baseUrl: string; // only used by 'openai-compatible' (e.g. http://localhost:11434/v1)
+  apiKey: string;
+}
+
+/**
+ * How links are checked: straight from the browser (CORS often hides the
+ * status), through a small proxy that reports it, or not at all.
+ */
+export interface UrlVerifierSettings {
+  mode: 'browser' | 'proxy' | 'offline';
+  /** Called as `${proxyUrl}?url=<encoded>`; must answer JSON `{ "status": <http status> }` */
+  proxyUrl: string;
+}
+
+export interface AICacheSettings {
+  enabled: boolean;
+  /** Serve only cached responses and never touch the network */
+  replayOnly: boolean;
+  ttlHours: number;
+  maxEntries: number;
+  maxSizeMB: number;
+}
+
+export interface UsageRecord {
+  id: string;
+  projectId: string | null;
+  purpose: AIPurpose;
+  provider: LLMProviderKind;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** USD; reported by the provider when available, otherwise estimated from MODEL_PRICING */
+  cost: number;
+  /** True when token counts or cost were estimated rather than reported */
+  estimated: boolean;
+  timestamp: string;
+}
+
+export interface UsageBudget {
+  /** Monthly limit in USD; 0 disables the budget */
+  monthlyLimit: number;
+  mode: 'warn' | 'block';
+  /** Warn once spending passes this fraction of the limit */
+  warnAt: number;
+}
+
+export type PromptTemplateId = `docs.${DocumentKey}` | 'guidance' | 'tasks';
+
+/** One saved edit of a prompt template; the highest version is the one in use */
+export interface PromptTemplateVersion {
+  version: number;
+  system: string;
+  user: string;
+  note: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+/** Project fields holding AI-generated documents */
+export type GeneratedDocKey = 'abstract' | 'prd' | 'designDoc';
+
+/** Documents generated on demand from the Documentation view, stored under `Project.documents` */
+export type AdditionalDocKey = 'srs' | 'literatureSurvey' | 'testPlan' | 'userManual' | 'finalReport';
+
+/** Every document type in the registry (see documentTypes) */
+export type DocumentKey = GeneratedDocKey | AdditionalDocKey;
+
+/** Independent AI calls made when a project is created from an idea */
+export type GenerationStep = GeneratedDocKey | 'guidance' | 'tasks';
+
+/** Guidance sections that can be regenerated on their own */
+export type GuidanceSection = 'techStack' | 'algorithms' | 'datasets' | 'roadmap';
+
 export type AppView = 'dashboard' | 'ideation' | 'guidance' | 'docs' | 'collaboration' | 'viva' | 'tasks';